@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+// Headless export of any composition registered in src/remotion/Root.tsx.
+//
+//   npm run render -- <compositionId> [--props props.json] [--frames 0-299]
+//                     [--format mp4|webm|gif|png] [--out path] [--scale 1]
+//                     [--browser /path/to/chrome]
+//
+// Everything runs locally: the scenes are bundled with webpack and rendered
+// by a local headless Chrome. Pass --browser (or REMOTION_BROWSER_EXECUTABLE)
+// to use an installed Chrome/Chromium; otherwise run `npx remotion browser
+// ensure` once while online to cache Chrome Headless Shell.
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { bundle } from "@remotion/bundler";
+import { renderFrames, renderMedia, selectComposition } from "@remotion/renderer";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const ENTRY = path.join(ROOT, "src/remotion/index.tsx");
+
+const FORMATS = {
+  mp4: { codec: "h264", ext: "mp4" },
+  webm: { codec: "vp8", ext: "webm" },
+  gif: { codec: "gif", ext: "gif" },
+  png: { codec: null, ext: "" }, // PNG sequence into a folder
+};
+
+const fail = (msg) => {
+  console.error(`render: ${msg}`);
+  process.exit(1);
+};
+
+/* ---------- args ---------- */
+const parseArgs = (argv) => {
+  const out = { id: null, props: null, frames: null, format: "mp4", out: null, scale: 1, browser: null };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) {
+      if (out.id) fail(`unexpected argument "${a}"`);
+      out.id = a;
+      continue;
+    }
+    const key = a.slice(2);
+    const val = argv[++i];
+    if (val === undefined) fail(`missing value for --${key}`);
+    if (key === "props") out.props = val;
+    else if (key === "frames") out.frames = val;
+    else if (key === "format") out.format = val;
+    else if (key === "out") out.out = val;
+    else if (key === "scale") out.scale = Number(val);
+    else if (key === "browser") out.browser = val;
+    else fail(`unknown option --${key}`);
+  }
+  if (!out.id) fail("usage: render <compositionId> [--props file.json] [--frames a-b] [--format mp4|webm|gif|png] [--out path]");
+  if (!(out.format in FORMATS)) fail(`--format must be one of ${Object.keys(FORMATS).join(", ")}`);
+  if (!(out.scale > 0 && out.scale <= 4)) fail("--scale must be in (0, 4]");
+  return out;
+};
+
+const readProps = (file) => {
+  if (!file) return {};
+  let parsed;
+  try {
+    parsed = JSON.parse(fs.readFileSync(path.resolve(file), "utf8"));
+  } catch (e) {
+    fail(`cannot read props file ${file}: ${e.message}`);
+  }
+  if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+    fail("props file must contain a JSON object");
+  }
+  return parsed;
+};
+
+// "12" → [12, 12], "0-119" → [0, 119]
+const parseFrames = (spec, durationInFrames) => {
+  if (!spec) return [0, durationInFrames - 1];
+  const m = /^(\d+)(?:-(\d+))?$/.exec(spec);
+  if (!m) fail(`--frames must look like "12" or "0-119", got "${spec}"`);
+  const a = Number(m[1]);
+  const b = m[2] === undefined ? a : Number(m[2]);
+  if (a > b) fail(`--frames start ${a} is after end ${b}`);
+  if (b >= durationInFrames) fail(`--frames end ${b} is past the last frame (${durationInFrames - 1})`);
+  return [a, b];
+};
+
+// Shape check against the composition's defaultProps: same JS type per key.
+// Range checks live in each composition's calculateMetadata.
+const checkAgainstDefaults = (id, props, defaults) => {
+  const kind = (v) => (v === null ? "null" : Array.isArray(v) ? "array" : typeof v);
+  for (const [key, value] of Object.entries(props)) {
+    if (!(key in defaults)) {
+      console.warn(`render: ${id} has no default for "${key}" — passing it through unchecked`);
+      continue;
+    }
+    const want = kind(defaults[key]);
+    const got = kind(value);
+    if (want !== "null" && got !== want) {
+      fail(`${id}: "${key}" should be ${want}, got ${got}`);
+    }
+  }
+};
+
+/* ---------- main ---------- */
+const args = parseArgs(process.argv.slice(2));
+const inputProps = readProps(args.props);
+const browserExecutable = args.browser ?? process.env.REMOTION_BROWSER_EXECUTABLE ?? null;
+
+// Never fetch a browser mid-render: stay offline and say what to do instead.
+const onBrowserDownload = () =>
+  fail(
+    "no local headless browser found. Pass --browser /path/to/chrome, set " +
+      "REMOTION_BROWSER_EXECUTABLE, or run `npx remotion browser ensure` once while online."
+  );
+
+console.log("render: bundling…");
+const serveUrl = await bundle({ entryPoint: ENTRY, enableCaching: true });
+
+// selectComposition runs calculateMetadata, which validates props and sizes the timeline
+let composition;
+try {
+  composition = await selectComposition({
+    serveUrl,
+    id: args.id,
+    inputProps,
+    browserExecutable,
+    onBrowserDownload,
+  });
+} catch (e) {
+  fail(e.message);
+}
+checkAgainstDefaults(args.id, inputProps, composition.defaultProps);
+
+const frameRange = parseFrames(args.frames, composition.durationInFrames);
+const fmt = FORMATS[args.format];
+const outPath = path.resolve(
+  args.out ?? path.join(ROOT, "out", fmt.ext ? `${args.id}.${fmt.ext}` : args.id)
+);
+
+console.log(
+  `render: ${args.id} ${composition.width}x${composition.height}@${composition.fps}fps ` +
+    `frames ${frameRange[0]}–${frameRange[1]} → ${outPath}`
+);
+
+const common = {
+  serveUrl,
+  composition,
+  inputProps,
+  frameRange,
+  scale: args.scale,
+  browserExecutable,
+  onBrowserDownload,
+};
+
+if (fmt.codec) {
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  await renderMedia({
+    ...common,
+    codec: fmt.codec,
+    outputLocation: outPath,
+    onProgress: ({ progress }) => process.stdout.write(`\rrender: ${Math.round(progress * 100)}%`),
+  });
+} else {
+  fs.mkdirSync(outPath, { recursive: true });
+  let done = 0;
+  const total = frameRange[1] - frameRange[0] + 1;
+  await renderFrames({
+    ...common,
+    outputDir: outPath,
+    imageFormat: "png",
+    onStart: () => undefined,
+    onFrameUpdate: (n) => {
+      done = n;
+      process.stdout.write(`\rrender: ${done}/${total} frames`);
+    },
+  });
+}
+process.stdout.write("\n");
+console.log(`render: wrote ${outPath}`);
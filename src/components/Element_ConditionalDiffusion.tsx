@@ -0,0 +1,210 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Player, PlayerRef } from "@remotion/player";
+import {
+  CLASS_COLORS,
+  ConditionalDiffusionComposition,
+  ConditionalDiffusionProps,
+  getConditionalDiffusionDuration,
+  LABELED_DATASETS,
+} from "../remotion/ConditionalDiffusion/Composition";
+import { LABELED_MIXTURES, LabeledDist2D } from "../seededMath";
+import { ReverseSampler } from "../mixtureScore";
+
+const DATASET_LABEL: Record<LabeledDist2D, string> = {
+  gaussians8: "8 Gaussians, 8 classes",
+  gaussians8pairs: "8 Gaussians, 4 classes",
+  grid9: "3 × 3 grid, 3 classes",
+  overlap2: "2 overlapping classes",
+};
+
+const Element_ConditionalDiffusion: React.FC = () => {
+  const playerRef = useRef<PlayerRef>(null);
+
+  const [dataset, setDataset] = useState<LabeledDist2D>("gaussians8");
+  const [targetClass, setTargetClass] = useState<number | null>(null);
+  const [guidance, setGuidance] = useState<number>(3);
+  const [sampler, setSampler] = useState<ReverseSampler>("ddpm");
+  const [steps, setSteps] = useState<number>(100);
+  const [n, setN] = useState<number>(600);
+
+  // pacing
+  const fps = 60;
+  const framesPerStep = 6;
+  const tailHoldFrames = 120;
+
+  const classes = LABELED_MIXTURES[dataset].classes;
+
+  const props: ConditionalDiffusionProps = useMemo(
+    () => ({
+      dataset,
+      guidance,
+      steps,
+      n,
+      targetClass,
+      sampler,
+      framesPerStep,
+      tailHoldFrames,
+      mode: "dark",
+    }),
+    [dataset, guidance, steps, n, targetClass, sampler]
+  );
+
+  const durationInFrames = getConditionalDiffusionDuration(props);
+
+  // player chrome
+  const chromeBg = "rgba(0,0,0,0.85)";
+  const chromeFg = "#fff";
+  const seek = "#ffd166";
+
+  const wrap: React.CSSProperties = {
+    width: "100%",
+    maxWidth: 900,
+    margin: "0 auto",
+    fontFamily:
+      '"Source Sans 3", -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial',
+  };
+  const row: React.CSSProperties = {
+    width: "100%",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+    padding: "10px 14px",
+    background: "transparent",
+    color: "inherit",
+    flexWrap: "wrap",
+  };
+  const numSm: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "8px 10px",
+    borderRadius: 10,
+    fontSize: 15,
+    width: 84,
+    textAlign: "center" as const,
+  };
+  const select: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "7px 10px",
+    borderRadius: 10,
+    fontSize: 15,
+  };
+
+  return (
+    <div style={wrap}>
+      {/* Video */}
+      <div style={{ position: "relative", width: "100%", aspectRatio: "16/9" }}>
+        <Player
+          ref={playerRef}
+          component={ConditionalDiffusionComposition}
+          inputProps={props}
+          durationInFrames={durationInFrames}
+          compositionWidth={1280}
+          compositionHeight={720}
+          fps={fps}
+          controls
+          clickToPlay
+          loop={false}
+          style={{
+            position: "absolute",
+            inset: 0,
+            width: "100%",
+            height: "100%",
+            objectFit: "contain",
+            backgroundColor: "transparent",
+            ["--remotion-player-controls-background" as any]: chromeBg,
+            ["--remotion-player-controls-color" as any]: chromeFg,
+            ["--remotion-player-seekbar-color" as any]: seek,
+            ["--remotion-player-controls-backdrop-filter" as any]: "none",
+          }}
+        />
+      </div>
+
+      {/* Controls */}
+      <div style={row}>
+        <label style={{ fontWeight: 800 }}>Dataset</label>
+        <select
+          value={dataset}
+          onChange={(e) => {
+            const next = e.target.value as LabeledDist2D;
+            setDataset(next);
+            if (targetClass !== null && targetClass >= LABELED_MIXTURES[next].classes) setTargetClass(null);
+          }}
+          style={select}
+        >
+          {LABELED_DATASETS.map((d) => (
+            <option key={d} value={d}>
+              {DATASET_LABEL[d]}
+            </option>
+          ))}
+        </select>
+
+        <label style={{ fontWeight: 800 }}>Class</label>
+        <select
+          value={targetClass ?? "all"}
+          onChange={(e) => setTargetClass(e.target.value === "all" ? null : Number(e.target.value))}
+          style={{ ...select, color: targetClass === null ? "inherit" : CLASS_COLORS[targetClass] }}
+        >
+          <option value="all">All</option>
+          {Array.from({ length: classes }, (_, c) => (
+            <option key={c} value={c}>
+              {`class ${c}`}
+            </option>
+          ))}
+        </select>
+
+        <label style={{ fontWeight: 800 }}>Sampler</label>
+        <select value={sampler} onChange={(e) => setSampler(e.target.value as ReverseSampler)} style={select}>
+          <option value="ddpm">DDPM</option>
+          <option value="ddim">DDIM</option>
+          <option value="euler">Euler ODE</option>
+          <option value="heun">Heun ODE</option>
+        </select>
+      </div>
+
+      <div style={row}>
+        <label style={{ fontWeight: 800 }}>Guidance γ</label>
+        <input
+          type="range"
+          min={0}
+          max={10}
+          step={0.1}
+          value={guidance}
+          onChange={(e) => setGuidance(Number(e.target.value))}
+          style={{ width: 220 }}
+        />
+        <span style={{ minWidth: 36, fontVariantNumeric: "tabular-nums" }}>{guidance.toFixed(1)}</span>
+
+        <label style={{ fontWeight: 800 }}>Steps</label>
+        <input
+          type="number"
+          min={10}
+          max={400}
+          value={steps}
+          onChange={(e) =>
+            setSteps(Math.max(10, Math.min(400, Number(e.target.value) || 10)))
+          }
+          style={numSm}
+        />
+
+        <label style={{ fontWeight: 800 }}>Samples</label>
+        <input
+          type="number"
+          min={50}
+          max={2000}
+          step={50}
+          value={n}
+          onChange={(e) =>
+            setN(Math.max(50, Math.min(2000, Number(e.target.value) || 50)))
+          }
+          style={numSm}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Element_ConditionalDiffusion;
@@ -1,10 +1,7 @@
 import React, { useMemo, useRef, useState } from "react";
 import { Player, PlayerRef } from "@remotion/player";
-import {
-  DataSimComposition,
-  SimProps,
-  kdeEstimate,
-} from "../remotion/DataSim/Composition";
+import { DataSimComposition, SimProps } from "../remotion/DataSim/Composition";
+import { kde as kdeEstimate, makeRng, randInt, randn } from "../seededMath";
 
 /* ---------- Utility ---------- */
 
@@ -18,6 +15,8 @@ type Experiment = "coin" | "dice" | "n" | "gaussian";
 const Element_DataSimulation: React.FC = () => {
   const playerRef = useRef<PlayerRef>(null);
   const pauseTimer = useRef<number | null>(null);
+  // one seeded stream per page load — same session, same sequence of draws
+  const rng = useRef(makeRng(20240611)).current;
 
   // Controls
   const [exp, setExp] = useState<Experiment>("coin");
@@ -115,14 +114,6 @@ const Element_DataSimulation: React.FC = () => {
     }, ms) as unknown as number;
   };
 
-  // Box–Muller transform for N(0,1)
-  function boxMuller(): number {
-    let u = 0, v = 0;
-    while (u === 0) u = Math.random();
-    while (v === 0) v = Math.random();
-    return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-  }
-
   function findBin(x: number, edges: number[]): number {
     const B = edges.length - 1;
     if (x <= edges[0]) return 0;
@@ -136,7 +127,7 @@ const Element_DataSimulation: React.FC = () => {
   /* ---------- Generate (1) ---------- */
   const onGenerateOne = () => {
     if (exp === "gaussian") {
-      const sample = mu + sigma * boxMuller();
+      const sample = mu + sigma * randn(rng);
 
       const edges = binEdges;
       const B = edges.length - 1;
@@ -162,7 +153,7 @@ const Element_DataSimulation: React.FC = () => {
     }
 
     // Discrete 1 sample
-    const k = Math.floor(Math.random() * labels.length);
+    const k = randInt(rng, 0, labels.length);
     setLastIdx(k);
     setPrevCounts(counts.slice());
     const next = counts.slice();
@@ -181,7 +172,7 @@ const Element_DataSimulation: React.FC = () => {
 
       const add = new Array(B).fill(0);
       for (let i = 0; i < N; i++) {
-        const s = mu + sigma * boxMuller();
+        const s = mu + sigma * randn(rng);
         const idx = Math.max(0, Math.min(B - 1, findBin(s, edges)));
         add[idx] += 1;
       }
@@ -208,7 +199,7 @@ const Element_DataSimulation: React.FC = () => {
     // Discrete batch
     const L = labels.length;
     const add = new Array(L).fill(0);
-    for (let i = 0; i < N; i++) add[Math.floor(Math.random() * L)]++;
+    for (let i = 0; i < N; i++) add[randInt(rng, 0, L)]++;
     setLastIdx(null);
     setPrevCounts(counts.slice());
     setCounts((c) => c.map((v, i) => v + add[i]));
@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Player, PlayerRef } from "@remotion/player";
+import {
+  DenoiserTrainingComposition,
+  DenoiserTrainingProps,
+  getDenoiserConfig,
+  getDenoiserTrainingData,
+  getDenoiserTrainingDuration,
+  getTrainingRun,
+} from "../remotion/DenoiserTraining/Composition";
+import type { TrainerRequest, TrainerResponse } from "../denoiserTrainer.worker";
+import type { TrainingHistory } from "../tinyDenoiser";
+import SketchPad from "./SketchPad";
+import { DATASETS_2D, DIST2D_IDS } from "../seededMath";
+
+type Dist2D = DenoiserTrainingProps["dist2d"];
+type Status = "idle" | "training" | "done" | "stopped" | "error";
+
+const Element_DenoiserTraining: React.FC = () => {
+  const playerRef = useRef<PlayerRef>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const [dist2d, setDist2d] = useState<Dist2D>("ring");
+  const [custom2D, setCustom2D] = useState<{ xs: number[]; ys: number[] } | null>(null);
+  const [iterations, setIterations] = useState<number>(2000);
+  const [hidden, setHidden] = useState<number>(64);
+  const [layers, setLayers] = useState<number>(3);
+  const [history, setHistory] = useState<TrainingHistory | null>(null);
+  const [status, setStatus] = useState<Status>("idle");
+  const [error, setError] = useState<string>("");
+
+  // pacing
+  const fps = 60;
+  const snapshotEvery = 250;
+  const framesPerSnapshot = 90;
+  const tailHoldFrames = 150;
+
+  const inputProps: DenoiserTrainingProps = useMemo(
+    () => ({
+      dist2d,
+      custom2D,
+      iterations,
+      snapshotEvery,
+      hidden,
+      layers,
+      history,
+      framesPerSnapshot,
+      tailHoldFrames,
+    }),
+    [dist2d, custom2D, iterations, hidden, layers, history]
+  );
+
+  const durationInFrames = getDenoiserTrainingDuration(inputProps);
+
+  // one worker for the lifetime of the element
+  useEffect(() => {
+    const w = new Worker(new URL("../denoiserTrainer.worker.ts", import.meta.url), { type: "module" });
+    w.onmessage = (e: MessageEvent<TrainerResponse>) => {
+      const msg = e.data;
+      if (msg.type === "error") {
+        setError(msg.message);
+        setStatus("error");
+        return;
+      }
+      setHistory(msg.history);
+      if (msg.done) setStatus((s) => (s === "training" ? "done" : s));
+    };
+    workerRef.current = w;
+    return () => {
+      w.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  const send = (req: TrainerRequest) => workerRef.current?.postMessage(req);
+
+  const startTraining = () => {
+    const data = getDenoiserTrainingData(inputProps);
+    setHistory(null);
+    setError("");
+    setStatus("training");
+    send({
+      type: "start",
+      data,
+      config: getDenoiserConfig(inputProps),
+      run: getTrainingRun(inputProps),
+    });
+    try {
+      playerRef.current?.seekTo?.(0);
+      playerRef.current?.play?.();
+    } catch {}
+  };
+
+  const stopTraining = () => {
+    send({ type: "stop" });
+    setStatus("stopped");
+  };
+
+  // settings changed → the recorded run no longer matches
+  useEffect(() => {
+    send({ type: "stop" });
+    setHistory(null);
+    setStatus("idle");
+  }, [dist2d, custom2D, iterations, hidden, layers]);
+
+  const chromeBg = "rgba(0,0,0,0.85)";
+  const chromeFg = "#fff";
+  const seek = "#ffd166";
+
+  const wrap: React.CSSProperties = {
+    width: "100%",
+    maxWidth: 900,
+    margin: "0 auto",
+    fontFamily:
+      '"Source Sans 3", system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial',
+  };
+  const row: React.CSSProperties = {
+    width: "100%",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+    padding: "8px 12px",
+    background: "inherit",
+    color: "inherit",
+    flexWrap: "wrap",
+  };
+  const sel: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "8px 28px 8px 10px",
+    borderRadius: 10,
+    fontSize: 14,
+    appearance: "none",
+    position: "relative",
+  };
+  const num: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "8px 10px",
+    borderRadius: 10,
+    fontSize: 14,
+    width: 80,
+    textAlign: "center" as const,
+  };
+  const btn: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "8px 14px",
+    borderRadius: 10,
+    fontSize: 14,
+    fontWeight: 700,
+    cursor: "pointer",
+  };
+
+  const statusText =
+    status === "training"
+      ? `training… ${history ? history.snapshots[history.snapshots.length - 1].iter : 0}/${iterations}`
+      : status === "done"
+      ? "done"
+      : status === "stopped"
+      ? "stopped"
+      : status === "error"
+      ? `error: ${error}`
+      : "not trained yet";
+
+  return (
+    <div style={wrap}>
+      {/* Video */}
+      <div style={{ position: "relative", width: "100%", aspectRatio: "16/9" }}>
+        <Player
+          ref={playerRef}
+          component={DenoiserTrainingComposition}
+          inputProps={inputProps}
+          durationInFrames={durationInFrames}
+          compositionWidth={1280}
+          compositionHeight={720}
+          fps={fps}
+          controls
+          clickToPlay
+          loop={false}
+          style={{
+            position: "absolute",
+            inset: 0,
+            width: "100%",
+            height: "100%",
+            objectFit: "contain",
+            backgroundColor: "transparent",
+            ["--remotion-player-controls-background" as any]: chromeBg,
+            ["--remotion-player-controls-color" as any]: chromeFg,
+            ["--remotion-player-seekbar-color" as any]: seek,
+            ["--remotion-player-controls-backdrop-filter" as any]: "none",
+          }}
+        />
+      </div>
+
+      {/* Controls */}
+      <div style={row}>
+        <label style={{ fontWeight: 700 }}>Data:</label>
+        <select value={dist2d} onChange={(e) => setDist2d(e.target.value as Dist2D)} style={sel}>
+          {DIST2D_IDS.map((d) => (
+            <option key={d} value={d}>
+              {DATASETS_2D[d].label}
+            </option>
+          ))}
+          <option value="sketch" disabled={!custom2D}>Sketch</option>
+        </select>
+
+        <label style={{ fontWeight: 700 }}>Iterations:</label>
+        <input
+          type="number"
+          min={250}
+          max={10000}
+          step={250}
+          value={iterations}
+          onChange={(e) => setIterations(Math.max(250, Math.min(10000, Math.round((Number(e.target.value) || 250) / 250) * 250)))}
+          style={num}
+        />
+
+        <label style={{ fontWeight: 700 }}>Hidden:</label>
+        <input
+          type="number"
+          min={8}
+          max={128}
+          value={hidden}
+          onChange={(e) => setHidden(Math.max(8, Math.min(128, Number(e.target.value) || 8)))}
+          style={num}
+        />
+
+        <label style={{ fontWeight: 700 }}>Layers:</label>
+        <select value={layers} onChange={(e) => setLayers(Number(e.target.value))} style={sel}>
+          <option value={2}>2</option>
+          <option value={3}>3</option>
+        </select>
+
+        {status === "training" ? (
+          <button type="button" onClick={stopTraining} style={btn}>Stop</button>
+        ) : (
+          <button type="button" onClick={startTraining} style={btn}>Train</button>
+        )}
+        <span style={{ fontSize: 14, opacity: 0.85 }}>{statusText}</span>
+      </div>
+
+      <div style={row}>
+        <SketchPad
+          mode="2d"
+          width={360}
+          height={200}
+          onUse={({ xs2d, ys2d }) => {
+            if (!xs2d || !ys2d) return;
+            setCustom2D({ xs: Array.from(xs2d), ys: Array.from(ys2d) });
+            setDist2d("sketch");
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Element_DenoiserTraining;
@@ -4,14 +4,34 @@ import {
   DDPMForwardComposition,
   DDPM2DProps,
   NoiseStepParams,
+  covarianceFromRotation,
+  exportDDPMForwardDistanceCsv,
+  exportNoiseHistoryCsv,
+  getDDPMForwardDuration,
 } from "../remotion/DiffusionForward/Composition";
+import { DATASETS_2D, DIST2D_IDS, makeRng, randInt, uniform } from "../seededMath";
+import { trailIndices } from "../remotion/ParticleTrails";
+import { downloadText } from "./download";
+import NoiseHistoryLibrary, { NamedNoiseHistory } from "./NoiseHistoryLibrary";
+import ImageSourcePicker from "./ImageSourcePicker";
+import { useImageDensityPoints } from "./useImageDensityPoints";
 
 type Dist2D = DDPM2DProps["dist2d"];
+type Dim = NonNullable<DDPM2DProps["dim"]>;
+type Dist1D = NonNullable<DDPM2DProps["dist1d"]>;
+type View1D = NonNullable<DDPM2DProps["view1d"]>;
 type NoiseDisplay = DDPM2DProps["noiseDisplay"];
+type Quiver = NonNullable<DDPM2DProps["quiver"]>;
+type QuiverNorm = NonNullable<DDPM2DProps["quiverNorm"]>;
+
+type NoiseShape = "rho" | "angle";
 
 type Pt = { x: number; y: number }; // normalized [0..1]
 
 const DEFAULTS = {
+  dim: "2d" as Dim,
+  dist1d: "spiky" as Dist1D,
+  view1d: "ridge" as View1D,
   dist2d: "spiral" as Dist2D,
   visibleCount: 400,
   steps: 120,
@@ -19,17 +39,29 @@ const DEFAULTS = {
   gaussMeanY: 0,
   gaussVarX: 1,
   gaussVarY: 1,
+  // noise-step shape: correlation ρ, or the σ² pair as principal axes rotated by θ
+  noiseShape: "rho" as NoiseShape,
+  gaussRho: 0,
+  gaussAngle: 0,
   // default to values (your request)
   noiseDisplay: "values" as NoiseDisplay,
   showNoiseOverlay: true,
+  quiver: "off" as Quiver,
+  quiverDensity: 17,
+  quiverNorm: "log" as QuiverNorm,
 };
 
 const Element_DiffusionDDPM: React.FC = () => {
   const playerRef = useRef<PlayerRef>(null);
 
-  // 2D only
+  const [dim, setDim] = useState<Dim>(DEFAULTS.dim);
   const [dist2d, setDist2d] = useState<Dist2D>(DEFAULTS.dist2d);
 
+  // 1D only
+  const [dist1d, setDist1d] = useState<Dist1D>(DEFAULTS.dist1d);
+  const [view1d, setView1d] = useState<View1D>(DEFAULTS.view1d);
+  const [custom1D, setCustom1D] = useState<Float32Array | null>(null);
+
   // data points
   const [visibleCount, setVisibleCount] = useState<number>(DEFAULTS.visibleCount);
 
@@ -41,6 +73,9 @@ const Element_DiffusionDDPM: React.FC = () => {
   const [gaussMeanY, setGaussMeanY] = useState<number>(DEFAULTS.gaussMeanY);
   const [gaussVarX, setGaussVarX] = useState<number>(DEFAULTS.gaussVarX);
   const [gaussVarY, setGaussVarY] = useState<number>(DEFAULTS.gaussVarY);
+  const [noiseShape, setNoiseShape] = useState<NoiseShape>(DEFAULTS.noiseShape);
+  const [gaussRho, setGaussRho] = useState<number>(DEFAULTS.gaussRho);
+  const [gaussAngle, setGaussAngle] = useState<number>(DEFAULTS.gaussAngle); // degrees
 
   // cumulative noise MODE
   const [noiseMode, setNoiseMode] = useState<boolean>(false);
@@ -48,12 +83,31 @@ const Element_DiffusionDDPM: React.FC = () => {
   // HISTORY of noise steps (each stores the params at the time of click)
   const [noiseHistory, setNoiseHistory] = useState<NoiseStepParams[]>([]);
 
+  // play the history back step by step (tweened) instead of showing its end state
+  const [noiseReplay, setNoiseReplay] = useState<boolean>(false);
+
   // show noise overlay or not
   const [showNoiseOverlay, setShowNoiseOverlay] = useState<boolean>(DEFAULTS.showNoiseOverlay);
 
   // how to render noise overlay
   const [noiseDisplay, setNoiseDisplay] = useState<NoiseDisplay>(DEFAULTS.noiseDisplay);
 
+  // score / ε field overlay
+  const [quiver, setQuiver] = useState<Quiver>(DEFAULTS.quiver);
+  const [quiverDensity, setQuiverDensity] = useState<number>(DEFAULTS.quiverDensity);
+  const [quiverNorm, setQuiverNorm] = useState<QuiverNorm>(DEFAULTS.quiverNorm);
+
+  // trails + pinned particles (indices into the data set)
+  const [trailCount, setTrailCount] = useState<number>(0);
+  const [pinnedIndices, setPinnedIndices] = useState<number[]>([]);
+  const [pinDraft, setPinDraft] = useState<number>(0);
+  const togglePin = (i: number) =>
+    setPinnedIndices((prev) => (prev.includes(i) ? prev.filter((p) => p !== i) : [...prev, i]));
+
+  // distance-to-noise / distance-to-data strip (autoplay only)
+  const [metricsStrip, setMetricsStrip] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string>("");
+
   // sketch
   const [showSketch, setShowSketch] = useState<boolean>(false);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -63,20 +117,27 @@ const Element_DiffusionDDPM: React.FC = () => {
   const [custom2D, setCustom2D] =
     useState<{ xs: Float32Array; ys: Float32Array } | null>(null);
 
+  // image density dataset
+  const imageData = useImageDensityPoints(dim === "2d" && dist2d === "image", visibleCount);
+  const scene2D = dist2d === "image" ? imageData.points : custom2D;
+
   // pacing
   const fps = 60;
   const framesPerStep = 6;
   const tailHoldFrames = 150;
-  const durationInFrames = Math.max(1, steps * framesPerStep + tailHoldFrames);
 
   const noiseSteps = noiseHistory.length;
 
   const inputProps: DDPM2DProps = useMemo(
     () => ({
+      dim,
+      dist1d,
+      view1d,
+      custom1D,
       dist2d,
       n: visibleCount,
       steps,
-      custom2D,
+      custom2D: scene2D,
       framesPerStep,
       tailHoldFrames,
       visibleCount,
@@ -89,12 +150,23 @@ const Element_DiffusionDDPM: React.FC = () => {
       gaussVarY,
       noiseDisplay,
       showNoiseOverlay,
+      quiver,
+      quiverDensity,
+      quiverNorm,
+      trailCount,
+      pinnedIndices,
+      metricsStrip,
+      noiseReplay,
     }),
     [
+      dim,
+      dist1d,
+      view1d,
+      custom1D,
       dist2d,
       visibleCount,
       steps,
-      custom2D,
+      scene2D,
       framesPerStep,
       tailHoldFrames,
       noiseMode,
@@ -106,9 +178,31 @@ const Element_DiffusionDDPM: React.FC = () => {
       gaussVarY,
       noiseDisplay,
       showNoiseOverlay,
+      quiver,
+      quiverDensity,
+      quiverNorm,
+      trailCount,
+      pinnedIndices,
+      metricsStrip,
+      noiseReplay,
     ]
   );
 
+  const durationInFrames = getDDPMForwardDuration(inputProps);
+
+  const exportDistances = () => {
+    setExportError("");
+    try {
+      downloadText(exportDDPMForwardDistanceCsv(inputProps), `forward-distances-T${steps}.csv`);
+    } catch (err: unknown) {
+      setExportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // particles in the scene (sketch data keeps its own count)
+  const particleCount = (dist2d === "sketch" || dist2d === "image") && scene2D ? scene2D.xs.length : visibleCount;
+  const tracked = trailCount <= 30 ? trailIndices(particleCount, trailCount) : [];
+
   // player chrome
   const chromeBg = "rgba(0,0,0,0.85)";
   const chromeFg = "#fff";
@@ -232,13 +326,14 @@ const Element_DiffusionDDPM: React.FC = () => {
 
   const useSketch = () => {
     if (pts.length === 0) return;
+    const rng = makeRng(0x5eed + pts.length);
     const xs = new Float32Array(visibleCount);
     const ys = new Float32Array(visibleCount);
     for (let i = 0; i < visibleCount; i++) {
-      const k = Math.floor(Math.random() * pts.length);
+      const k = randInt(rng, 0, pts.length);
       const p = pts[k];
-      const jx = (Math.random() - 0.5) * 0.02;
-      const jy = (Math.random() - 0.5) * 0.02;
+      const jx = uniform(rng, -0.01, 0.01);
+      const jy = uniform(rng, -0.01, 0.01);
       const nx = Math.min(1, Math.max(0, p.x + jx));
       const ny = Math.min(1, Math.max(0, p.y + jy));
       const vx = -4.5 + nx * 9.0;
@@ -246,8 +341,13 @@ const Element_DiffusionDDPM: React.FC = () => {
       xs[i] = vx;
       ys[i] = vy;
     }
-    setCustom2D({ xs, ys });
-    if (dist2d !== "sketch") setDist2d("sketch");
+    if (dim === "1d") {
+      setCustom1D(xs);
+      setDist1d("sketch");
+    } else {
+      setCustom2D({ xs, ys });
+      if (dist2d !== "sketch") setDist2d("sketch");
+    }
     try {
       playerRef.current?.seekTo?.(0);
       playerRef.current?.play?.();
@@ -257,6 +357,7 @@ const Element_DiffusionDDPM: React.FC = () => {
   // actions
   const doAutoplay = () => {
     setNoiseMode(false);
+    setNoiseReplay(false);
     setNoiseHistory([]);
     try {
       playerRef.current?.seekTo?.(0);
@@ -267,14 +368,12 @@ const Element_DiffusionDDPM: React.FC = () => {
   const doOneStepNoise = () => {
     // enter noise mode and append the current control params as ONE step
     setNoiseMode(true);
+    setNoiseReplay(false);
     setNoiseHistory((prev) => [
       ...prev,
-      {
-        gaussMeanX,
-        gaussMeanY,
-        gaussVarX,
-        gaussVarY,
-      },
+      noiseShape === "angle"
+        ? { gaussMeanX, gaussMeanY, ...covarianceFromRotation(gaussVarX, gaussVarY, (gaussAngle * Math.PI) / 180) }
+        : { gaussMeanX, gaussMeanY, gaussVarX, gaussVarY, gaussRho },
     ]);
     try {
       playerRef.current?.pause?.();
@@ -284,6 +383,7 @@ const Element_DiffusionDDPM: React.FC = () => {
 
   const doRemoveNoiseStep = () => {
     setNoiseMode(true);
+    setNoiseReplay(false);
     setNoiseHistory((prev) => {
       if (prev.length === 0) return prev;
       return prev.slice(0, prev.length - 1);
@@ -294,7 +394,34 @@ const Element_DiffusionDDPM: React.FC = () => {
     } catch {}
   };
 
+  const doLoadHistory = ({ steps: loaded }: NamedNoiseHistory) => {
+    setNoiseMode(true);
+    setNoiseReplay(false);
+    setNoiseHistory(loaded);
+    try {
+      playerRef.current?.pause?.();
+      playerRef.current?.seekTo?.(0);
+    } catch {}
+  };
+
+  const doReplay = () => {
+    setNoiseMode(true);
+    setNoiseReplay(true);
+    try {
+      playerRef.current?.seekTo?.(0);
+      playerRef.current?.play?.();
+    } catch {}
+  };
+
+  const doExportPositions = () => {
+    downloadText(exportNoiseHistoryCsv(inputProps), `noise-history-positions-${noiseHistory.length}-steps.csv`);
+  };
+
   const doReset = () => {
+    setDim(DEFAULTS.dim);
+    setDist1d(DEFAULTS.dist1d);
+    setView1d(DEFAULTS.view1d);
+    setCustom1D(null);
     setDist2d(DEFAULTS.dist2d);
     setVisibleCount(DEFAULTS.visibleCount);
     setSteps(DEFAULTS.steps);
@@ -302,10 +429,19 @@ const Element_DiffusionDDPM: React.FC = () => {
     setGaussMeanY(DEFAULTS.gaussMeanY);
     setGaussVarX(DEFAULTS.gaussVarX);
     setGaussVarY(DEFAULTS.gaussVarY);
+    setNoiseShape(DEFAULTS.noiseShape);
+    setGaussRho(DEFAULTS.gaussRho);
+    setGaussAngle(DEFAULTS.gaussAngle);
     setNoiseMode(false);
+    setNoiseReplay(false);
     setNoiseHistory([]);
     setNoiseDisplay(DEFAULTS.noiseDisplay);
     setShowNoiseOverlay(DEFAULTS.showNoiseOverlay);
+    setQuiver(DEFAULTS.quiver);
+    setQuiverDensity(DEFAULTS.quiverDensity);
+    setQuiverNorm(DEFAULTS.quiverNorm);
+    setTrailCount(0);
+    setPinnedIndices([]);
     setCustom2D(null);
     setShowSketch(false);
     try {
@@ -346,13 +482,50 @@ const Element_DiffusionDDPM: React.FC = () => {
 
       {/* Top controls */}
       <div style={row}>
-        <label style={{ fontWeight: 800 }}>2D Dist</label>
-        <select value={dist2d} onChange={(e) => setDist2d(e.target.value as Dist2D)} style={sel}>
-          <option value="spiral">Spiral</option>
-          <option value="ring">Ring</option>
-          <option value="sketch">Sketch</option>
+        <label style={{ fontWeight: 800 }}>Dim</label>
+        <select
+          value={dim}
+          onChange={(e) => {
+            setDim(e.target.value as Dim);
+            setNoiseMode(false);
+            setNoiseHistory([]);
+          }}
+          style={sel}
+        >
+          <option value="1d">1D</option>
+          <option value="2d">2D</option>
         </select>
 
+        {dim === "1d" ? (
+          <>
+            <label style={{ fontWeight: 800 }}>1D Dist</label>
+            <select value={dist1d} onChange={(e) => setDist1d(e.target.value as Dist1D)} style={sel}>
+              <option value="spiky">Spiky (Gaussian mixture)</option>
+              <option value="uniform">Uniform</option>
+              <option value="sketch" disabled={!custom1D}>Sketch</option>
+            </select>
+
+            <label style={{ fontWeight: 800 }}>View</label>
+            <select value={view1d} onChange={(e) => setView1d(e.target.value as View1D)} style={sel}>
+              <option value="ridge">Ridge plot</option>
+              <option value="heatmap">Heatmap</option>
+            </select>
+          </>
+        ) : (
+          <>
+            <label style={{ fontWeight: 800 }}>2D Dist</label>
+            <select value={dist2d} onChange={(e) => setDist2d(e.target.value as Dist2D)} style={sel}>
+              {DIST2D_IDS.map((d) => (
+                <option key={d} value={d}>
+                  {DATASETS_2D[d].label}
+                </option>
+              ))}
+              <option value="sketch">Sketch</option>
+              <option value="image">Image density</option>
+            </select>
+          </>
+        )}
+
         <label style={{ fontWeight: 800 }}>Steps</label>
         <input
           type="number"
@@ -378,6 +551,103 @@ const Element_DiffusionDDPM: React.FC = () => {
         />
       </div>
 
+      {dim === "2d" && dist2d === "image" && (
+        <div style={row}>
+          <ImageSourcePicker value={imageData.imageUrl} onChange={imageData.setImageUrl} />
+          {imageData.error && <span style={{ fontSize: 13, color: "#ff6b6b" }}>{imageData.error}</span>}
+        </div>
+      )}
+
+      {dim === "2d" && (
+        <>
+          {/* Score / ε field (autoplay only) */}
+          <div style={row}>
+            <label style={{ fontWeight: 800 }}>Field</label>
+            <select value={quiver} onChange={(e) => setQuiver(e.target.value as Quiver)} style={sel}>
+              <option value="off">Off</option>
+              <option value="score">Score ∇log p_t</option>
+              <option value="eps">Predicted ε</option>
+            </select>
+
+            {quiver !== "off" && (
+              <>
+                <label style={{ fontWeight: 800 }}>Arrows/side</label>
+                <input
+                  type="number"
+                  min={4}
+                  max={48}
+                  value={quiverDensity}
+                  onChange={(e) => setQuiverDensity(Math.max(4, Math.min(48, Number(e.target.value) || 4)))}
+                  style={numSm}
+                />
+
+                <label style={{ fontWeight: 800 }}>Length</label>
+                <select value={quiverNorm} onChange={(e) => setQuiverNorm(e.target.value as QuiverNorm)} style={sel}>
+                  <option value="log">Log magnitude</option>
+                  <option value="max">Relative to max</option>
+                  <option value="unit">Direction only</option>
+                </select>
+              </>
+            )}
+          </div>
+
+          {/* Trails + pinned particles */}
+          <div style={row}>
+            <label style={{ fontWeight: 800 }}>Trails</label>
+            <input
+              type="number"
+              min={0}
+              max={200}
+              value={trailCount}
+              onChange={(e) => setTrailCount(Math.max(0, Math.min(200, Number(e.target.value) || 0)))}
+              style={numSm}
+              title="Number of evenly spaced particles that leave a fading path"
+            />
+
+            <label style={{ fontWeight: 800 }}>Pin #</label>
+            <input
+              type="number"
+              min={0}
+              max={particleCount - 1}
+              value={pinDraft}
+              onChange={(e) => setPinDraft(Math.max(0, Math.min(particleCount - 1, Math.floor(Number(e.target.value) || 0))))}
+              style={numSm}
+            />
+            <button type="button" onClick={() => togglePin(pinDraft)} style={smallBtn}>
+              {pinnedIndices.includes(pinDraft) ? "Unpin" : "Pin"}
+            </button>
+
+            {tracked.length > 0 && (
+              <div style={{ display: "flex", flexWrap: "wrap", gap: 6, alignItems: "center" }}>
+                {tracked.map((i) => (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => togglePin(i)}
+                    style={{ ...smallBtn, opacity: pinnedIndices.includes(i) ? 1 : 0.6, fontWeight: pinnedIndices.includes(i) ? 800 : 400 }}
+                    title={pinnedIndices.includes(i) ? "Click to unpin" : "Click to pin and follow this particle"}
+                  >
+                    #{i}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Distances to N(0, I) and to the data per step (autoplay only) */}
+          <div style={row}>
+            <label style={{ fontWeight: 800, display: "flex", alignItems: "center", gap: 6 }}>
+              <input type="checkbox" checked={metricsStrip} onChange={(e) => setMetricsStrip(e.target.checked)} />
+              Distance strip (MMD / sliced W₂ / energy)
+            </label>
+            <button type="button" onClick={exportDistances} style={smallBtn}>
+              Export CSV
+            </button>
+            {exportError && <span style={{ fontSize: 13, color: "#ff6b6b" }}>Export failed: {exportError}</span>}
+          </div>
+        </>
+      )}
+
       {/* Noise + view controls */}
       <div style={row}>
         <label style={{ fontWeight: 800 }}>Noise μx</label>
@@ -388,14 +658,18 @@ const Element_DiffusionDDPM: React.FC = () => {
           style={numSm}
           step="0.1"
         />
-        <label style={{ fontWeight: 800 }}>Noise μy</label>
-        <input
-          type="number"
-          value={gaussMeanY}
-          onChange={(e) => setGaussMeanY(Number(e.target.value) || 0)}
-          style={numSm}
-          step="0.1"
-        />
+        {dim === "2d" && (
+          <>
+            <label style={{ fontWeight: 800 }}>Noise μy</label>
+            <input
+              type="number"
+              value={gaussMeanY}
+              onChange={(e) => setGaussMeanY(Number(e.target.value) || 0)}
+              style={numSm}
+              step="0.1"
+            />
+          </>
+        )}
         <label style={{ fontWeight: 800 }}>Noise σ²x</label>
         <input
           type="number"
@@ -405,52 +679,107 @@ const Element_DiffusionDDPM: React.FC = () => {
           style={numSm}
           step="0.1"
         />
-        <label style={{ fontWeight: 800 }}>Noise σ²y</label>
-        <input
-          type="number"
-          min={0.0001}
-          value={gaussVarY}
-          onChange={(e) => setGaussVarY(Math.max(0.0001, Number(e.target.value) || 0.0001))}
-          style={numSm}
-          step="0.1"
-        />
+        {dim === "2d" && (
+          <>
+            <label style={{ fontWeight: 800 }}>Noise σ²y</label>
+            <input
+              type="number"
+              min={0.0001}
+              value={gaussVarY}
+              onChange={(e) => setGaussVarY(Math.max(0.0001, Number(e.target.value) || 0.0001))}
+              style={numSm}
+              step="0.1"
+            />
+
+            <label style={{ fontWeight: 800 }}>Shape</label>
+            <select
+              value={noiseShape}
+              onChange={(e) => setNoiseShape(e.target.value as NoiseShape)}
+              style={sel}
+              title="Correlation of the step's x / y noise, or σ²x, σ²y as principal variances rotated by θ"
+            >
+              <option value="rho">Correlation ρ</option>
+              <option value="angle">Rotation θ</option>
+            </select>
+            {noiseShape === "rho" ? (
+              <input
+                type="number"
+                min={-0.95}
+                max={0.95}
+                step="0.05"
+                value={gaussRho}
+                onChange={(e) => setGaussRho(Math.max(-0.95, Math.min(0.95, Number(e.target.value) || 0)))}
+                style={numSm}
+              />
+            ) : (
+              <input
+                type="number"
+                min={-90}
+                max={90}
+                step="5"
+                value={gaussAngle}
+                onChange={(e) => setGaussAngle(Math.max(-90, Math.min(90, Number(e.target.value) || 0)))}
+                style={numSm}
+                title="θ in degrees"
+              />
+            )}
 
-        <button type="button" onClick={doOneStepNoise} style={btn}>
-          Noise step (1x)
-        </button>
+            <button type="button" onClick={doOneStepNoise} style={btn}>
+              Noise step (1x)
+            </button>
 
-        <button type="button" onClick={doRemoveNoiseStep} style={btn}>
-          Remove noise step
-        </button>
+            <button type="button" onClick={doRemoveNoiseStep} style={btn}>
+              Remove noise step
+            </button>
+          </>
+        )}
 
         <button type="button" onClick={doAutoplay} style={btn}>
           Autoplay forward
         </button>
 
-        <label style={{ fontWeight: 800 }}>Noise view</label>
-        <select
-          value={noiseDisplay}
-          onChange={(e) => setNoiseDisplay(e.target.value as NoiseDisplay)}
-          style={sel}
-        >
-          <option value="dots">Dots (canvas)</option>
-          <option value="values">Values (bottom)</option>
-        </select>
-
-        <label style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}>
-          <input
-            type="checkbox"
-            checked={showNoiseOverlay}
-            onChange={(e) => setShowNoiseOverlay(e.target.checked)}
-          />
-          Show noise
-        </label>
+        {dim === "2d" && (
+          <>
+            <label style={{ fontWeight: 800 }}>Noise view</label>
+            <select
+              value={noiseDisplay}
+              onChange={(e) => setNoiseDisplay(e.target.value as NoiseDisplay)}
+              style={sel}
+            >
+              <option value="dots">Dots (canvas)</option>
+              <option value="values">Values (bottom)</option>
+            </select>
+
+            <label style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={showNoiseOverlay}
+                onChange={(e) => setShowNoiseOverlay(e.target.checked)}
+              />
+              Show noise
+            </label>
+          </>
+        )}
 
         <button type="button" onClick={doReset} style={btn}>
           Reset
         </button>
       </div>
 
+      {/* Noise history: save / load / replay / export */}
+      {dim === "2d" && (
+        <div style={row}>
+          <label style={{ fontWeight: 800 }}>History ({noiseHistory.length})</label>
+          <NoiseHistoryLibrary history={noiseHistory} onLoad={doLoadHistory} />
+          <button type="button" onClick={doReplay} style={smallBtn} disabled={noiseHistory.length === 0}>
+            Replay
+          </button>
+          <button type="button" onClick={doExportPositions} style={smallBtn} disabled={noiseHistory.length === 0}>
+            Export positions CSV
+          </button>
+        </div>
+      )}
+
       {/* Sketch row */}
       <div style={{ ...row, gap: 10 }}>
         <button
@@ -492,7 +821,7 @@ const Element_DiffusionDDPM: React.FC = () => {
             </div>
 
             <div style={{ fontSize: 14, opacity: 0.9 }}>
-              <div>Draw by dragging. 2D uses (x,y).</div>
+              <div>Draw by dragging. 2D uses (x,y); 1D uses x.</div>
               <div>
                 Click <b>Use Sketch</b> to apply &amp; play.
               </div>
@@ -3,32 +3,63 @@ import { Player, PlayerRef } from "@remotion/player";
 import {
   ImageForwardComposition,
   ImageForwardProps,
+  exportImageForwardQualityCsv,
+  getImageForwardDuration,
 } from "../remotion/DiffusionForwardImage/Composition";
+import { downloadText } from "./download";
+import ImageSourcePicker, { BUNDLED_IMAGES } from "./ImageSourcePicker";
+
+type SidePanel = NonNullable<ImageForwardProps["sidePanel"]>;
+type EpsError = NonNullable<ImageForwardProps["epsError"]>;
 
 const Element_ImageForwardDiffusion: React.FC = () => {
   const playerRef = useRef<PlayerRef>(null);
 
-  const [imageUrl, setImageUrl] = useState<string>("");
+  const [imageUrl, setImageUrl] = useState<string>(BUNDLED_IMAGES[0].src);
   const [steps, setSteps] = useState<number>(140);
+  const [sidePanel, setSidePanel] = useState<SidePanel>("histogram");
+  const [qualityStrip, setQualityStrip] = useState<boolean>(true);
+  const [oraclePanel, setOraclePanel] = useState<boolean>(true);
+  const [epsError, setEpsError] = useState<EpsError>("gaussian");
+  const [epsErrorStd, setEpsErrorStd] = useState<number>(0.1);
+  const [epsErrorBlur, setEpsErrorBlur] = useState<number>(8);
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string>("");
 
   // pacing
   const fps = 60;
   const framesPerStep = 6;
   const tailHoldFrames = 120;
-  const durationInFrames = steps * framesPerStep + tailHoldFrames;
 
   const props: ImageForwardProps = useMemo(
     () => ({
-      imageUrl: imageUrl.trim() || undefined,
+      imageUrl,
       steps,
       framesPerStep,
       tailHoldFrames,
       mode: "dark",
       internalSize: 512,
+      sidePanel,
+      qualityStrip,
+      oraclePanel,
+      epsError,
+      epsErrorStd,
+      epsErrorBlur,
     }),
-    [imageUrl, steps]
+    [imageUrl, steps, sidePanel, qualityStrip, oraclePanel, epsError, epsErrorStd, epsErrorBlur]
   );
 
+  const durationInFrames = getImageForwardDuration(props);
+
+  const exportQuality = () => {
+    setExporting(true);
+    setExportError("");
+    exportImageForwardQualityCsv(props)
+      .then((csv) => downloadText(csv, `quality-T${steps}.csv`))
+      .catch((err: unknown) => setExportError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setExporting(false));
+  };
+
   // player chrome
   const chromeBg = "rgba(0,0,0,0.85)";
   const chromeFg = "#fff";
@@ -62,15 +93,22 @@ const Element_ImageForwardDiffusion: React.FC = () => {
     width: 84,
     textAlign: "center" as const,
   };
-  const urlInput: React.CSSProperties = {
+  const select: React.CSSProperties = {
     border: "1px solid currentColor",
     background: "transparent",
     color: "inherit",
-    padding: "8px 10px",
+    padding: "7px 10px",
+    borderRadius: 10,
+    fontSize: 15,
+  };
+  const btn: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "7px 12px",
     borderRadius: 10,
     fontSize: 15,
-    minWidth: 280,
-    flex: "1 1 280px",
+    cursor: "pointer",
   };
 
   return (
@@ -117,14 +155,86 @@ const Element_ImageForwardDiffusion: React.FC = () => {
           style={numSm}
         />
 
-        <label style={{ fontWeight: 800 }}>Image URL</label>
+        <label style={{ fontWeight: 800 }}>Panel</label>
+        <select
+          value={sidePanel}
+          onChange={(e) => setSidePanel(e.target.value as SidePanel)}
+          style={select}
+        >
+          <option value="none">none</option>
+          <option value="histogram">pixel histogram</option>
+          <option value="spectrum">power spectrum</option>
+        </select>
+
+        <label style={{ fontWeight: 800, display: "flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={qualityStrip}
+            onChange={(e) => setQualityStrip(e.target.checked)}
+          />
+          PSNR / SSIM
+        </label>
+        <button type="button" style={btn} onClick={exportQuality} disabled={exporting}>
+          {exporting ? "Exporting…" : "Export CSV"}
+        </button>
+        {exportError && (
+          <span style={{ fontSize: 14, color: "#ff6b6b" }}>Export failed: {exportError}</span>
+        )}
+
+      </div>
+
+      <div style={row}>
+        <label style={{ fontWeight: 800, display: "flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={oraclePanel}
+            onChange={(e) => setOraclePanel(e.target.checked)}
+          />
+          Oracle x̂₀
+        </label>
+
+        <label style={{ fontWeight: 800 }}>ε̂</label>
+        <select
+          value={epsError}
+          onChange={(e) => setEpsError(e.target.value as EpsError)}
+          style={select}
+        >
+          <option value="perfect">perfect (ε̂ = ε)</option>
+          <option value="gaussian">ε + Gaussian error</option>
+          <option value="lowfreq">ε + low-frequency error</option>
+        </select>
+
+        <label style={{ fontWeight: 800 }}>Error std</label>
+        <input
+          type="number"
+          min={0}
+          max={2}
+          step={0.01}
+          value={epsErrorStd}
+          disabled={epsError === "perfect"}
+          onChange={(e) =>
+            setEpsErrorStd(Math.max(0, Math.min(2, Number(e.target.value) || 0)))
+          }
+          style={numSm}
+        />
+
+        <label style={{ fontWeight: 800 }}>Blur px</label>
         <input
-          placeholder="(optional) https://…"
-          value={imageUrl}
-          onChange={(e) => setImageUrl(e.target.value)}
-          style={urlInput}
+          type="number"
+          min={1}
+          max={64}
+          value={epsErrorBlur}
+          disabled={epsError !== "lowfreq"}
+          onChange={(e) =>
+            setEpsErrorBlur(Math.max(1, Math.min(64, Math.round(Number(e.target.value) || 1))))
+          }
+          style={numSm}
         />
       </div>
+
+      <div style={row}>
+        <ImageSourcePicker value={imageUrl} onChange={setImageUrl} />
+      </div>
     </div>
   );
 };
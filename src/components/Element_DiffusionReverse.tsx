@@ -3,11 +3,21 @@ import { Player, PlayerRef } from "@remotion/player";
 import {
   DDPMReverseComposition,
   DDPMReverseProps,
+  exportDDPMReverseDistanceCsv,
+  getDDPMReverseDuration,
 } from "../remotion/DiffusionReverse/Composition";
+import { trailIndices } from "../remotion/ParticleTrails";
+import { DATASETS_2D, DIST2D_IDS } from "../seededMath";
+import { downloadText } from "./download";
+import ImageSourcePicker from "./ImageSourcePicker";
+import { useImageDensityPoints } from "./useImageDensityPoints";
 
 type Dim = DDPMReverseProps["dim"];
 type Dist1D = DDPMReverseProps["dist1d"];
 type Dist2D = DDPMReverseProps["dist2d"];
+type Sampler = NonNullable<DDPMReverseProps["sampler"]>;
+type Quiver = NonNullable<DDPMReverseProps["quiver"]>;
+type QuiverNorm = NonNullable<DDPMReverseProps["quiverNorm"]>;
 
 const Element_DiffusionDDPM_Reverse: React.FC = () => {
   const playerRef = useRef<PlayerRef>(null);
@@ -19,12 +29,31 @@ const Element_DiffusionDDPM_Reverse: React.FC = () => {
   const [n, setN] = useState<number>(900);
   const [showTarget, setShowTarget] = useState<boolean>(true);
   const [showStartNoise, setShowStartNoise] = useState<boolean>(true);
+  const [sampler, setSampler] = useState<Sampler>("ancestral");
+  const [samplingSteps, setSamplingSteps] = useState<number>(120);
+  const [eta, setEta] = useState<number>(0);
+  const [quiver, setQuiver] = useState<Quiver>("off");
+  const [quiverDensity, setQuiverDensity] = useState<number>(17);
+  const [quiverNorm, setQuiverNorm] = useState<QuiverNorm>("log");
+
+  // image density dataset
+  const imageData = useImageDensityPoints(dim === "2d" && dist2d === "image", n);
+
+  // trails + pinned particles (indices into the data set)
+  const [trailCount, setTrailCount] = useState<number>(0);
+  const [pinnedIndices, setPinnedIndices] = useState<number[]>([]);
+  const [pinDraft, setPinDraft] = useState<number>(0);
+  const togglePin = (i: number) =>
+    setPinnedIndices((prev) => (prev.includes(i) ? prev.filter((p) => p !== i) : [...prev, i]));
+
+  // distance-to-noise / distance-to-data strip
+  const [metricsStrip, setMetricsStrip] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string>("");
 
   // pacing + end gap
   const fps = 60;
   const framesPerStep = 6;      // keep the nice tempo you liked
   const tailHoldFrames = 150;   // ~2.5s hold at the end
-  const durationInFrames = Math.max(1, steps * framesPerStep + tailHoldFrames);
 
   const wrap: React.CSSProperties = {
     width: "100%",
@@ -71,16 +100,50 @@ const Element_DiffusionDDPM_Reverse: React.FC = () => {
       dim,
       dist1d,
       dist2d,
+      custom2D: dist2d === "image" ? imageData.points : null,
       steps,
       n,
       showTarget,
       showStartNoise,
+      sampler,
+      samplingSteps: Math.min(samplingSteps, steps),
+      eta,
+      quiver,
+      quiverDensity,
+      quiverNorm,
+      trailCount,
+      pinnedIndices,
+      metricsStrip,
       framesPerStep,
       tailHoldFrames,
     }),
-    [dim, dist1d, dist2d, steps, n, showTarget, showStartNoise]
+    [dim, dist1d, dist2d, imageData.points, steps, n, showTarget, showStartNoise, sampler, samplingSteps, eta,
+      quiver, quiverDensity, quiverNorm, trailCount, pinnedIndices, metricsStrip]
   );
 
+  const durationInFrames = getDDPMReverseDuration(props);
+
+  const exportDistances = () => {
+    setExportError("");
+    try {
+      downloadText(exportDDPMReverseDistanceCsv(props), `reverse-distances-${sampler}-T${steps}.csv`);
+    } catch (err: unknown) {
+      setExportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const particleCount = n;
+  const tracked = trailCount <= 30 ? trailIndices(particleCount, trailCount) : [];
+  const chip: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "6px 10px",
+    borderRadius: 10,
+    fontSize: 13,
+    cursor: "pointer",
+  };
+
   const chromeBg = "rgba(0,0,0,0.85)";
   const chromeFg = "#fff";
   const seek = "#ffd166";
@@ -141,13 +204,55 @@ const Element_DiffusionDDPM_Reverse: React.FC = () => {
           <>
             <label style={{ fontWeight: 700 }}>2D Dist:</label>
             <select value={dist2d} onChange={(e) => { setDist2d(e.target.value as any); restart(); }} style={sel}>
-              <option value="spiral">Spiral</option>
-              <option value="ring">Ring</option>
+              {DIST2D_IDS.map((d) => (
+                <option key={d} value={d}>
+                  {DATASETS_2D[d].label}
+                </option>
+              ))}
               {/* <option value="sketch">Sketch</option> */}
+              <option value="image">Image density</option>
             </select>
           </>
         )}
 
+        <label style={{ fontWeight: 700 }}>Sampler:</label>
+        <select value={sampler} onChange={(e) => { setSampler(e.target.value as Sampler); restart(); }} style={sel}>
+          <option value="ancestral">Ancestral DDPM</option>
+          <option value="ddim">DDIM</option>
+          <option value="euler">Euler ODE</option>
+          <option value="heun">Heun ODE</option>
+          <option value="replay">Replay (same ε)</option>
+        </select>
+
+        {sampler !== "replay" && (
+          <>
+            <label style={{ fontWeight: 700 }}>Sampling steps:</label>
+            <input
+              type="number"
+              min={1}
+              max={steps}
+              value={Math.min(samplingSteps, steps)}
+              onChange={(e) => { setSamplingSteps(Math.max(1, Math.min(steps, Number(e.target.value) || 1))); restart(); }}
+              style={num}
+            />
+          </>
+        )}
+
+        {sampler === "ddim" && (
+          <>
+            <label style={{ fontWeight: 700 }}>η:</label>
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.1}
+              value={eta}
+              onChange={(e) => { setEta(Math.max(0, Math.min(1, Number(e.target.value) || 0))); restart(); }}
+              style={num}
+            />
+          </>
+        )}
+
         <label style={{ fontWeight: 700 }}>Steps:</label>
         <input
           type="number"
@@ -178,6 +283,104 @@ const Element_DiffusionDDPM_Reverse: React.FC = () => {
           Start noise
         </label>
       </div>
+
+      {dim === "2d" && dist2d === "image" && (
+        <div style={row}>
+          <ImageSourcePicker value={imageData.imageUrl} onChange={imageData.setImageUrl} />
+          {imageData.error && <span style={{ fontSize: 13, color: "#ff6b6b" }}>{imageData.error}</span>}
+        </div>
+      )}
+
+      {dim === "2d" && (
+        <div style={row}>
+          <label style={{ fontWeight: 700 }}>Field:</label>
+          <select value={quiver} onChange={(e) => setQuiver(e.target.value as Quiver)} style={sel}>
+            <option value="off">Off</option>
+            <option value="score">Score ∇log p_t</option>
+            <option value="eps">Predicted ε</option>
+          </select>
+
+          {quiver !== "off" && (
+            <>
+              <label style={{ fontWeight: 700 }}>Arrows/side:</label>
+              <input
+                type="number"
+                min={4}
+                max={48}
+                value={quiverDensity}
+                onChange={(e) => setQuiverDensity(Math.max(4, Math.min(48, Number(e.target.value) || 4)))}
+                style={num}
+              />
+
+              <label style={{ fontWeight: 700 }}>Length:</label>
+              <select value={quiverNorm} onChange={(e) => setQuiverNorm(e.target.value as QuiverNorm)} style={sel}>
+                <option value="log">Log magnitude</option>
+                <option value="max">Relative to max</option>
+                <option value="unit">Direction only</option>
+              </select>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Trails + pinned particles (2D) */}
+      {dim === "2d" && (
+        <div style={row}>
+          <label style={{ fontWeight: 700 }}>Trails</label>
+          <input
+            type="number"
+            min={0}
+            max={200}
+            value={trailCount}
+            onChange={(e) => setTrailCount(Math.max(0, Math.min(200, Number(e.target.value) || 0)))}
+            style={num}
+            title="Number of evenly spaced particles that leave a fading path"
+          />
+
+          <label style={{ fontWeight: 700 }}>Pin #</label>
+          <input
+            type="number"
+            min={0}
+            max={particleCount - 1}
+            value={pinDraft}
+            onChange={(e) => setPinDraft(Math.max(0, Math.min(particleCount - 1, Math.floor(Number(e.target.value) || 0))))}
+            style={num}
+          />
+          <button type="button" onClick={() => togglePin(pinDraft)} style={chip}>
+            {pinnedIndices.includes(pinDraft) ? "Unpin" : "Pin"}
+          </button>
+
+          {tracked.length > 0 && (
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 6, alignItems: "center" }}>
+              {tracked.map((i) => (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => togglePin(i)}
+                  style={{ ...chip, opacity: pinnedIndices.includes(i) ? 1 : 0.6, fontWeight: pinnedIndices.includes(i) ? 800 : 400 }}
+                  title={pinnedIndices.includes(i) ? "Click to unpin" : "Click to pin and follow this particle"}
+                >
+                  #{i}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Distances to N(0, I) and to the data along the run (2D) */}
+      {dim === "2d" && (
+        <div style={row}>
+          <label style={{ display: "inline-flex", alignItems: "center", gap: 6, fontWeight: 700 }}>
+            <input type="checkbox" checked={metricsStrip} onChange={(e) => setMetricsStrip(e.target.checked)} style={chk} />
+            Distance strip (MMD / sliced W₂ / energy)
+          </label>
+          <button type="button" onClick={exportDistances} style={chip}>
+            Export CSV
+          </button>
+          {exportError && <span style={{ fontSize: 13, color: "#ff6b6b" }}>Export failed: {exportError}</span>}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,38 +1,153 @@
 import React, { useMemo, useRef, useState } from "react";
 import { Player, PlayerRef } from "@remotion/player";
 import {
+  ALL_SCHEDULERS,
+  BuiltinScheduler,
+  DEFAULT_SCHEDULER_PARAMS,
   ImageForwardComposition,
   ImageForwardProps,
-} from "../remotion/DiffusionForwardImage/Composition";
+  SCHEDULER_PARAM_SPECS,
+  SchedulerId,
+  SchedulerParams,
+  exportSchedulerGridPng,
+  exportSchedulerQualityCsv,
+  getImageForwardDuration,
+} from "../remotion/DiffusionSchedulers/Composition";
+import {
+  alphaBarAt,
+  alphaBarFromCustom,
+  betasFromAlphaBar,
+  CustomSchedule,
+} from "../seededMath";
+import ScheduleEditor from "./ScheduleEditor";
+import { downloadBlob, downloadText } from "./download";
+import ImageSourcePicker, { BUNDLED_IMAGES } from "./ImageSourcePicker";
+
+const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
+
+// Resample a length-T ᾱ curve into `count` evenly spaced control points of
+// the requested kind (clamped into the range scheduleProblem accepts).
+const toControlPoints = (
+  alphaBar: number[],
+  kind: CustomSchedule["kind"],
+  count: number
+): CustomSchedule => {
+  const curve = kind === "beta" ? betasFromAlphaBar(alphaBar) : alphaBar;
+  const last = curve.length - 1;
+  const values = Array.from({ length: count }, (_, j) => {
+    const v = alphaBarAt(curve, (j / (count - 1)) * last);
+    return kind === "beta" ? clamp(v, 1e-6, 0.999) : clamp(v, 1e-6, 1);
+  });
+  return { kind, values };
+};
+
+const POINT_COUNTS = [5, 9, 17, 33];
+
+type GraphView = NonNullable<ImageForwardProps["graphView"]>;
+type Parameterization = NonNullable<ImageForwardProps["parameterization"]>;
+type Layout = NonNullable<ImageForwardProps["layout"]>;
 
 const Element_ImageForwardDiffusion: React.FC = () => {
   const playerRef = useRef<PlayerRef>(null);
 
-  const [imageUrl, setImageUrl] = useState<string>("");
+  const [imageUrl, setImageUrl] = useState<string>(BUNDLED_IMAGES[0].src);
   const [steps, setSteps] = useState<number>(140);
-  const [scheduler, setScheduler] = useState<
-    "linear" | "cosine" | "quadratic" | "sigmoid"
-  >("linear");
+  const [scheduler, setScheduler] = useState<SchedulerId>("linear");
+  const [params, setParams] = useState<SchedulerParams>(DEFAULT_SCHEDULER_PARAMS);
+  const [layout, setLayout] = useState<Layout>("single");
+  const [gridColumns, setGridColumns] = useState<number>(6);
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string>("");
+  const [qualityStrip, setQualityStrip] = useState<boolean>(false);
+  const [snrPanel, setSnrPanel] = useState<boolean>(false);
+  const [highNoiseSnr, setHighNoiseSnr] = useState<number>(0.1);
+  const [zeroTerminalSnr, setZeroTerminalSnr] = useState<boolean>(false);
+  const [graphView, setGraphView] = useState<GraphView>("alphaBar");
+  const [parameterization, setParameterization] = useState<Parameterization>("vp");
+  const [customSchedule, setCustomSchedule] = useState<CustomSchedule>(() =>
+    toControlPoints(ALL_SCHEDULERS[0].builder(140, DEFAULT_SCHEDULER_PARAMS), "alphaBar", 9)
+  );
+
+  const builtinAlphaBar = (id: BuiltinScheduler) =>
+    ALL_SCHEDULERS.find((s) => s.id === id)!.builder(Math.max(2, steps), params);
+
+  const setParam = (id: BuiltinScheduler, key: string, v: number) =>
+    setParams((p) => ({ ...p, [id]: { ...p[id], [key]: v } }));
+
+  // Copy a built-in curve into the editor and switch to it
+  const editAsCustom = (id: BuiltinScheduler) => {
+    setCustomSchedule((c) => toControlPoints(builtinAlphaBar(id), c.kind, c.values.length));
+    setScheduler("custom");
+  };
+
+  // Re-express the current custom curve (kind or point count changed)
+  const reshapeCustom = (kind: CustomSchedule["kind"], count: number) =>
+    setCustomSchedule((c) =>
+      toControlPoints(alphaBarFromCustom(Math.max(2, steps), c), kind, count)
+    );
 
   // pacing
   const fps = 60;
   const framesPerStep = 6;
   const tailHoldFrames = 120;
-  const durationInFrames = steps * framesPerStep + tailHoldFrames;
 
   const props: ImageForwardProps = useMemo(
     () => ({
-      imageUrl: imageUrl.trim() || undefined,
+      imageUrl,
       steps,
       framesPerStep,
       tailHoldFrames,
       mode: "dark",
       internalSize: 512,
-      scheduler, // NEW
+      scheduler,
+      schedulerParams: params,
+      customSchedule,
+      zeroTerminalSnr,
+      graphView,
+      parameterization,
+      snrPanel,
+      highNoiseSnr,
+      layout,
+      gridColumns,
+      qualityStrip,
     }),
-    [imageUrl, steps, scheduler]
+    [
+      imageUrl,
+      steps,
+      scheduler,
+      params,
+      customSchedule,
+      zeroTerminalSnr,
+      graphView,
+      parameterization,
+      snrPanel,
+      highNoiseSnr,
+      layout,
+      gridColumns,
+      qualityStrip,
+    ]
   );
 
+  const durationInFrames = getImageForwardDuration(props);
+
+  const exportGrid = () => {
+    setExporting(true);
+    setExportError("");
+    exportSchedulerGridPng({ ...props, layout: "grid" })
+      .then((blob) => downloadBlob(blob, `scheduler-grid-T${steps}.png`))
+      .catch((err: unknown) => setExportError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setExporting(false));
+  };
+
+  const exportQuality = () => {
+    setExporting(true);
+    setExportError("");
+    exportSchedulerQualityCsv(props)
+      .then((csv) => downloadText(csv, `quality-${scheduler}-T${steps}.csv`))
+      .catch((err: unknown) => setExportError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setExporting(false));
+  };
+
   // player chrome
   const chromeBg = "rgba(0,0,0,0.85)";
   const chromeFg = "#fff";
@@ -66,23 +181,22 @@ const Element_ImageForwardDiffusion: React.FC = () => {
     width: 84,
     textAlign: "center" as const,
   };
-  const urlInput: React.CSSProperties = {
+  const select: React.CSSProperties = {
     border: "1px solid currentColor",
     background: "transparent",
     color: "inherit",
-    padding: "8px 10px",
+    padding: "7px 10px",
     borderRadius: 10,
     fontSize: 15,
-    minWidth: 280,
-    flex: "1 1 280px",
   };
-  const select: React.CSSProperties = {
+  const btn: React.CSSProperties = {
     border: "1px solid currentColor",
     background: "transparent",
     color: "inherit",
-    padding: "7px 10px",
+    padding: "7px 12px",
     borderRadius: 10,
     fontSize: 15,
+    cursor: "pointer",
   };
 
   return (
@@ -132,25 +246,198 @@ const Element_ImageForwardDiffusion: React.FC = () => {
         <label style={{ fontWeight: 800 }}>Scheduler</label>
         <select
           value={scheduler}
-          onChange={(e) =>
-            setScheduler(e.target.value as any)
-          }
+          onChange={(e) => setScheduler(e.target.value as SchedulerId)}
+          style={select}
+        >
+          {ALL_SCHEDULERS.map((sdef) => (
+            <option key={sdef.id} value={sdef.id}>
+              {sdef.label}
+            </option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+      </div>
+
+      <div style={row}>
+        <ImageSourcePicker value={imageUrl} onChange={setImageUrl} />
+      </div>
+
+      <div style={row}>
+        <label style={{ fontWeight: 800 }}>Layout</label>
+        <select
+          value={layout}
+          onChange={(e) => setLayout(e.target.value as Layout)}
           style={select}
         >
-          <option value="linear">linear</option>
-          <option value="cosine">cosine</option>
-          <option value="quadratic">quadratic</option>
-          <option value="sigmoid">sigmoid</option>
+          <option value="single">Single scheduler</option>
+          <option value="grid">Grid (all schedulers)</option>
         </select>
 
-        <label style={{ fontWeight: 800 }}>Image URL</label>
+        <label style={{ fontWeight: 800 }}>Columns</label>
         <input
-          placeholder="(optional) https://…"
-          value={imageUrl}
-          onChange={(e) => setImageUrl(e.target.value)}
-          style={urlInput}
+          type="number"
+          min={2}
+          max={16}
+          value={gridColumns}
+          onChange={(e) =>
+            setGridColumns(Math.max(2, Math.min(16, Math.round(Number(e.target.value) || 2))))
+          }
+          style={numSm}
         />
+
+        <button type="button" style={btn} onClick={exportGrid} disabled={exporting}>
+          {exporting ? "Exporting…" : "Export grid PNG"}
+        </button>
+        {exportError && (
+          <span style={{ fontSize: 14, color: "#ff6b6b" }}>Export failed: {exportError}</span>
+        )}
       </div>
+
+      <div style={row}>
+        <label style={{ fontWeight: 800 }}>Graph</label>
+        <select
+          value={graphView}
+          onChange={(e) => setGraphView(e.target.value as GraphView)}
+          style={select}
+        >
+          <option value="alphaBar">ᾱ(t)</option>
+          <option value="sigma">σ(t), log</option>
+        </select>
+
+        <label style={{ fontWeight: 800 }}>Image</label>
+        <select
+          value={parameterization}
+          onChange={(e) => setParameterization(e.target.value as Parameterization)}
+          style={select}
+        >
+          <option value="vp">VP</option>
+          <option value="ve">VE</option>
+          <option value="both">VP vs VE</option>
+        </select>
+
+        <label style={{ fontWeight: 800, display: "flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={zeroTerminalSnr}
+            onChange={(e) => setZeroTerminalSnr(e.target.checked)}
+          />
+          Zero terminal SNR
+        </label>
+
+        <label style={{ fontWeight: 800, display: "flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={snrPanel}
+            onChange={(e) => setSnrPanel(e.target.checked)}
+          />
+          SNR panel
+        </label>
+
+        <label style={{ fontWeight: 800, display: "flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={qualityStrip}
+            onChange={(e) => setQualityStrip(e.target.checked)}
+          />
+          PSNR / SSIM
+        </label>
+        <button type="button" style={btn} onClick={exportQuality} disabled={exporting || parameterization !== "vp"}>
+          Export CSV
+        </button>
+        {snrPanel && (
+          <>
+            <label style={{ fontWeight: 800 }}>High noise: SNR &lt;</label>
+            <input
+              type="number"
+              min={0.001}
+              max={1}
+              step={0.01}
+              value={highNoiseSnr}
+              onChange={(e) => {
+                const v = Number(e.target.value);
+                if (Number.isFinite(v)) setHighNoiseSnr(clamp(v, 0.001, 1));
+              }}
+              style={numSm}
+            />
+          </>
+        )}
+      </div>
+
+      {scheduler !== "custom" ? (
+        <div style={row}>
+          {SCHEDULER_PARAM_SPECS[scheduler].map((spec) => (
+            <React.Fragment key={spec.key}>
+              <label style={{ fontWeight: 800 }}>{spec.label}</label>
+              <input
+                type="number"
+                min={spec.min}
+                max={spec.max}
+                step={spec.step}
+                value={(params[scheduler] as Record<string, number>)[spec.key]}
+                onChange={(e) => {
+                  const v = Number(e.target.value);
+                  if (Number.isFinite(v)) setParam(scheduler, spec.key, clamp(v, spec.min, spec.max));
+                }}
+                style={numSm}
+              />
+            </React.Fragment>
+          ))}
+          <button
+            type="button"
+            style={btn}
+            onClick={() =>
+              setParams((p) => ({ ...p, [scheduler]: DEFAULT_SCHEDULER_PARAMS[scheduler] }))
+            }
+          >
+            Defaults
+          </button>
+          <button type="button" style={btn} onClick={() => editAsCustom(scheduler)}>
+            Edit as custom
+          </button>
+        </div>
+      ) : (
+        <>
+          <div style={row}>
+            <label style={{ fontWeight: 800 }}>Edit</label>
+            <select
+              value={customSchedule.kind}
+              onChange={(e) =>
+                reshapeCustom(e.target.value as CustomSchedule["kind"], customSchedule.values.length)
+              }
+              style={select}
+            >
+              <option value="alphaBar">ᾱ(t)</option>
+              <option value="beta">β(t)</option>
+            </select>
+
+            <label style={{ fontWeight: 800 }}>Points</label>
+            <select
+              value={POINT_COUNTS.includes(customSchedule.values.length) ? customSchedule.values.length : ""}
+              onChange={(e) => reshapeCustom(customSchedule.kind, Number(e.target.value))}
+              style={select}
+            >
+              {!POINT_COUNTS.includes(customSchedule.values.length) && (
+                <option value="">{customSchedule.values.length}</option>
+              )}
+              {POINT_COUNTS.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+
+            <label style={{ fontWeight: 800 }}>Start from</label>
+            {ALL_SCHEDULERS.map((sdef) => (
+              <button key={sdef.id} type="button" style={btn} onClick={() => editAsCustom(sdef.id)}>
+                {sdef.label}
+              </button>
+            ))}
+          </div>
+          <div style={row}>
+            <ScheduleEditor value={customSchedule} onChange={setCustomSchedule} />
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -1,6 +1,9 @@
 import React, { useState } from "react";
 import { Player } from "@remotion/player";
-import { MyCompositionDot as MatrixDotProduct } from "../remotion/DotProductInteractive/Composition";
+import {
+  MyCompositionDot as MatrixDotProduct,
+  getDotProductDuration,
+} from "../remotion/DotProductInteractive/Composition";
 
 const Element_DotProductInteractive: React.FC = () => {
   const [matrixA, setMatrixA] = useState([
@@ -57,7 +60,7 @@ const Element_DotProductInteractive: React.FC = () => {
       >
         <Player
           component={MatrixDotProduct}
-          durationInFrames={1710} // Total frames calculated
+          durationInFrames={getDotProductDuration({ matrixA, matrixB })}
           compositionWidth={1280}
           compositionHeight={720}
           fps={60}
@@ -0,0 +1,186 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Player, PlayerRef } from "@remotion/player";
+import {
+  FlowMatchingComposition,
+  FlowMatchingProps,
+  getFlowMatchingDuration,
+} from "../remotion/FlowMatching/Composition";
+import { FlowSolver } from "../flowMatching";
+import { DATASETS_2D, DIST2D_IDS } from "../seededMath";
+
+type Dist2D = FlowMatchingProps["dist2d"];
+
+const Element_FlowMatching: React.FC = () => {
+  const playerRef = useRef<PlayerRef>(null);
+
+  const [dist2d, setDist2d] = useState<Dist2D>("ring");
+  const [steps, setSteps] = useState<number>(60);
+  const [coarseSteps, setCoarseSteps] = useState<number>(1);
+  const [solver, setSolver] = useState<FlowSolver>("euler");
+  const [n, setN] = useState<number>(400);
+  const [showForward, setShowForward] = useState<boolean>(true);
+
+  // pacing
+  const fps = 60;
+  const framesPerStep = 6;
+  const tailHoldFrames = 120;
+
+  const props: FlowMatchingProps = useMemo(
+    () => ({
+      dist2d,
+      n,
+      steps,
+      coarseSteps: Math.min(coarseSteps, steps),
+      solver,
+      showForward,
+      framesPerStep,
+      tailHoldFrames,
+      mode: "dark",
+    }),
+    [dist2d, n, steps, coarseSteps, solver, showForward]
+  );
+
+  const durationInFrames = getFlowMatchingDuration(props);
+
+  // player chrome
+  const chromeBg = "rgba(0,0,0,0.85)";
+  const chromeFg = "#fff";
+  const seek = "#ffd166";
+
+  const wrap: React.CSSProperties = {
+    width: "100%",
+    maxWidth: 900,
+    margin: "0 auto",
+    fontFamily:
+      '"Source Sans 3", -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial',
+  };
+  const row: React.CSSProperties = {
+    width: "100%",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+    padding: "10px 14px",
+    background: "transparent",
+    color: "inherit",
+    flexWrap: "wrap",
+  };
+  const numSm: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "8px 10px",
+    borderRadius: 10,
+    fontSize: 15,
+    width: 84,
+    textAlign: "center" as const,
+  };
+  const select: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "7px 10px",
+    borderRadius: 10,
+    fontSize: 15,
+  };
+
+  return (
+    <div style={wrap}>
+      {/* Video */}
+      <div style={{ position: "relative", width: "100%", aspectRatio: "16/9" }}>
+        <Player
+          ref={playerRef}
+          component={FlowMatchingComposition}
+          inputProps={props}
+          durationInFrames={durationInFrames}
+          compositionWidth={1280}
+          compositionHeight={720}
+          fps={fps}
+          controls
+          clickToPlay
+          loop={false}
+          style={{
+            position: "absolute",
+            inset: 0,
+            width: "100%",
+            height: "100%",
+            objectFit: "contain",
+            backgroundColor: "transparent",
+            ["--remotion-player-controls-background" as any]: chromeBg,
+            ["--remotion-player-controls-color" as any]: chromeFg,
+            ["--remotion-player-seekbar-color" as any]: seek,
+            ["--remotion-player-controls-backdrop-filter" as any]: "none",
+          }}
+        />
+      </div>
+
+      {/* Controls */}
+      <div style={row}>
+        <label style={{ fontWeight: 800 }}>Dataset</label>
+        <select value={dist2d} onChange={(e) => setDist2d(e.target.value as Dist2D)} style={select}>
+          {DIST2D_IDS.map((d) => (
+            <option key={d} value={d}>
+              {DATASETS_2D[d].label}
+            </option>
+          ))}
+        </select>
+
+        <label style={{ fontWeight: 800 }}>Solver</label>
+        <select value={solver} onChange={(e) => setSolver(e.target.value as FlowSolver)} style={select}>
+          <option value="euler">Euler</option>
+          <option value="heun">Heun</option>
+        </select>
+
+        <label style={{ fontWeight: 800, display: "flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={showForward}
+            onChange={(e) => setShowForward(e.target.checked)}
+          />
+          Forward paths first
+        </label>
+      </div>
+
+      <div style={row}>
+        <label style={{ fontWeight: 800 }}>Steps</label>
+        <input
+          type="number"
+          min={10}
+          max={200}
+          value={steps}
+          onChange={(e) =>
+            setSteps(Math.max(10, Math.min(200, Number(e.target.value) || 10)))
+          }
+          style={numSm}
+        />
+
+        <label style={{ fontWeight: 800 }}>Coarse steps</label>
+        <input
+          type="number"
+          min={1}
+          max={20}
+          value={coarseSteps}
+          onChange={(e) =>
+            setCoarseSteps(Math.max(1, Math.min(20, Number(e.target.value) || 1)))
+          }
+          style={numSm}
+        />
+
+        <label style={{ fontWeight: 800 }}>Samples</label>
+        <input
+          type="number"
+          min={50}
+          max={1500}
+          step={50}
+          value={n}
+          onChange={(e) =>
+            setN(Math.max(50, Math.min(1500, Number(e.target.value) || 50)))
+          }
+          style={numSm}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Element_FlowMatching;
@@ -4,9 +4,12 @@ import {
   HowImageNoiseComposition,
   HowImageNoiseProps,
 } from "../remotion/HowImageNoise/Composition";
+import { makeRng, randn } from "../seededMath";
 
 const Element_HowImageNoise: React.FC = () => {
   const playerRef = useRef<PlayerRef>(null);
+  // seeded stream: each click draws fresh noise, but a reload replays the same sequence
+  const rng = useRef(makeRng(777)).current;
 
   // input controls
   const [imgH, setImgH] = useState(2);
@@ -39,15 +42,7 @@ const Element_HowImageNoise: React.FC = () => {
     const total = H * W * C;
     const out: number[] = [];
 
-    for (let i = 0; i < total; i++) {
-      // N(0,1)
-      let u = Math.random();
-      let v = Math.random();
-      if (u === 0) u = 1e-9;
-      const m = Math.sqrt(-2 * Math.log(u));
-      const z = m * Math.cos(2 * Math.PI * v);
-      out.push(z);
-    }
+    for (let i = 0; i < total; i++) out.push(randn(rng)); // N(0,1)
 
     setData(out);
     setSampledShape({ h: H, w: W, c: C });
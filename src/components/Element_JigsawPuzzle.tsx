@@ -1,25 +1,15 @@
 import React, { useRef, useState } from "react";
 import { Player, PlayerRef } from "@remotion/player";
 import { JigsawComposition, Permutation } from "../remotion/JigsawPuzzleInteractive/Composition";
+import { mulberry32 } from "../seededMath";
+import ImageSourcePicker, { BUNDLED_IMAGES } from "./ImageSourcePicker";
 
-// Import your two images (place them in src/_static/)
-import imgFirst from "../_static/mnist_eight.png";
-import imgSecond from "../_static/letter.png";
+const DEFAULT_IMAGE = BUNDLED_IMAGES.find((g) => g.label === "MNIST 8") ?? BUNDLED_IMAGES[0];
 
 // --- helpers ---
 const identity = (n: number): Permutation =>
   Array.from({ length: n * n }, (_, i) => i);
 
-// Deterministic RNG (Mulberry32)
-const mulberry32 = (seed: number) => {
-  return () => {
-    let t = (seed += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-};
-
 // Seeded shuffle so "shuffled" state persists across grid changes without anim
 const seededShuffle = (n: number, seed: number): Permutation => {
   const arr = identity(n);
@@ -33,14 +23,13 @@ const seededShuffle = (n: number, seed: number): Permutation => {
 };
 
 type LastAction = "solved" | "shuffled";
-type WhichImage = "first" | "second";
 
 const Element_JigsawPuzzle: React.FC = () => {
   const playerRef = useRef<PlayerRef>(null);
   const pauseTimerRef = useRef<number | null>(null);
 
   const [grid, setGrid] = useState<number>(3);
-  const [whichImage, setWhichImage] = useState<WhichImage>("first");
+  const [imageUrl, setImageUrl] = useState<string>(DEFAULT_IMAGE.src);
 
   const [perm, setPerm] = useState<Permutation>(() => identity(3));
   const [permFrom, setPermFrom] = useState<Permutation>(() => identity(3));
@@ -118,11 +107,6 @@ const Element_JigsawPuzzle: React.FC = () => {
     playerRef.current?.seekTo?.(0);
   }, [grid]); // intentionally not depending on lastAction/shuffleSeed
 
-  // IMAGE CHANGE: just swap the asset, keep permutation/state as-is (no animation)
-  React.useEffect(() => {
-    // No timeline change needed; composition reads new src each frame.
-  }, [whichImage]);
-
   // styles (inherit page colors)
   const wrap: React.CSSProperties = {
     width: "100%",
@@ -165,21 +149,6 @@ const Element_JigsawPuzzle: React.FC = () => {
     opacity: isAnimating ? 0.6 : 1,
     pointerEvents: isAnimating ? ("none" as const) : ("auto" as const),
   };
-  const selectCss: React.CSSProperties = {
-    border: "1px solid currentColor",
-    background: "transparent",
-    color: "inherit",
-    padding: "8px 28px 8px 10px",
-    borderRadius: 10,
-    fontSize: 14,
-    appearance: "none",
-    WebkitAppearance: "none" as any,
-    MozAppearance: "none" as any,
-    position: "relative",
-  };
-
-  // Choose image
-  const selectedImage = whichImage === "first" ? imgFirst : imgSecond;
 
   return (
     <div style={wrap}>
@@ -190,7 +159,7 @@ const Element_JigsawPuzzle: React.FC = () => {
           component={JigsawComposition}
           inputProps={{
             grid,
-            imageUrl: selectedImage, // pass the picked image
+            imageUrl, // swapping the image keeps the permutation (no animation)
             permFrom,
             permTo,
             animStartFrame,
@@ -214,7 +183,7 @@ const Element_JigsawPuzzle: React.FC = () => {
         />
       </div>
 
-      {/* Single row: Grid, Shuffle, Solve, Image selector (to the right) */}
+      {/* Grid, Shuffle, Solve */}
       <div style={row}>
         <label style={{ fontWeight: 700, fontSize: 16 }}>Grid:</label>
         <input
@@ -229,29 +198,10 @@ const Element_JigsawPuzzle: React.FC = () => {
         />
         <button type="button" onClick={onShuffle} style={btn}>Shuffle</button>
         <button type="button" onClick={onSolve} style={btn}>Solve</button>
+      </div>
 
-        {/* Image selector on the right side */}
-        <div style={{ display: "flex", alignItems: "center", gap: 8, marginLeft: 12 }}>
-          <span style={{ fontSize: 14, opacity: 0.85 }}>Image:</span>
-          <div style={{ position: "relative" }}>
-            <select
-              value={whichImage}
-              onChange={(e) => setWhichImage(e.target.value as WhichImage)}
-              style={selectCss}
-              aria-label="Choose image"
-            >
-              <option value="first">First image</option>
-              <option value="second">Second image</option>
-            </select>
-            {/* compact chevron */}
-            <svg
-              width="16" height="16" viewBox="0 0 24 24"
-              style={{ position: "absolute", right: 8, top: "50%", transform: "translateY(-50%)", pointerEvents: "none" }}
-            >
-              <path d="M7 10l5 5 5-5" fill="none" stroke="currentColor" strokeWidth="2" />
-            </svg>
-          </div>
-        </div>
+      <div style={row}>
+        <ImageSourcePicker value={imageUrl} onChange={setImageUrl} />
       </div>
     </div>
   );
@@ -0,0 +1,146 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Player, PlayerRef } from "@remotion/player";
+import {
+  LatentDiffusionComposition,
+  LatentDiffusionProps,
+  getLatentDiffusionDuration,
+} from "../remotion/LatentDiffusion/Composition";
+import ImageSourcePicker, { BUNDLED_IMAGES } from "./ImageSourcePicker";
+
+const LATENT_DIMS = [2, 4, 8, 16, 32, 64, 192];
+
+const Element_LatentDiffusion: React.FC = () => {
+  const playerRef = useRef<PlayerRef>(null);
+
+  const [imageUrl, setImageUrl] = useState<string>(BUNDLED_IMAGES[0].src);
+  const [steps, setSteps] = useState<number>(140);
+  const [latentDims, setLatentDims] = useState<number>(16);
+
+  // pacing
+  const fps = 60;
+  const framesPerStep = 6;
+  const tailHoldFrames = 120;
+
+  const props: LatentDiffusionProps = useMemo(
+    () => ({
+      imageUrl,
+      steps,
+      framesPerStep,
+      tailHoldFrames,
+      mode: "dark",
+      internalSize: 256,
+      latentDims,
+    }),
+    [imageUrl, steps, latentDims]
+  );
+
+  const durationInFrames = getLatentDiffusionDuration(props);
+
+  // player chrome
+  const chromeBg = "rgba(0,0,0,0.85)";
+  const chromeFg = "#fff";
+  const seek = "#ffd166";
+
+  const wrap: React.CSSProperties = {
+    width: "100%",
+    maxWidth: 900,
+    margin: "0 auto",
+    fontFamily:
+      '"Source Sans 3", -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial',
+  };
+  const row: React.CSSProperties = {
+    width: "100%",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+    padding: "10px 14px",
+    background: "transparent",
+    color: "inherit",
+    flexWrap: "wrap",
+  };
+  const numSm: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "8px 10px",
+    borderRadius: 10,
+    fontSize: 15,
+    width: 84,
+    textAlign: "center" as const,
+  };
+  const select: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "7px 10px",
+    borderRadius: 10,
+    fontSize: 15,
+  };
+
+  return (
+    <div style={wrap}>
+      {/* Video */}
+      <div style={{ position: "relative", width: "100%", aspectRatio: "16/9" }}>
+        <Player
+          ref={playerRef}
+          component={LatentDiffusionComposition}
+          inputProps={props}
+          durationInFrames={durationInFrames}
+          compositionWidth={1280}
+          compositionHeight={720}
+          fps={fps}
+          controls
+          clickToPlay
+          loop={false}
+          style={{
+            position: "absolute",
+            inset: 0,
+            width: "100%",
+            height: "100%",
+            objectFit: "contain",
+            backgroundColor: "transparent",
+            ["--remotion-player-controls-background" as any]: chromeBg,
+            ["--remotion-player-controls-color" as any]: chromeFg,
+            ["--remotion-player-seekbar-color" as any]: seek,
+            ["--remotion-player-controls-backdrop-filter" as any]: "none",
+          }}
+        />
+      </div>
+
+      {/* Controls */}
+      <div style={row}>
+        <label style={{ fontWeight: 800 }}>Steps</label>
+        <input
+          type="number"
+          min={30}
+          max={400}
+          value={steps}
+          onChange={(e) =>
+            setSteps(Math.max(30, Math.min(400, Number(e.target.value) || 30)))
+          }
+          style={numSm}
+        />
+
+        <label style={{ fontWeight: 800 }}>Latent dims / 8×8 patch</label>
+        <select
+          value={latentDims}
+          onChange={(e) => setLatentDims(Number(e.target.value))}
+          style={select}
+        >
+          {LATENT_DIMS.map((k) => (
+            <option key={k} value={k}>
+              {k === 192 ? "192 (no compression)" : k}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={row}>
+        <ImageSourcePicker value={imageUrl} onChange={setImageUrl} />
+      </div>
+    </div>
+  );
+};
+
+export default Element_LatentDiffusion;
@@ -0,0 +1,271 @@
+import React, { useEffect, useRef, useState } from "react";
+import { BUNDLED_IMAGES, drawCoverToSquare, GalleryImage, loadImage } from "../remotion/imagePixels";
+
+export { BUNDLED_IMAGES };
+
+// Uploaded images are re-encoded at most this large (longest side).
+const MAX_SIDE = 2048;
+const PREVIEW = 56;
+
+/**
+ * Decodes an image blob with its EXIF orientation applied, downsizes it to
+ * MAX_SIDE and re-encodes it as a PNG object URL. The scenes then read plain,
+ * upright, same-origin pixels, so `getImageData` never trips over CORS.
+ */
+export const imageBlobToUrl = async (blob: Blob): Promise<string> => {
+  if (!blob.type.startsWith("image/")) {
+    throw new Error(`not an image (${blob.type || "unknown type"})`);
+  }
+  const bmp = await createImageBitmap(blob, { imageOrientation: "from-image" });
+  const scale = Math.min(1, MAX_SIDE / Math.max(bmp.width, bmp.height));
+  const c = document.createElement("canvas");
+  c.width = Math.max(1, Math.round(bmp.width * scale));
+  c.height = Math.max(1, Math.round(bmp.height * scale));
+  const ctx = c.getContext("2d");
+  if (!ctx) {
+    bmp.close();
+    throw new Error("no 2D canvas context");
+  }
+  ctx.drawImage(bmp, 0, 0, c.width, c.height);
+  bmp.close();
+  const png = await new Promise<Blob | null>((resolve) => c.toBlob(resolve, "image/png"));
+  if (!png) throw new Error("could not encode the image");
+  return URL.createObjectURL(png);
+};
+
+/** Fetches a remote image into a local object URL (needs CORS on the server). */
+const remoteImageToUrl = async (url: string) => {
+  let res: Response;
+  try {
+    res = await fetch(url, { mode: "cors" });
+  } catch {
+    throw new Error("could not fetch — the server may not allow cross-origin requests");
+  }
+  if (!res.ok) throw new Error(`fetch failed (HTTP ${res.status})`);
+  return imageBlobToUrl(await res.blob());
+};
+
+export type ImageSourcePickerProps = {
+  /** the image URL currently shown by the scene */
+  value: string;
+  onChange: (url: string) => void;
+  gallery?: GalleryImage[];
+};
+
+/**
+ * Bundled gallery, file upload, drag-and-drop, clipboard paste (while the
+ * pointer is over the picker or it has focus) and remote URLs. Everything but
+ * the gallery becomes an object URL owned, and revoked, by the picker. The
+ * preview is the square crop the scenes use (drawCoverToSquare).
+ */
+const ImageSourcePicker: React.FC<ImageSourcePickerProps> = ({
+  value,
+  onChange,
+  gallery = BUNDLED_IMAGES,
+}) => {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const previewRef = useRef<HTMLCanvasElement | null>(null);
+  const ownedUrl = useRef<string | null>(null);
+  const armed = useRef<boolean>(false);
+  const [dragging, setDragging] = useState<boolean>(false);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [remote, setRemote] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const select = (url: string) => {
+    if (ownedUrl.current && ownedUrl.current !== url) URL.revokeObjectURL(ownedUrl.current);
+    ownedUrl.current = url.startsWith("blob:") ? url : null;
+    setError("");
+    onChange(url);
+  };
+
+  const load = (make: () => Promise<string>) => {
+    setBusy(true);
+    setError("");
+    make()
+      .then(select)
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setBusy(false));
+  };
+
+  const loadBlob = (blob: Blob | null | undefined) => {
+    if (blob) load(() => imageBlobToUrl(blob));
+  };
+  // the paste listener is added once and reaches the current loadBlob through this
+  const loadBlobRef = useRef(loadBlob);
+  loadBlobRef.current = loadBlob;
+
+  // the last object URL goes with the picker
+  useEffect(
+    () => () => {
+      if (ownedUrl.current) URL.revokeObjectURL(ownedUrl.current);
+    },
+    []
+  );
+
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      if (!armed.current) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA")) return;
+      const item = Array.from(e.clipboardData?.items ?? []).find((it) => it.type.startsWith("image/"));
+      if (!item) return;
+      e.preventDefault();
+      loadBlobRef.current(item.getAsFile());
+    };
+    document.addEventListener("paste", onPaste);
+    return () => document.removeEventListener("paste", onPaste);
+  }, []);
+
+  // preview of the scenes' square crop
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(value).then(
+      (img) => {
+        const c = previewRef.current;
+        const ctx = c?.getContext("2d");
+        if (cancelled || !c || !ctx) return;
+        const dpr = window.devicePixelRatio || 1;
+        c.width = Math.round(PREVIEW * dpr);
+        c.height = Math.round(PREVIEW * dpr);
+        ctx.save();
+        ctx.scale(dpr, dpr);
+        drawCoverToSquare(ctx, img, PREVIEW);
+        ctx.restore();
+      },
+      () => {
+        if (!cancelled) setError("could not load the selected image");
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [value]);
+
+  const onDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = Array.from(e.dataTransfer.files).find((f) => f.type.startsWith("image/"));
+    if (file) return loadBlob(file);
+    const uri = e.dataTransfer.getData("text/uri-list") || e.dataTransfer.getData("text/plain");
+    if (uri) load(() => remoteImageToUrl(uri.trim()));
+    else setError("drop an image file");
+  };
+
+  const onFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    loadBlob(f);
+  };
+
+  const btn: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "7px 12px",
+    borderRadius: 10,
+    fontSize: 14,
+    cursor: "pointer",
+  };
+  const thumb = (active: boolean): React.CSSProperties => ({
+    width: 40,
+    height: 40,
+    padding: 0,
+    borderRadius: 8,
+    overflow: "hidden",
+    border: active ? "2px solid #ffd166" : "1px solid currentColor",
+    background: "transparent",
+    cursor: "pointer",
+    opacity: active ? 1 : 0.75,
+  });
+
+  return (
+    <div
+      tabIndex={0}
+      onPointerEnter={() => (armed.current = true)}
+      onPointerLeave={() => (armed.current = false)}
+      onFocus={() => (armed.current = true)}
+      onBlur={() => (armed.current = false)}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+      }}
+      onDrop={onDrop}
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: 10,
+        flexWrap: "wrap",
+        justifyContent: "center",
+        padding: "8px 12px",
+        borderRadius: 12,
+        border: `1px dashed ${dragging ? "#ffd166" : "currentColor"}`,
+        outline: "none",
+        opacity: busy ? 0.6 : 1,
+      }}
+    >
+      <canvas
+        ref={previewRef}
+        title="square crop used by the scene"
+        style={{ width: PREVIEW, height: PREVIEW, borderRadius: 8, border: "1px solid currentColor" }}
+      />
+
+      <div style={{ display: "flex", gap: 6 }}>
+        {gallery.map((g) => (
+          <button
+            key={g.src}
+            type="button"
+            title={g.label}
+            aria-label={g.label}
+            style={thumb(g.src === value)}
+            onClick={() => select(g.src)}
+          >
+            <img src={g.src} alt="" style={{ width: "100%", height: "100%", objectFit: "cover", display: "block" }} />
+          </button>
+        ))}
+      </div>
+
+      <button type="button" style={btn} onClick={() => fileRef.current?.click()} disabled={busy}>
+        Upload…
+      </button>
+      <input ref={fileRef} type="file" accept="image/*" onChange={onFile} style={{ display: "none" }} />
+
+      <input
+        placeholder="https://… (needs CORS)"
+        value={remote}
+        onChange={(e) => setRemote(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && remote.trim()) load(() => remoteImageToUrl(remote.trim()));
+        }}
+        style={{
+          border: "1px solid currentColor",
+          background: "transparent",
+          color: "inherit",
+          padding: "7px 10px",
+          borderRadius: 10,
+          fontSize: 14,
+          minWidth: 180,
+          flex: "1 1 180px",
+        }}
+      />
+      <button
+        type="button"
+        style={btn}
+        disabled={busy || !remote.trim()}
+        onClick={() => load(() => remoteImageToUrl(remote.trim()))}
+      >
+        Load
+      </button>
+
+      <span style={{ fontSize: 13, opacity: 0.75 }}>
+        {busy ? "Loading…" : "or drop / paste an image here"}
+      </span>
+      {error && <span style={{ fontSize: 13, color: "#ff6b6b" }}>{error}</span>}
+    </div>
+  );
+};
+
+export default ImageSourcePicker;
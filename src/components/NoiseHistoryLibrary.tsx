@@ -0,0 +1,208 @@
+import React, { useRef, useState } from "react";
+import { NoiseStepParams, noiseHistoryProblem } from "../remotion/DiffusionForward/Composition";
+import { downloadText } from "./download";
+
+export type NamedNoiseHistory = { name: string; steps: NoiseStepParams[] };
+
+export type NoiseHistoryLibraryProps = {
+  history: NoiseStepParams[];
+  onLoad: (next: NamedNoiseHistory) => void;
+};
+
+// Saved histories survive reloads in localStorage under this key, as { name: steps }.
+const STORAGE_KEY = "ddpm-forward-noise-histories";
+
+// Entries that are not usable histories (hand-edited or from an older build) are skipped.
+const readLibrary = (): Record<string, NoiseStepParams[]> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const lib: Record<string, NoiseStepParams[]> = {};
+  for (const [key, steps] of Object.entries(raw)) {
+    if (!noiseHistoryProblem(steps)) lib[key] = steps as NoiseStepParams[];
+  }
+  return lib;
+};
+
+const writeLibrary = (lib: Record<string, NoiseStepParams[]>) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(lib));
+};
+
+/**
+ * Parses an imported history: either a bare array of steps or
+ * `{ "name": "...", "steps": [...] }`. Throws with a readable message when the
+ * steps are unusable; a missing name falls back to `fallbackName`.
+ */
+export const parseNoiseHistoryJSON = (text: string, fallbackName: string): NamedNoiseHistory => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`not valid JSON (${err instanceof Error ? err.message : String(err)})`);
+  }
+  let named: { name?: unknown; steps: unknown };
+  if (Array.isArray(raw)) {
+    named = { steps: raw };
+  } else if (raw && typeof raw === "object" && "steps" in raw) {
+    named = raw as { name?: unknown; steps: unknown };
+  } else {
+    throw new Error("expected an array of noise steps or { name, steps }");
+  }
+  const problem = noiseHistoryProblem(named.steps);
+  if (problem) throw new Error(problem);
+  // keep only the step fields
+  const steps = (named.steps as NoiseStepParams[]).map(({ gaussMeanX, gaussMeanY, gaussVarX, gaussVarY, gaussRho }) => ({
+    gaussMeanX, gaussMeanY, gaussVarX, gaussVarY, ...(gaussRho === undefined ? {} : { gaussRho }),
+  }));
+  const name = typeof named.name === "string" && named.name.trim() ? named.name.trim() : fallbackName;
+  return { name, steps };
+};
+
+/**
+ * Names the current noise history and keeps it: saved histories persist in
+ * the browser and can be loaded back, deleted, or moved around as JSON files.
+ */
+const NoiseHistoryLibrary: React.FC<NoiseHistoryLibraryProps> = ({ history, onLoad }) => {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [library, setLibrary] = useState<Record<string, NoiseStepParams[]>>(readLibrary);
+  const [name, setName] = useState<string>("history-1");
+  const [picked, setPicked] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const names = Object.keys(library).sort();
+
+  const store = (entry: NamedNoiseHistory) => {
+    const next = { ...library, [entry.name]: entry.steps };
+    try {
+      writeLibrary(next);
+      setError("");
+    } catch (err) {
+      setError(`could not save (${err instanceof Error ? err.message : String(err)})`);
+    }
+    setLibrary(next);
+    setPicked(entry.name);
+  };
+
+  const save = () => {
+    const key = name.trim();
+    if (!key) return setError("give the history a name first");
+    if (history.length === 0) return setError("no noise steps to save yet");
+    store({ name: key, steps: history });
+  };
+
+  const load = (key: string) => {
+    const steps = library[key];
+    if (!steps) return;
+    const problem = noiseHistoryProblem(steps);
+    if (problem) return setError(`"${key}" ${problem}`);
+    setName(key);
+    setError("");
+    onLoad({ name: key, steps });
+  };
+
+  const remove = (key: string) => {
+    const next = { ...library };
+    delete next[key];
+    try {
+      writeLibrary(next);
+      setError("");
+    } catch (err) {
+      setError(`could not delete (${err instanceof Error ? err.message : String(err)})`);
+    }
+    setLibrary(next);
+    setPicked("");
+  };
+
+  const exportJSON = () => {
+    const key = name.trim() || "noise-history";
+    downloadText(JSON.stringify({ name: key, steps: history }, null, 2), `${key}.json`, "application/json");
+  };
+
+  const onFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f) return;
+    f.text().then(
+      (src) => {
+        try {
+          const entry = parseNoiseHistoryJSON(src, f.name.replace(/\.json$/i, ""));
+          store(entry);
+          setName(entry.name);
+          onLoad(entry);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      },
+      (err: unknown) => setError(err instanceof Error ? err.message : String(err))
+    );
+  };
+
+  const btn: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "6px 12px",
+    borderRadius: 10,
+    fontSize: 13,
+    cursor: "pointer",
+  };
+  const field: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "6px 10px",
+    borderRadius: 10,
+    fontSize: 13,
+  };
+
+  return (
+    <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        style={{ ...field, width: 140 }}
+        title="Name used when saving or exporting"
+      />
+      <button type="button" style={btn} onClick={save} title={`Save the current ${history.length} step(s) in this browser`}>
+        Save
+      </button>
+
+      <select value={picked} onChange={(e) => setPicked(e.target.value)} style={field}>
+        <option value="">{names.length ? "Saved histories…" : "No saved histories"}</option>
+        {names.map((key) => (
+          <option key={key} value={key}>
+            {key} ({library[key].length})
+          </option>
+        ))}
+      </select>
+      <button type="button" style={btn} onClick={() => load(picked)} disabled={!picked}>
+        Load
+      </button>
+      <button type="button" style={btn} onClick={() => remove(picked)} disabled={!picked}>
+        Delete
+      </button>
+
+      <button type="button" style={btn} onClick={exportJSON} disabled={history.length === 0}>
+        Export JSON
+      </button>
+      <button type="button" style={btn} onClick={() => fileRef.current?.click()}>
+        Import JSON…
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={onFile}
+        style={{ display: "none" }}
+      />
+      {error && <span style={{ fontSize: 13, color: "#ff6b6b" }}>{error}</span>}
+    </div>
+  );
+};
+
+export default NoiseHistoryLibrary;
@@ -0,0 +1,259 @@
+import React, { useRef, useState } from "react";
+import { CustomSchedule, scheduleProblem } from "../seededMath";
+
+export type ScheduleEditorProps = {
+  value: CustomSchedule;
+  onChange: (next: CustomSchedule) => void;
+  width?: number;
+  height?: number;
+};
+
+const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
+
+// Dragged points stay strictly inside the valid range.
+const FLOOR = 1e-4;
+const BETA_CEIL = 0.999;
+
+// Above this many points the curve is drawn without handles (e.g. an imported
+// per-step array); dragging still grabs the nearest point.
+const MAX_HANDLES = 40;
+
+/**
+ * Parses pasted / imported JSON: either a bare array (read as `kind`) or
+ * `{ "kind": "beta" | "alphaBar", "values": [...] }`. Throws with a readable
+ * message when the schedule is unusable.
+ */
+export const parseScheduleJSON = (text: string, kind: CustomSchedule["kind"]): CustomSchedule => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`not valid JSON (${err instanceof Error ? err.message : String(err)})`);
+  }
+  let next: CustomSchedule;
+  if (Array.isArray(raw)) {
+    next = { kind, values: raw };
+  } else if (raw && typeof raw === "object" && "values" in raw) {
+    const obj = raw as { kind?: unknown; values: unknown };
+    const k = obj.kind ?? kind;
+    if (k !== "beta" && k !== "alphaBar") {
+      throw new Error(`"kind" must be "beta" or "alphaBar", got ${JSON.stringify(k)}`);
+    }
+    next = { kind: k, values: obj.values as number[] };
+  } else {
+    throw new Error("expected an array of numbers or { kind, values }");
+  }
+  const problem = scheduleProblem(next.kind, next.values);
+  if (problem) throw new Error(problem);
+  return next;
+};
+
+/**
+ * Draggable control points of a β(t) or ᾱ(t) curve over t ∈ [0, 1], plus JSON
+ * paste / file import and export. Points only move vertically; in ᾱ mode each
+ * point is clamped between its neighbours so the curve stays non-increasing.
+ */
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({
+  value,
+  onChange,
+  width = 480,
+  height = 220,
+}) => {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [dragIdx, setDragIdx] = useState<number | null>(null);
+  const [text, setText] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const { kind, values } = value;
+  const pad = 28;
+  const plotW = width - 2 * pad;
+  const plotH = height - 2 * pad;
+  const n = values.length;
+
+  const toPx = (i: number, v: number): [number, number] => [
+    pad + (i / Math.max(1, n - 1)) * plotW,
+    pad + (1 - v) * plotH,
+  ];
+
+  const pointerValue = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const sx = width / rect.width;
+    const sy = height / rect.height;
+    return {
+      x: (e.clientX - rect.left) * sx,
+      v: 1 - ((e.clientY - rect.top) * sy - pad) / plotH,
+    };
+  };
+
+  const moveTo = (i: number, v: number) => {
+    let lo = FLOOR;
+    let hi = kind === "beta" ? BETA_CEIL : 1;
+    if (kind === "alphaBar") {
+      if (i > 0) hi = Math.min(hi, values[i - 1]);
+      if (i < n - 1) lo = Math.max(lo, values[i + 1]);
+    }
+    const next = values.slice();
+    next[i] = clamp(v, lo, hi);
+    onChange({ kind, values: next });
+  };
+
+  const onDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const { x, v } = pointerValue(e);
+    const i = clamp(Math.round(((x - pad) / plotW) * (n - 1)), 0, n - 1);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragIdx(i);
+    moveTo(i, v);
+  };
+  const onMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIdx === null) return;
+    moveTo(dragIdx, pointerValue(e).v);
+  };
+  const onUp = () => setDragIdx(null);
+
+  const importText = (src: string) => {
+    try {
+      onChange(parseScheduleJSON(src, kind));
+      setError("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const onFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f) return;
+    f.text().then(
+      (src) => {
+        setText(src);
+        importText(src);
+      },
+      (err: unknown) => setError(err instanceof Error ? err.message : String(err))
+    );
+  };
+
+  const exportText = () => {
+    setText(JSON.stringify({ kind, values: values.map((v) => Number(v.toPrecision(6))) }));
+    setError("");
+  };
+
+  const path = values.map((v, i) => toPx(i, v).join(",")).join(" ");
+  const yLabel = kind === "beta" ? "β(t)" : "ᾱ(t)";
+
+  const btn: React.CSSProperties = {
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    padding: "6px 12px",
+    borderRadius: 10,
+    fontSize: 13,
+    cursor: "pointer",
+  };
+
+  return (
+    <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-start" }}>
+      <svg
+        width={width}
+        height={height}
+        onPointerDown={onDown}
+        onPointerMove={onMove}
+        onPointerUp={onUp}
+        onPointerCancel={onUp}
+        style={{ touchAction: "none", cursor: dragIdx === null ? "pointer" : "grabbing" }}
+      >
+        <rect
+          x={pad}
+          y={pad}
+          width={plotW}
+          height={plotH}
+          fill="none"
+          stroke="currentColor"
+          opacity={0.4}
+        />
+        {[0.25, 0.5, 0.75].map((g) => (
+          <line
+            key={g}
+            x1={pad}
+            x2={pad + plotW}
+            y1={pad + (1 - g) * plotH}
+            y2={pad + (1 - g) * plotH}
+            stroke="currentColor"
+            opacity={0.15}
+          />
+        ))}
+        <polyline points={path} fill="none" stroke="#ffd166" strokeWidth={2} />
+        {n <= MAX_HANDLES &&
+          values.map((v, i) => {
+            const [px, py] = toPx(i, v);
+            return (
+              <circle
+                key={i}
+                cx={px}
+                cy={py}
+                r={dragIdx === i ? 7 : 5}
+                fill="#ffd166"
+                stroke="currentColor"
+              />
+            );
+          })}
+        <text x={pad} y={pad - 8} fill="currentColor" fontSize={12}>
+          {yLabel} — drag to edit ({n} points)
+        </text>
+        <text x={pad - 6} y={pad + 4} fill="currentColor" fontSize={10} textAnchor="end">
+          1
+        </text>
+        <text x={pad - 6} y={pad + plotH + 4} fill="currentColor" fontSize={10} textAnchor="end">
+          0
+        </text>
+        <text x={pad} y={pad + plotH + 16} fill="currentColor" fontSize={10}>
+          t = 0
+        </text>
+        <text x={pad + plotW} y={pad + plotH + 16} fill="currentColor" fontSize={10} textAnchor="end">
+          t = T
+        </text>
+      </svg>
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 6, flex: "1 1 220px" }}>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={`[1, 0.9, …] as ${kind === "beta" ? "β" : "ᾱ"}, or {"kind": "beta", "values": [...]}`}
+          rows={6}
+          style={{
+            border: "1px solid currentColor",
+            background: "transparent",
+            color: "inherit",
+            borderRadius: 10,
+            padding: 8,
+            fontFamily: "monospace",
+            fontSize: 12,
+            resize: "vertical",
+          }}
+        />
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+          <button type="button" style={btn} onClick={() => importText(text)}>
+            Import
+          </button>
+          <button type="button" style={btn} onClick={() => fileRef.current?.click()}>
+            Load file…
+          </button>
+          <button type="button" style={btn} onClick={exportText}>
+            Export
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={onFile}
+            style={{ display: "none" }}
+          />
+        </div>
+        {error && (
+          <span style={{ fontSize: 13, color: "#ff6b6b" }}>Import failed: {error}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleEditor;
@@ -1,4 +1,5 @@
 import React, { useRef, useState, useEffect } from "react";
+import { makeRng, randInt, randn } from "../seededMath";
 
 type Mode = "1d" | "2d";
 
@@ -6,20 +7,14 @@ export type SketchPadProps = {
   mode: Mode;
   width?: number;
   height?: number;
+  /** seed for the jittered resampling — same drawing + seed → same target */
+  seed?: number;
   onUse: (out: { x1d?: Float32Array; xs2d?: Float32Array; ys2d?: Float32Array }) => void;
 };
 
-const randn = () => {
-  let u = 0, v = 0;
-  while (u === 0) u = Math.random();
-  while (v === 0) v = Math.random();
-  const m = Math.sqrt(-2 * Math.log(u));
-  return m * Math.cos(2 * Math.PI * v);
-};
-
 const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
 
-const SketchPad: React.FC<SketchPadProps> = ({ mode, width = 480, height = 260, onUse }) => {
+const SketchPad: React.FC<SketchPadProps> = ({ mode, width = 480, height = 260, seed = 4242, onUse }) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const [drawing, setDrawing] = useState(false);
   const [pts, setPts] = useState<{ x: number; y: number }[]>([]);
@@ -69,13 +64,14 @@ const SketchPad: React.FC<SketchPadProps> = ({ mode, width = 480, height = 260,
 
   const useAsTarget = () => {
     if (pts.length < 2) return;
+    const rng = makeRng(seed);
     if (mode === "1d") {
       // sample x along stroke with small jitter; map x->[ -4, 4 ]
       const N = 2000;
       const xs = new Float32Array(N);
       for (let i = 0; i < N; i++) {
-        const idx = Math.floor(Math.random() * pts.length);
-        const px = pts[idx].x + 0.6 * randn(); // slight jitter
+        const idx = randInt(rng, 0, pts.length);
+        const px = pts[idx].x + 0.6 * randn(rng); // slight jitter
         const xn = clamp(px / width, 0, 1);
         xs[i] = -4 + xn * 8;
       }
@@ -86,10 +82,10 @@ const SketchPad: React.FC<SketchPadProps> = ({ mode, width = 480, height = 260,
       const xs = new Float32Array(N);
       const ys = new Float32Array(N);
       for (let i = 0; i < N; i++) {
-        const idx = Math.floor(Math.random() * pts.length);
+        const idx = randInt(rng, 0, pts.length);
         const p = pts[idx];
-        const px = p.x + 0.8 * randn();
-        const py = p.y + 0.8 * randn();
+        const px = p.x + 0.8 * randn(rng);
+        const py = p.y + 0.8 * randn(rng);
         const xn = clamp(px / width, 0, 1);
         const yn = clamp(py / height, 0, 1);
         xs[i] = -4 + xn * 8;
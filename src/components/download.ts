@@ -0,0 +1,13 @@
+// Browser download of generated files (PNG stills, CSV exports).
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (text: string, filename: string, type = "text/csv") =>
+  downloadBlob(new Blob([text], { type }), filename);
@@ -5,6 +5,7 @@ import {
   SamplingContinuousProps,
   Dim,
 } from "../remotion/SamplingContinuous/Composition";
+import { mulberry32, randn } from "../seededMath";
 
 /* ---------- Palette + Font ---------- */
 const UI = {
@@ -17,21 +18,6 @@ const UI = {
   primaryHover: "#2563eb",
 };
 
-const mulberry32 = (s: number) => () => {
-  let t = (s += 0x6d2b79f5);
-  t = Math.imul(t ^ (t >>> 15), t | 1);
-  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-};
-const randn = (rng: () => number) => {
-  let u = 0,
-    v = 0;
-  while (u === 0) u = rng();
-  while (v === 0) v = rng();
-  const m = Math.sqrt(-2 * Math.log(u));
-  return m * Math.cos(2 * Math.PI * v);
-};
-
 const Element_SamplingContinuous: React.FC = () => {
   const playerRef = useRef<PlayerRef>(null);
   const fps = 60;
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { BUNDLED_IMAGES, imageDensityPoints } from "../remotion/imagePixels";
+
+type Points2D = { xs: Float32Array; ys: Float32Array };
+
+const PORTRAIT = BUNDLED_IMAGES.find((g) => g.label === "Portrait") ?? BUNDLED_IMAGES[0];
+
+/**
+ * The "image density" dataset for the 2D diffusion pages: the picked image
+ * and n points sampled ∝ its darkness, resampled whenever either changes.
+ * Points stay null until `enabled` and loaded.
+ */
+export const useImageDensityPoints = (enabled: boolean, n: number) => {
+  const [imageUrl, setImageUrl] = useState<string>(PORTRAIT.src);
+  const [points, setPoints] = useState<Points2D | null>(null);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    imageDensityPoints(imageUrl, n).then(
+      (p) => {
+        if (cancelled) return;
+        setPoints(p);
+        setError("");
+      },
+      (err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, imageUrl, n]);
+
+  return { imageUrl, setImageUrl, points, error };
+};
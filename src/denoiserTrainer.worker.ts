@@ -0,0 +1,58 @@
+// Web Worker that trains the tiny denoiser off the main thread and streams
+// the recorded history back after every snapshot chunk.
+//
+//   main → worker  { type: "start", data, config, run } | { type: "stop" }
+//   worker → main  { type: "progress", history, done } | { type: "error", message }
+
+import {
+  DenoiserConfig,
+  makeDenoiserTrainer,
+  recordTraining,
+  TrainingHistory,
+  TrainingRun,
+} from "./tinyDenoiser";
+
+export type TrainerRequest =
+  | {
+      type: "start";
+      data: { xs: Float32Array; ys: Float32Array };
+      config: DenoiserConfig;
+      run: TrainingRun;
+    }
+  | { type: "stop" };
+
+export type TrainerResponse =
+  | { type: "progress"; history: TrainingHistory; done: boolean }
+  | { type: "error"; message: string };
+
+const post = (msg: TrainerResponse) => (self as unknown as Worker).postMessage(msg);
+
+// bumped on every start/stop so a superseded run exits at its next chunk
+let runId = 0;
+
+// Yield between chunks so a "stop" message can be delivered.
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const train = async (req: Extract<TrainerRequest, { type: "start" }>, id: number) => {
+  const { run } = req;
+  const trainer = makeDenoiserTrainer(req.data, req.config);
+  let history = recordTraining(trainer, { ...run, iterations: 0 });
+  post({ type: "progress", history, done: false });
+
+  while (trainer.step < run.iterations) {
+    await nextTick();
+    if (id !== runId) return;
+    const target = Math.min(run.iterations, trainer.step + run.snapshotEvery);
+    history = recordTraining(trainer, { ...run, iterations: target }, history);
+    post({ type: "progress", history, done: trainer.step >= run.iterations });
+  }
+};
+
+self.onmessage = (e: MessageEvent<TrainerRequest>) => {
+  const req = e.data;
+  const id = ++runId;
+  if (req.type === "stop") return;
+  train(req, id).catch((err: unknown) => {
+    post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  });
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { mixtureVelocity, pathCoefs, PROBABILITY_PATHS, ProbabilityPath } from "./flowMatching";
+import { makeKernelMixture } from "./mixtureScore";
+
+describe("mixtureVelocity", () => {
+  // One kernel N(c, σ₀² I): q_t = N(a c, (a² σ₀² + s²) I), and the flow moves
+  // the point at a fixed standardised offset z, x_t = a c + sd(t) z.
+  const c = [0.7, -0.4];
+  const std = 0.3;
+  const mix = makeKernelMixture([[c[0]], [c[1]]], std);
+  const z = [1.2, -0.5];
+  const pointAt = (path: ProbabilityPath, t: number) => {
+    const { a, s } = pathCoefs(path, t);
+    const sd = Math.sqrt(a * a * std * std + s * s);
+    return c.map((ci, d) => a * ci + sd * z[d]);
+  };
+
+  it.each(PROBABILITY_PATHS)("matches the finite-difference velocity of one kernel on the %s path", (path) => {
+    const h = 1e-5;
+    for (const t of [0.2, 0.5, 0.9]) {
+      const u = new Float32Array(2);
+      mixtureVelocity(mix, path, t, pointAt(path, t), 0, u, 0);
+      const ahead = pointAt(path, t + h);
+      const behind = pointAt(path, t - h);
+      for (let d = 0; d < 2; d++) expect(u[d]).toBeCloseTo((ahead[d] - behind[d]) / (2 * h), 4);
+    }
+  });
+});
@@ -0,0 +1,160 @@
+// Exact velocities for flow matching on the kernel-mixture targets of
+// mixtureScore.ts. A probability path interpolates data and noise,
+//
+//   x_t = a(t) x₀ + s(t) ε,   t ∈ [0, 1],  x₀ ~ q₀,  ε ~ N(0, I),
+//
+// and the marginal velocity u_t(x) = E[a′ x₀ + s′ ε | x_t = x] transports
+// q_t along it. For q₀ = 1/M Σ N(c_j, σ₀² I) the posterior over kernels is
+// Gaussian, so u_t has a closed form and "flow matching" needs no training:
+// integrating dx/dt = u_t(x) from t = 1 to 0 is the ideal learned sampler.
+//
+// Points are flat Float32Arrays (N·D), as in mixtureScore.ts.
+
+import { KernelMixture } from "./mixtureScore";
+
+/**
+ * - linear: a = 1 − t, s = t (flow matching / rectified flow)
+ * - vp:     the DDPM path of the VP SDE with a linear β(t) from 0.1 to 20,
+ *           a = √ᾱ(t), s = √(1 − ᾱ(t))
+ */
+export type ProbabilityPath = "linear" | "vp";
+
+export const PROBABILITY_PATHS: ProbabilityPath[] = ["linear", "vp"];
+
+const VP_BETA_MIN = 0.1;
+const VP_BETA_MAX = 20;
+
+/** a(t), s(t), a′(t) and s·s′ (finite at t = 0, where s′ is not). */
+export const pathCoefs = (path: ProbabilityPath, t: number) => {
+  if (path === "linear") return { a: 1 - t, s: t, da: -1, sds: t };
+  const a = Math.exp(-0.25 * t * t * (VP_BETA_MAX - VP_BETA_MIN) - 0.5 * t * VP_BETA_MIN);
+  const da = -0.5 * (VP_BETA_MIN + t * (VP_BETA_MAX - VP_BETA_MIN)) * a;
+  // s² = 1 − a²  ⇒  s s′ = −a a′
+  return { a, s: Math.sqrt(Math.max(0, 1 - a * a)), da, sds: -a * da };
+};
+
+/**
+ * u_t(x) for the point at x[xOff … xOff+D), written to out[outOff … outOff+D).
+ * Per kernel, with r = x − a c_j and v = a²σ₀² + s²,
+ *
+ *   E[x₀ | x, j] = c_j + (a σ₀² / v) r,   E[s′ε | x, j] = (s s′ / v) r,
+ *
+ * averaged with the log-sum-exp posterior weights ∝ exp(−|r|² / 2v).
+ */
+export const mixtureVelocity = (
+  mix: KernelMixture,
+  path: ProbabilityPath,
+  t: number,
+  x: ArrayLike<number>,
+  xOff: number,
+  out: Float32Array,
+  outOff: number
+) => {
+  const { D, centers, std } = mix;
+  const M = centers.length / D;
+  const { a, s, da, sds } = pathCoefs(path, t);
+  const v = Math.max(1e-8, a * a * std * std + s * s);
+
+  let maxLog = -Infinity;
+  const logw = new Float64Array(M);
+  for (let j = 0; j < M; j++) {
+    let d2 = 0;
+    for (let d = 0; d < D; d++) {
+      const r = x[xOff + d] - a * centers[j * D + d];
+      d2 += r * r;
+    }
+    logw[j] = -d2 / (2 * v);
+    if (logw[j] > maxLog) maxLog = logw[j];
+  }
+
+  // posterior mean of the kernel center
+  let wsum = 0;
+  const mean = new Float64Array(D);
+  for (let j = 0; j < M; j++) {
+    const w = Math.exp(logw[j] - maxLog);
+    wsum += w;
+    for (let d = 0; d < D; d++) mean[d] += w * centers[j * D + d];
+  }
+
+  // u = a′ E[c] + ((a′ a σ₀² + s s′) / v) (x − a E[c])
+  const k = (da * a * std * std + sds) / v;
+  for (let d = 0; d < D; d++) {
+    const c = mean[d] / wsum;
+    out[outOff + d] = da * c + k * (x[xOff + d] - a * c);
+  }
+};
+
+export type FlowSolver = "euler" | "heun";
+
+/**
+ * Integrates dx/dt = u_t(x) from the noise x1 (N·D, e.g. fresh N(0, I)) at
+ * t = 1 down to t = 0 in `steps` uniform steps. Returns steps+1 snapshots:
+ * states[0] = x₁, …, states[steps] = x₀ (samples).
+ */
+export const sampleFlow = (
+  mix: KernelMixture,
+  path: ProbabilityPath,
+  x1: Float32Array,
+  steps: number,
+  solver: FlowSolver = "euler"
+) => {
+  const { D } = mix;
+  const N = Math.floor(x1.length / D);
+  const S = Math.max(1, Math.round(steps));
+  let x = x1;
+  const states: Float32Array[] = [x];
+
+  const u1 = new Float32Array(D);
+  const u2 = new Float32Array(D);
+  const tmp = new Float32Array(D);
+  for (let k = 0; k < S; k++) {
+    const t = 1 - k / S;
+    const tNext = 1 - (k + 1) / S;
+    const dt = tNext - t;
+    const next = new Float32Array(N * D);
+    for (let i = 0; i < N; i++) {
+      mixtureVelocity(mix, path, t, x, i * D, u1, 0);
+      for (let d = 0; d < D; d++) tmp[d] = x[i * D + d] + dt * u1[d];
+      if (solver === "heun") {
+        mixtureVelocity(mix, path, tNext, tmp, 0, u2, 0);
+        for (let d = 0; d < D; d++) next[i * D + d] = x[i * D + d] + dt * 0.5 * (u1[d] + u2[d]);
+      } else {
+        next.set(tmp, i * D);
+      }
+    }
+    x = next;
+    states.push(x);
+  }
+  return states;
+};
+
+/**
+ * Mean chord / arc-length ratio of the trajectories in `states`: 1 when every
+ * particle moves in a straight line from its first to its last position,
+ * smaller the more they bend or double back.
+ */
+export const trajectoryStraightness = (states: Float32Array[], D: number) => {
+  const first = states[0];
+  const last = states[states.length - 1];
+  const N = Math.floor(first.length / D);
+  if (N === 0 || states.length < 2) return 1;
+  let total = 0;
+  for (let i = 0; i < N; i++) {
+    let arc = 0;
+    for (let k = 1; k < states.length; k++) {
+      let d2 = 0;
+      for (let d = 0; d < D; d++) {
+        const diff = states[k][i * D + d] - states[k - 1][i * D + d];
+        d2 += diff * diff;
+      }
+      arc += Math.sqrt(d2);
+    }
+    let c2 = 0;
+    for (let d = 0; d < D; d++) {
+      const diff = last[i * D + d] - first[i * D + d];
+      c2 += diff * diff;
+    }
+    total += arc > 1e-9 ? Math.sqrt(c2) / arc : 1;
+  }
+  return total / N;
+};
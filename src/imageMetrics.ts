@@ -0,0 +1,243 @@
+// Pixel statistics of noised images. Images are flat RGB Float32Arrays
+// (s·s·3, values of x₀ in [0, 1]) as in the image diffusion scenes, and
+// x_t = a·x₀ + b·ε is formed on the fly from the clean pixels and the fixed ε.
+
+/** Standard normal density. */
+export const normalPdf = (x: number) => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+// Abramowitz & Stegun 7.1.26 (|error| < 1.5e-7)
+const erf = (x: number) => {
+  const sign = x < 0 ? -1 : 1;
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-z * z));
+};
+
+/** Standard normal CDF Φ. */
+export const normalCdf = (x: number) => 0.5 * (1 + erf(x / Math.SQRT2));
+
+type HistogramRange = {
+  bins: number;
+  lo: number;
+  hi: number;
+  /** use every stride-th pixel (1 = all) */
+  stride?: number;
+};
+
+// Bin counts of x_t per channel; values outside [lo, hi] land in the edge bins.
+const countBins = (
+  basePx: ArrayLike<number>,
+  noise: ArrayLike<number>,
+  a: number,
+  b: number,
+  { bins, lo, hi, stride = 1 }: HistogramRange
+) => {
+  const counts = [0, 1, 2].map(() => new Float64Array(bins));
+  const scale = bins / (hi - lo);
+  let n = 0;
+  for (let i = 0; i + 2 < basePx.length; i += 3 * stride) {
+    for (let c = 0; c < 3; c++) {
+      const v = a * basePx[i + c] + b * noise[i + c];
+      const k = Math.max(0, Math.min(bins - 1, Math.floor((v - lo) * scale)));
+      counts[c][k]++;
+    }
+    n++;
+  }
+  return { counts, n };
+};
+
+/**
+ * Per-channel (R, G, B) density histograms of x_t over [lo, hi], each
+ * normalised to integrate to 1 so they overlay directly on N(0, 1).
+ */
+export const pixelHistograms = (
+  basePx: ArrayLike<number>,
+  noise: ArrayLike<number>,
+  a: number,
+  b: number,
+  range: HistogramRange
+) => {
+  const { counts, n } = countBins(basePx, noise, a, b, range);
+  const width = (range.hi - range.lo) / range.bins;
+  return counts.map((cs) => Array.from(cs, (c) => c / Math.max(1, n) / width));
+};
+
+/**
+ * KL(p̂ ‖ N(0, 1)) and Wasserstein-1(p̂, N(0, 1)) for the pooled pixel values
+ * of x_t, both computed on a fine histogram over [lo, hi] (the KL is the
+ * binned one, so it stays finite for the spiky t = 0 distribution).
+ */
+export const distanceToStandardNormal = (
+  basePx: ArrayLike<number>,
+  noise: ArrayLike<number>,
+  a: number,
+  b: number,
+  { bins = 240, lo = -6, hi = 6, stride = 1 }: Partial<HistogramRange> = {}
+) => {
+  const { counts, n } = countBins(basePx, noise, a, b, { bins, lo, hi, stride });
+  const total = Math.max(1, 3 * n);
+  const width = (hi - lo) / bins;
+  let kl = 0;
+  let w1 = 0;
+  let cum = 0;
+  for (let k = 0; k < bins; k++) {
+    const p = (counts[0][k] + counts[1][k] + counts[2][k]) / total;
+    // edge bins also hold the normal's tails, matching how p̂ was binned
+    const cdfLo = k === 0 ? 0 : normalCdf(lo + k * width);
+    const cdfHi = k === bins - 1 ? 1 : normalCdf(lo + (k + 1) * width);
+    const q = Math.max(1e-300, cdfHi - cdfLo);
+    if (p > 0) kl += p * Math.log(p / q);
+    cum += p;
+    if (k < bins - 1) w1 += Math.abs(cum - cdfHi) * width;
+  }
+  return { kl: Math.max(0, kl), w1 };
+};
+
+/* ======================= quality vs the clean image ======================= */
+
+/**
+ * Every k-th pixel in both directions so the side is ≤ maxSide. Applied to
+ * x₀ and ε alike, the sub-grid noise is still i.i.d. N(0, 1).
+ */
+export const subgridPixels = (px: ArrayLike<number>, s: number, maxSide: number) => {
+  const k = Math.max(1, Math.ceil(s / maxSide));
+  const side = Math.ceil(s / k);
+  const out = new Float32Array(side * side * 3);
+  for (let y = 0; y < side; y++) {
+    for (let x = 0; x < side; x++) {
+      const src = ((y * k) * s + x * k) * 3;
+      const dst = (y * side + x) * 3;
+      out[dst] = px[src];
+      out[dst + 1] = px[src + 1];
+      out[dst + 2] = px[src + 2];
+    }
+  }
+  return { px: out, side };
+};
+
+/** PSNR in dB of `y` against the reference `x` (peak 1), capped at `cap` for (near-)identical images. */
+export const psnr = (x: ArrayLike<number>, y: ArrayLike<number>, cap = 60) => {
+  let mse = 0;
+  for (let i = 0; i < x.length; i++) {
+    const d = x[i] - y[i];
+    mse += d * d;
+  }
+  mse /= Math.max(1, x.length);
+  return mse <= 0 ? cap : Math.min(cap, 10 * Math.log10(1 / mse));
+};
+
+/**
+ * Mean SSIM (L = 1) over all `win` × `win` box windows, averaged over the RGB
+ * channels. Window sums come from integral images, so it is O(pixels).
+ */
+export const ssim = (x: ArrayLike<number>, y: ArrayLike<number>, side: number, win = 7) => {
+  const C1 = 0.01 * 0.01;
+  const C2 = 0.03 * 0.03;
+  const w = Math.min(win, side);
+  const n = w * w;
+  const stride = side + 1;
+  const sx = new Float64Array(stride * stride);
+  const sy = new Float64Array(stride * stride);
+  const sxx = new Float64Array(stride * stride);
+  const syy = new Float64Array(stride * stride);
+  const sxy = new Float64Array(stride * stride);
+  const box = (S: Float64Array, r: number, c: number) =>
+    S[(r + w) * stride + c + w] - S[r * stride + c + w] - S[(r + w) * stride + c] + S[r * stride + c];
+
+  let total = 0;
+  let count = 0;
+  for (let ch = 0; ch < 3; ch++) {
+    for (let r = 0; r < side; r++) {
+      for (let c = 0; c < side; c++) {
+        const a = x[(r * side + c) * 3 + ch];
+        const b = y[(r * side + c) * 3 + ch];
+        const i = (r + 1) * stride + c + 1;
+        const up = i - stride;
+        sx[i] = a + sx[up] + sx[i - 1] - sx[up - 1];
+        sy[i] = b + sy[up] + sy[i - 1] - sy[up - 1];
+        sxx[i] = a * a + sxx[up] + sxx[i - 1] - sxx[up - 1];
+        syy[i] = b * b + syy[up] + syy[i - 1] - syy[up - 1];
+        sxy[i] = a * b + sxy[up] + sxy[i - 1] - sxy[up - 1];
+      }
+    }
+    for (let r = 0; r + w <= side; r++) {
+      for (let c = 0; c + w <= side; c++) {
+        const mx = box(sx, r, c) / n;
+        const my = box(sy, r, c) / n;
+        const vx = box(sxx, r, c) / n - mx * mx;
+        const vy = box(syy, r, c) / n - my * my;
+        const cxy = box(sxy, r, c) / n - mx * my;
+        total +=
+          ((2 * mx * my + C1) * (2 * cxy + C2)) / ((mx * mx + my * my + C1) * (vx + vy + C2));
+        count++;
+      }
+    }
+  }
+  return total / Math.max(1, count);
+};
+
+export type QualityRow = {
+  /** 1-based step, as shown in the scenes */
+  t: number;
+  alphaBar: number;
+  psnrXt: number;
+  ssimXt: number;
+  psnrX0: number;
+  ssimX0: number;
+};
+
+/**
+ * PSNR / SSIM against x₀ of x_t and of the oracle x̂₀ = (x_t − √(1−ᾱ) ε̂) / √ᾱ
+ * at every step, both clipped to [0, 1] as the panels display them.
+ * `epsHat(ε, t)` is the noise prediction; the default ε̂ = ε is a perfect
+ * denoiser, whose x̂₀ matches x₀ (PSNR at the cap) at every t.
+ */
+export const qualityCurves = (
+  basePx: Float32Array,
+  noise: Float32Array,
+  side: number,
+  alphaBar: ArrayLike<number>,
+  epsHat: (eps: Float32Array, t: number) => ArrayLike<number> = (eps) => eps
+): QualityRow[] => {
+  const xt = new Float32Array(basePx.length);
+  const x0 = new Float32Array(basePx.length);
+  const clip = (v: number) => Math.max(0, Math.min(1, v));
+  const rows: QualityRow[] = [];
+  for (let t = 0; t < alphaBar.length; t++) {
+    const ab = Math.max(1e-8, alphaBar[t]);
+    const a = Math.sqrt(ab);
+    const b = Math.sqrt(Math.max(0, 1 - ab));
+    const eh = epsHat(noise, t);
+    for (let i = 0; i < basePx.length; i++) {
+      const v = a * basePx[i] + b * noise[i];
+      xt[i] = clip(v);
+      x0[i] = clip((v - b * eh[i]) / a);
+    }
+    rows.push({
+      t: t + 1,
+      alphaBar: alphaBar[t],
+      psnrXt: psnr(basePx, xt),
+      ssimXt: ssim(basePx, xt, side),
+      psnrX0: psnr(basePx, x0),
+      ssimX0: ssim(basePx, x0, side),
+    });
+  }
+  return rows;
+};
+
+/**
+ * CSV (header + one line per step) of quality curves. The scenes compute them
+ * on a decimated sub-grid (subgridPixels), which the SSIM columns say: SSIM of
+ * a sub-grid is not the SSIM of the full image, unlike the PSNR estimate.
+ */
+export const qualityCsv = (rows: QualityRow[]) =>
+  [
+    "t,alpha_bar,psnr_xt_db,ssim_xt_subgrid,psnr_x0hat_db,ssim_x0hat_subgrid",
+    ...rows.map((r) =>
+      [r.t, r.alphaBar, r.psnrXt, r.ssimXt, r.psnrX0, r.ssimX0]
+        .map((v, i) => (i === 0 ? String(v) : v.toPrecision(6)))
+        .join(",")
+    ),
+  ].join("\n") + "\n";
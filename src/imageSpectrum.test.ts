@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { lumaSpectrum, makeDft, radialPowerSpectrum } from "./imageSpectrum";
+import { mulberry32 } from "./seededMath";
+
+// X_k = Σ_j x_j e^{−2πijk/n}, straight from the definition
+const naiveDft = (re: ArrayLike<number>, im: ArrayLike<number>) => {
+  const n = re.length;
+  const outRe = new Float64Array(n);
+  const outIm = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    for (let j = 0; j < n; j++) {
+      const ang = (-2 * Math.PI * j * k) / n;
+      outRe[k] += re[j] * Math.cos(ang) - im[j] * Math.sin(ang);
+      outIm[k] += re[j] * Math.sin(ang) + im[j] * Math.cos(ang);
+    }
+  }
+  return { re: outRe, im: outIm };
+};
+
+const randomSignal = (n: number, seed: number) => {
+  const rng = mulberry32(seed);
+  return {
+    re: Float64Array.from({ length: n }, () => rng() * 2 - 1),
+    im: Float64Array.from({ length: n }, () => rng() * 2 - 1),
+  };
+};
+
+// grey s × s RGB buffer with luma f(x, y)
+const greyImage = (s: number, f: (x: number, y: number) => number) => {
+  const px = new Float32Array(s * s * 3);
+  for (let y = 0; y < s; y++) {
+    for (let x = 0; x < s; x++) px.fill(f(x, y), (y * s + x) * 3, (y * s + x) * 3 + 3);
+  }
+  return px;
+};
+
+describe("makeDft", () => {
+  // 8: radix-2, 12: Bluestein
+  it.each([8, 12])("matches the O(n²) DFT for n = %i", (n) => {
+    const x = randomSignal(n, 100 + n);
+    const expected = naiveDft(x.re, x.im);
+    const re = Float64Array.from(x.re);
+    const im = Float64Array.from(x.im);
+    makeDft(n)(re, im);
+    for (let k = 0; k < n; k++) {
+      expect(re[k]).toBeCloseTo(expected.re[k], 10);
+      expect(im[k]).toBeCloseTo(expected.im[k], 10);
+    }
+  });
+});
+
+describe("spectra", () => {
+  it.each([8, 12])("lumaSpectrum keeps the energy (Parseval) for s = %i", (s) => {
+    const rng = mulberry32(7 * s);
+    const px = greyImage(s, () => rng());
+    const { re, im } = lumaSpectrum(px, s);
+    let spatial = 0;
+    let spectral = 0;
+    for (let i = 0; i < s * s; i++) {
+      spatial += px[3 * i] * px[3 * i];
+      spectral += (re[i] * re[i] + im[i] * im[i]) / (s * s);
+    }
+    expect(spectral).toBeCloseTo(spatial, 9);
+  });
+
+  it.each([8, 12])("radialPowerSpectrum bins × their sizes add up to the energy for s = %i", (s) => {
+    // only frequencies with radius ≤ 2, so nothing falls past Nyquist
+    const f = (x: number, y: number) =>
+      0.25 + Math.cos((2 * Math.PI * x) / s) + 0.5 * Math.cos((2 * Math.PI * 2 * y) / s + 0.3);
+    const px = greyImage(s, f);
+    const power = radialPowerSpectrum(lumaSpectrum(px, s), s);
+    const sizes = new Array(power.length).fill(0);
+    for (let y = 0; y < s; y++) {
+      for (let x = 0; x < s; x++) {
+        const fx = x <= s / 2 ? x : x - s;
+        const fy = y <= s / 2 ? y : y - s;
+        const r = Math.round(Math.hypot(fx, fy));
+        if (r < sizes.length) sizes[r]++;
+      }
+    }
+    let energy = 0;
+    for (let i = 0; i < s * s; i++) energy += px[3 * i] * px[3 * i];
+    expect(power.reduce((acc, p, r) => acc + p * sizes[r], 0)).toBeCloseTo(energy, 9);
+  });
+});
@@ -0,0 +1,163 @@
+// 2D Fourier analysis of the image diffusion scenes' working buffers
+// (flat RGB Float32Arrays, s·s·3). Transforms are exact DFTs for any side:
+// radix-2 for powers of two, Bluestein's chirp-z otherwise.
+//
+// Since x_t = a·x₀ + b·ε is linear, the scenes transform x₀ and ε once and
+// combine the spectra per frame instead of transforming x_t.
+
+export type Spectrum = { re: Float64Array; im: Float64Array };
+
+const isPow2 = (n: number) => n > 0 && (n & (n - 1)) === 0;
+
+// In-place iterative radix-2 FFT; `inverse` flips the twiddle sign (no 1/n).
+const fftPow2 = (re: Float64Array, im: Float64Array, inverse = false) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = ((inverse ? 2 : -2) * Math.PI) / len;
+    const wr = Math.cos(ang);
+    const wi = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1;
+      let ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const xr = re[b] * cr - im[b] * ci;
+        const xi = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - xr; im[b] = im[a] - xi;
+        re[a] += xr; im[a] += xi;
+        const nr = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = nr;
+      }
+    }
+  }
+};
+
+/**
+ * A reusable in-place forward DFT of length n. Non-power-of-two lengths go
+ * through Bluestein: a chirp-weighted convolution done with power-of-two FFTs.
+ */
+export const makeDft = (n: number): ((re: Float64Array, im: Float64Array) => void) => {
+  if (isPow2(n)) return (re, im) => fftPow2(re, im);
+
+  let m = 1;
+  while (m < 2 * n - 1) m <<= 1;
+  // chirp w_k = exp(−iπk²/n); k² mod 2n keeps the angle small for large k
+  const wr = new Float64Array(n);
+  const wi = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    const ang = (-Math.PI * ((k * k) % (2 * n))) / n;
+    wr[k] = Math.cos(ang);
+    wi[k] = Math.sin(ang);
+  }
+  // FFT of the conjugate chirp laid out for a circular convolution
+  const br = new Float64Array(m);
+  const bi = new Float64Array(m);
+  for (let k = 0; k < n; k++) {
+    br[k] = wr[k]; bi[k] = -wi[k];
+    if (k > 0) { br[m - k] = wr[k]; bi[m - k] = -wi[k]; }
+  }
+  fftPow2(br, bi);
+  const ar = new Float64Array(m);
+  const ai = new Float64Array(m);
+
+  return (re, im) => {
+    ar.fill(0);
+    ai.fill(0);
+    for (let k = 0; k < n; k++) {
+      ar[k] = re[k] * wr[k] - im[k] * wi[k];
+      ai[k] = re[k] * wi[k] + im[k] * wr[k];
+    }
+    fftPow2(ar, ai);
+    for (let k = 0; k < m; k++) {
+      const r = ar[k] * br[k] - ai[k] * bi[k];
+      ai[k] = ar[k] * bi[k] + ai[k] * br[k];
+      ar[k] = r;
+    }
+    fftPow2(ar, ai, true);
+    for (let k = 0; k < n; k++) {
+      const cr = ar[k] / m;
+      const ci = ai[k] / m;
+      re[k] = cr * wr[k] - ci * wi[k];
+      im[k] = cr * wi[k] + ci * wr[k];
+    }
+  };
+};
+
+/** 2D DFT of the luma (mean of R, G, B) of an s × s RGB buffer, row-major. */
+export const lumaSpectrum = (px: ArrayLike<number>, s: number): Spectrum => {
+  const re = new Float64Array(s * s);
+  const im = new Float64Array(s * s);
+  for (let i = 0; i < s * s; i++) re[i] = (px[3 * i] + px[3 * i + 1] + px[3 * i + 2]) / 3;
+
+  const dft = makeDft(s);
+  const lr = new Float64Array(s);
+  const li = new Float64Array(s);
+  for (let pass = 0; pass < 2; pass++) {
+    // pass 0: rows, pass 1: columns
+    for (let a = 0; a < s; a++) {
+      for (let b = 0; b < s; b++) {
+        const i = pass === 0 ? a * s + b : b * s + a;
+        lr[b] = re[i]; li[b] = im[i];
+      }
+      dft(lr, li);
+      for (let b = 0; b < s; b++) {
+        const i = pass === 0 ? a * s + b : b * s + a;
+        re[i] = lr[b]; im[i] = li[b];
+      }
+    }
+  }
+  return { re, im };
+};
+
+/**
+ * Radially averaged power |F|² / s² per integer frequency radius r = 0…⌊s/2⌋
+ * (r / s cycles per pixel). Corners beyond the Nyquist circle are dropped.
+ */
+export const radialPowerSpectrum = ({ re, im }: Spectrum, s: number) => {
+  const rMax = Math.floor(s / 2);
+  const sum = new Float64Array(rMax + 1);
+  const count = new Float64Array(rMax + 1);
+  const norm = 1 / (s * s);
+  for (let y = 0; y < s; y++) {
+    const fy = y <= s / 2 ? y : y - s;
+    for (let x = 0; x < s; x++) {
+      const fx = x <= s / 2 ? x : x - s;
+      const r = Math.round(Math.sqrt(fx * fx + fy * fy));
+      if (r > rMax) continue;
+      const i = y * s + x;
+      sum[r] += (re[i] * re[i] + im[i] * im[i]) * norm;
+      count[r]++;
+    }
+  }
+  return Array.from(sum, (v, r) => v / Math.max(1, count[r]));
+};
+
+/**
+ * log10 |a·X + b·E| / s for every frequency, re-ordered so the zero frequency
+ * sits in the centre (fftshift), as the panels display it.
+ */
+export const logMagnitudeShifted = (X: Spectrum, E: Spectrum, a: number, b: number, s: number) => {
+  const out = new Float32Array(s * s);
+  const h = Math.floor(s / 2);
+  for (let y = 0; y < s; y++) {
+    const sy = (y + h) % s;
+    for (let x = 0; x < s; x++) {
+      const i = y * s + x;
+      const r = a * X.re[i] + b * E.re[i];
+      const m = a * X.im[i] + b * E.im[i];
+      out[sy * s + ((x + h) % s)] = 0.5 * Math.log10(Math.max(1e-30, r * r + m * m)) - Math.log10(s);
+    }
+  }
+  return out;
+};
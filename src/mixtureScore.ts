@@ -0,0 +1,260 @@
+// Exact scores for "oracle" reverse diffusion. The target data is treated as
+// a kernel mixture q₀(x) = 1/M Σ N(x; c_j, σ₀² I), so every noised marginal
+// q_t(x) = 1/M Σ N(x; √ᾱ c_j, (ᾱσ₀² + 1 − ᾱ) I) stays a Gaussian mixture and
+// its score ∇log q_t is available in closed form — no learned model needed.
+//
+// Points are stored flat: N points of dimension D live in a Float32Array of
+// length N·D (x, y, x, y, … for 2D).
+
+import { randn } from "./seededMath";
+
+export type KernelMixture = {
+  D: number;
+  /** M·D kernel centers */
+  centers: Float32Array;
+  /** σ₀ of every kernel */
+  std: number;
+};
+
+/**
+ * Builds a kernel mixture from per-axis coordinate arrays ([xs] or [xs, ys]),
+ * keeping at most `maxCenters` evenly strided centers so the O(N·M) score
+ * stays cheap enough to run inside a composition.
+ */
+export const makeKernelMixture = (
+  coords: ArrayLike<number>[],
+  std: number,
+  maxCenters = 400
+): KernelMixture => {
+  const D = coords.length;
+  const n = coords[0]?.length ?? 0;
+  const stride = Math.max(1, Math.ceil(n / maxCenters));
+  const M = Math.ceil(n / stride);
+  const centers = new Float32Array(M * D);
+  for (let j = 0, i = 0; i < n; i += stride, j++) {
+    for (let d = 0; d < D; d++) centers[j * D + d] = coords[d][i];
+  }
+  return { D, centers, std: Math.max(1e-3, std) };
+};
+
+/**
+ * ε̂(x; ᾱ) = −√(1−ᾱ) ∇log q_ᾱ(x) for the point at x[xOff … xOff+D),
+ * written to out[outOff … outOff+D). Uses log-sum-exp for the weights.
+ */
+export const mixtureEps = (
+  mix: KernelMixture,
+  ab: number,
+  x: ArrayLike<number>,
+  xOff: number,
+  out: Float32Array,
+  outOff: number
+) => {
+  const { D, centers } = mix;
+  const M = centers.length / D;
+  const s = Math.sqrt(Math.max(0, ab));
+  const v = Math.max(1e-8, ab * mix.std * mix.std + 1 - ab);
+
+  // log-weights up to a constant: −|x − √ᾱ c_j|² / 2v
+  let maxLog = -Infinity;
+  const logw = new Float64Array(M);
+  for (let j = 0; j < M; j++) {
+    let d2 = 0;
+    for (let d = 0; d < D; d++) {
+      const diff = x[xOff + d] - s * centers[j * D + d];
+      d2 += diff * diff;
+    }
+    logw[j] = -d2 / (2 * v);
+    if (logw[j] > maxLog) maxLog = logw[j];
+  }
+
+  // posterior-weighted mean of √ᾱ c_j
+  let wsum = 0;
+  const mean = new Float64Array(D);
+  for (let j = 0; j < M; j++) {
+    const w = Math.exp(logw[j] - maxLog);
+    wsum += w;
+    for (let d = 0; d < D; d++) mean[d] += w * s * centers[j * D + d];
+  }
+
+  // score = (E[√ᾱ c] − x) / v  →  ε̂ = −√(1−ᾱ) · score
+  const k = Math.sqrt(Math.max(0, 1 - ab));
+  for (let d = 0; d < D; d++) {
+    const score = (mean[d] / wsum - x[xOff + d]) / v;
+    out[outOff + d] = -k * score;
+  }
+};
+
+/** Score ∇log q_ᾱ(x) at a single point (convenience for grids/overlays). */
+export const mixtureScore = (mix: KernelMixture, ab: number, x: ArrayLike<number>) => {
+  const eps = new Float32Array(mix.D);
+  mixtureEps(mix, ab, x, 0, eps, 0);
+  const k = Math.sqrt(Math.max(1e-8, 1 - ab));
+  for (let d = 0; d < mix.D; d++) eps[d] = -eps[d] / k;
+  return eps;
+};
+
+/**
+ * A noise predictor for the samplers: ε̂ for particle `i` at x[xOff … xOff+D),
+ * written to out[outOff … outOff+D). The index lets a model condition each
+ * particle differently (e.g. on its class).
+ */
+export type EpsModel = (
+  ab: number,
+  x: ArrayLike<number>,
+  xOff: number,
+  out: Float32Array,
+  outOff: number,
+  i: number
+) => void;
+
+/** The exact ε̂ of a kernel mixture as an EpsModel. */
+export const mixtureModel = (mix: KernelMixture): EpsModel => (ab, x, xOff, out, outOff) =>
+  mixtureEps(mix, ab, x, xOff, out, outOff);
+
+/**
+ * Classifier-free guidance with exact scores: particle i is steered towards
+ * class labels[i] by
+ *
+ *   ε̃ = ε̂(x) + γ (ε̂(x | c) − ε̂(x)),
+ *
+ * so γ = 0 is unconditional, γ = 1 the exact conditional, γ > 1 over-guided
+ * (equivalent to sampling ∝ q(x) q(c | x)^γ along the way).
+ */
+export const guidedModel = (
+  uncond: KernelMixture,
+  conds: KernelMixture[],
+  labels: ArrayLike<number>,
+  scale: number
+): EpsModel => {
+  const eu = new Float32Array(uncond.D);
+  const ec = new Float32Array(uncond.D);
+  return (ab, x, xOff, out, outOff, i) => {
+    mixtureEps(uncond, ab, x, xOff, eu, 0);
+    mixtureEps(conds[labels[i]], ab, x, xOff, ec, 0);
+    for (let d = 0; d < uncond.D; d++) out[outOff + d] = eu[d] + scale * (ec[d] - eu[d]);
+  };
+};
+
+/**
+ * S sampling timesteps (indices into the training schedule), evenly spaced
+ * and descending from T−1 to 0. S < T skips steps.
+ */
+export const samplingTimesteps = (T: number, S: number) => {
+  const n = Math.max(1, Math.min(T, Math.round(S)));
+  if (n === 1) return [T - 1];
+  const out: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const t = Math.round(((T - 1) * (n - 1 - i)) / (n - 1));
+    if (out.length === 0 || t < out[out.length - 1]) out.push(t);
+  }
+  return out;
+};
+
+/**
+ * - ddpm:  ancestral DDPM (= DDIM with η = 1; on the full schedule σ_t² = β̃_t)
+ * - ddim:  DDIM with the given η (η = 0 is deterministic)
+ * - euler: probability-flow ODE, Euler steps in ℓ = log ᾱ
+ * - heun:  same ODE, Heun (2nd order) steps
+ */
+export type ReverseSampler = "ddpm" | "ddim" | "euler" | "heun";
+
+export const isDeterministicSampler = (sampler: ReverseSampler, eta = 0) =>
+  sampler === "euler" || sampler === "heun" || (sampler === "ddim" && eta === 0);
+
+type ReverseOptions = {
+  sampler: ReverseSampler;
+  /** descending training timesteps, see samplingTimesteps */
+  taus: number[];
+  /** DDIM stochasticity, 0 … 1 */
+  eta?: number;
+  /** false: return only [x_0], without holding the S earlier snapshots */
+  keepSnapshots?: boolean;
+};
+
+/**
+ * Reverse diffusion from fresh N(0, I) noise with the exact mixture score.
+ * Returns S+1 snapshots ordered along the reverse process:
+ * states[0] = x_T, …, states[S] = x_0.
+ */
+export const sampleReverse = (
+  mix: KernelMixture,
+  alphaBar: ArrayLike<number>,
+  N: number,
+  rng: () => number,
+  opts: ReverseOptions
+) => sampleReverseWith(mixtureModel(mix), mix.D, alphaBar, N, rng, opts);
+
+/**
+ * sampleReverse for any D-dimensional EpsModel:
+ *
+ *   DDIM:  x' = √ᾱ' x̂₀ + √(1−ᾱ'−σ²) ε̂ + σ z,  x̂₀ = (x − √(1−ᾱ) ε̂)/√ᾱ
+ *   ODE:   dx/dℓ = ½ (x − ε̂/√(1−ᾱ)),  ℓ = log ᾱ
+ */
+export const sampleReverseWith = (
+  model: EpsModel,
+  D: number,
+  alphaBar: ArrayLike<number>,
+  N: number,
+  rng: () => number,
+  { sampler, taus, eta = 0, keepSnapshots = true }: ReverseOptions
+) => {
+  const states: Float32Array[] = [];
+
+  let x = new Float32Array(N * D);
+  for (let i = 0; i < x.length; i++) x[i] = randn(rng);
+  if (keepSnapshots) states.push(x);
+
+  const e1 = new Float32Array(D);
+  const e2 = new Float32Array(D);
+  const tmp = new Float32Array(D);
+  const etaEff = sampler === "ddpm" ? 1 : Math.max(0, Math.min(1, eta));
+
+  for (let s = 0; s < taus.length; s++) {
+    const t = taus[s];
+    const tPrev = s + 1 < taus.length ? taus[s + 1] : -1;
+    const ab = alphaBar[t];
+    const abPrev = tPrev >= 0 ? alphaBar[tPrev] : 1;
+    const sq = Math.sqrt(Math.max(1e-12, 1 - ab));
+
+    const next = new Float32Array(N * D);
+    if (sampler === "ddpm" || sampler === "ddim") {
+      const sigma =
+        etaEff *
+        Math.sqrt(Math.max(0, (1 - abPrev) / Math.max(1e-12, 1 - ab))) *
+        Math.sqrt(Math.max(0, 1 - ab / abPrev));
+      const dirCoef = Math.sqrt(Math.max(0, 1 - abPrev - sigma * sigma));
+      for (let i = 0; i < N; i++) {
+        model(ab, x, i * D, e1, 0, i);
+        for (let d = 0; d < D; d++) {
+          const x0hat = (x[i * D + d] - sq * e1[d]) / Math.sqrt(ab);
+          next[i * D + d] =
+            Math.sqrt(abPrev) * x0hat + dirCoef * e1[d] + (sigma > 0 ? sigma * randn(rng) : 0);
+        }
+      }
+    } else {
+      const dl = Math.log(abPrev) - Math.log(ab);
+      const sqPrev = Math.sqrt(Math.max(1e-12, 1 - abPrev));
+      for (let i = 0; i < N; i++) {
+        model(ab, x, i * D, e1, 0, i);
+        for (let d = 0; d < D; d++) {
+          const d1 = 0.5 * (x[i * D + d] - e1[d] / sq);
+          tmp[d] = x[i * D + d] + dl * d1;
+          e1[d] = d1;
+        }
+        if (sampler === "heun" && abPrev < 1) {
+          // corrector: average the slopes at both ends
+          model(abPrev, tmp, 0, e2, 0, i);
+          for (let d = 0; d < D; d++) {
+            const d2 = 0.5 * (tmp[d] - e2[d] / sqPrev);
+            next[i * D + d] = x[i * D + d] + dl * 0.5 * (e1[d] + d2);
+          }
+        } else {
+          for (let d = 0; d < D; d++) next[i * D + d] = tmp[d];
+        }
+      }
+    }
+    x = next;
+    if (keepSnapshots) states.push(x);
+  }
+  return keepSnapshots ? states : [x];
+};
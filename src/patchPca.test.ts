@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { decodePatches, encodePatches, fitPatchPca, symmetricEigen } from "./patchPca";
+import { mulberry32 } from "./seededMath";
+
+const randomImage = (s: number, rng: () => number) => Float32Array.from({ length: s * s * 3 }, () => rng());
+
+describe("symmetricEigen", () => {
+  it("returns orthonormal eigenpairs A·v = λ·v, largest first", () => {
+    const n = 4;
+    // diagonally dominant, so positive definite like a covariance (λ are clamped at 0)
+    const A = Float64Array.from([
+      4, 1, -1, 0.5,
+      1, 3, 0, 0.2,
+      -1, 0, 2, -0.3,
+      0.5, 0.2, -0.3, 1,
+    ]);
+    const { values, vectors } = symmetricEigen(Float64Array.from(A), n);
+    for (let j = 0; j < n; j++) {
+      if (j > 0) expect(values[j]).toBeLessThanOrEqual(values[j - 1]);
+      const v = vectors[j];
+      for (let i = 0; i < n; i++) {
+        let Av = 0;
+        for (let k = 0; k < n; k++) Av += A[i * n + k] * v[k];
+        expect(Av).toBeCloseTo(values[j] * v[i], 10);
+      }
+      for (let m = 0; m < n; m++) {
+        const dot = v.reduce((acc, x, i) => acc + x * vectors[m][i], 0);
+        expect(dot).toBeCloseTo(m === j ? 1 : 0, 10);
+      }
+    }
+  });
+});
+
+describe("patch codec", () => {
+  it("decode(encode(x)) reproduces x when every component is kept", () => {
+    const rng = mulberry32(0x9ca);
+    const patch = 2;
+    const pca = fitPatchPca([{ px: randomImage(16, rng), side: 16 }], patch, 1);
+    const s = 8;
+    const x = randomImage(s, rng);
+    const y = decodePatches(pca, pca.dim, encodePatches(pca, pca.dim, x, s), s);
+    x.forEach((v, i) => expect(y[i]).toBeCloseTo(v, 5));
+  });
+});
@@ -0,0 +1,202 @@
+// A toy linear "autoencoder" for latent diffusion: PCA on p × p RGB patches.
+//
+//   encode  z_j = u_jᵀ (patch − μ) / √λ_j      for the top k components
+//   decode  patch = μ + Σ_j √λ_j z_j u_j
+//
+// Whitening by √λ_j gives every latent coordinate unit variance over the
+// training patches (the role of Stable Diffusion's latent scale factor), so
+// z_t = √ᾱ z₀ + √(1−ᾱ) ε mixes signal and noise in the same proportions as
+// the pixel-space scenes. Images are flat RGB Float32Arrays (s·s·3, [0, 1]).
+
+export type PatchPca = {
+  /** patch side in pixels */
+  patch: number;
+  /** p·p·3 */
+  dim: number;
+  mean: Float64Array;
+  /** all `dim` eigenvectors, by decreasing variance */
+  components: Float64Array[];
+  /** their variances λ_j */
+  variances: number[];
+};
+
+// index of channel c at (x, y) inside a patch vector
+const patchIndex = (p: number, x: number, y: number, c: number) => (y * p + x) * 3 + c;
+
+/**
+ * Eigen-decomposition of a symmetric n × n matrix (row-major, destroyed) by
+ * cyclic Jacobi rotations, sorted by decreasing eigenvalue.
+ */
+export const symmetricEigen = (A: Float64Array, n: number) => {
+  const V = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) V[i * n + i] = 1;
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += A[p * n + q] * A[p * n + q];
+    if (off < 1e-22) break;
+
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = A[p * n + q];
+        if (Math.abs(apq) < 1e-300) continue;
+        const theta = (A[q * n + q] - A[p * n + p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = A[k * n + p];
+          const akq = A[k * n + q];
+          A[k * n + p] = c * akp - s * akq;
+          A[k * n + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = A[p * n + k];
+          const aqk = A[q * n + k];
+          A[p * n + k] = c * apk - s * aqk;
+          A[q * n + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = V[k * n + p];
+          const vkq = V[k * n + q];
+          V[k * n + p] = c * vkp - s * vkq;
+          V[k * n + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => A[j * n + j] - A[i * n + i]);
+  return {
+    values: order.map((i) => Math.max(0, A[i * n + i])),
+    vectors: order.map((i) => Float64Array.from({ length: n }, (_, k) => V[k * n + i])),
+  };
+};
+
+/**
+ * Fits the patch PCA on every `stride`-th p × p patch of the given images
+ * (each `side` × `side`).
+ */
+export const fitPatchPca = (
+  images: Array<{ px: Float32Array; side: number }>,
+  patch = 8,
+  stride = 4
+): PatchPca => {
+  const dim = patch * patch * 3;
+  const mean = new Float64Array(dim);
+  const cov = new Float64Array(dim * dim);
+  const v = new Float64Array(dim);
+  let count = 0;
+
+  const eachPatch = (fn: (v: Float64Array) => void) => {
+    for (const { px, side } of images) {
+      for (let y0 = 0; y0 + patch <= side; y0 += stride) {
+        for (let x0 = 0; x0 + patch <= side; x0 += stride) {
+          for (let y = 0; y < patch; y++) {
+            for (let x = 0; x < patch; x++) {
+              const src = ((y0 + y) * side + x0 + x) * 3;
+              for (let c = 0; c < 3; c++) v[patchIndex(patch, x, y, c)] = px[src + c];
+            }
+          }
+          fn(v);
+        }
+      }
+    }
+  };
+
+  eachPatch((p) => {
+    for (let i = 0; i < dim; i++) mean[i] += p[i];
+    count++;
+  });
+  if (count === 0) throw new Error(`fitPatchPca: no ${patch}×${patch} patches in the training images`);
+  for (let i = 0; i < dim; i++) mean[i] /= count;
+
+  const d = new Float64Array(dim);
+  eachPatch((p) => {
+    for (let i = 0; i < dim; i++) d[i] = p[i] - mean[i];
+    for (let i = 0; i < dim; i++) {
+      const di = d[i];
+      for (let j = i; j < dim; j++) cov[i * dim + j] += di * d[j];
+    }
+  });
+  for (let i = 0; i < dim; i++) {
+    for (let j = i; j < dim; j++) {
+      cov[i * dim + j] /= count;
+      cov[j * dim + i] = cov[i * dim + j];
+    }
+  }
+
+  const { values, vectors } = symmetricEigen(cov, dim);
+  return { patch, dim, mean, components: vectors, variances: values };
+};
+
+/** Fraction of the training variance kept by the top k components. */
+export const explainedVariance = (pca: PatchPca, k: number) => {
+  const total = pca.variances.reduce((a, b) => a + b, 0);
+  const kept = pca.variances.slice(0, k).reduce((a, b) => a + b, 0);
+  return total > 0 ? kept / total : 0;
+};
+
+/**
+ * Whitened k-dim latents of the non-overlapping patches of an s × s image
+ * (s a multiple of the patch side), patch-major: z[(py·n + px)·k + j].
+ */
+export const encodePatches = (pca: PatchPca, k: number, px: Float32Array, s: number) => {
+  const { patch, dim, mean, components, variances } = pca;
+  const n = s / patch;
+  const z = new Float32Array(n * n * k);
+  const v = new Float64Array(dim);
+  for (let py = 0; py < n; py++) {
+    for (let pxi = 0; pxi < n; pxi++) {
+      for (let y = 0; y < patch; y++) {
+        for (let x = 0; x < patch; x++) {
+          const src = ((py * patch + y) * s + pxi * patch + x) * 3;
+          for (let c = 0; c < 3; c++) {
+            const i = patchIndex(patch, x, y, c);
+            v[i] = px[src + c] - mean[i];
+          }
+        }
+      }
+      const base = (py * n + pxi) * k;
+      for (let j = 0; j < k; j++) {
+        const u = components[j];
+        let acc = 0;
+        for (let i = 0; i < dim; i++) acc += u[i] * v[i];
+        z[base + j] = acc / Math.sqrt(Math.max(1e-12, variances[j]));
+      }
+    }
+  }
+  return z;
+};
+
+/** Inverse of encodePatches (into `out` when given): an s × s RGB image, unclipped. */
+export const decodePatches = (
+  pca: PatchPca,
+  k: number,
+  z: ArrayLike<number>,
+  s: number,
+  out = new Float32Array(s * s * 3)
+) => {
+  const { patch, dim, mean, components, variances } = pca;
+  const n = s / patch;
+  const v = new Float64Array(dim);
+  const scale = variances.slice(0, k).map((l) => Math.sqrt(l));
+  for (let py = 0; py < n; py++) {
+    for (let pxi = 0; pxi < n; pxi++) {
+      v.set(mean);
+      const base = (py * n + pxi) * k;
+      for (let j = 0; j < k; j++) {
+        const w = z[base + j] * scale[j];
+        const u = components[j];
+        for (let i = 0; i < dim; i++) v[i] += w * u[i];
+      }
+      for (let y = 0; y < patch; y++) {
+        for (let x = 0; x < patch; x++) {
+          const dst = ((py * patch + y) * s + pxi * patch + x) * 3;
+          for (let c = 0; c < 3; c++) out[dst + c] = v[patchIndex(patch, x, y, c)];
+        }
+      }
+    }
+  }
+  return out;
+};
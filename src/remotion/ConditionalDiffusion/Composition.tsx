@@ -0,0 +1,309 @@
+import React, { useMemo } from "react";
+import { useCurrentFrame, useVideoConfig, interpolate, CalculateMetadataFunction } from "remotion";
+import { checkNumber, checkOneOf, checkStepTimeline } from "../propChecks";
+import {
+  alphaBarFromBetas, LABELED_MIXTURES, LabeledDist2D, LabeledMixture, makeBetasLinear, makeRng, sampleLabeled2D,
+} from "../../seededMath";
+import {
+  guidedModel, KernelMixture, ReverseSampler, sampleReverseWith, samplingTimesteps,
+} from "../../mixtureScore";
+
+export type ConditionalDiffusionProps = {
+  dataset: LabeledDist2D;
+  /** CFG scale γ: 0 = unconditional, 1 = exact conditional, > 1 over-guided */
+  guidance: number;
+  steps: number;
+  n: number;
+  /** generate this class only; null / omitted = every class in equal shares */
+  targetClass?: number | null;
+  sampler?: ReverseSampler;        // default "ddpm"
+  /** γ of the final-sample small multiples, 1 … 4 values */
+  compareScales?: number[];        // default [0, 1, 3, 8]
+  showData?: boolean;
+  seed?: number;
+  mode?: "light" | "dark";
+  framesPerStep?: number;          // default 6
+  tailHoldFrames?: number;         // default 120
+};
+
+export const LABELED_DATASETS = Object.keys(LABELED_MIXTURES) as LabeledDist2D[];
+
+export const CLASS_COLORS = [
+  "#ff6b6b", "#ffd166", "#51cf66", "#4dabf7", "#b197fc", "#f783ac", "#63e6be", "#ffa94d",
+];
+
+const SAMPLERS: ReverseSampler[] = ["ddpm", "ddim", "euler", "heun"];
+
+// the labeled mixture as exact-score kernel mixtures: all components, then one per class
+const classMixtures = ({ means, labels, classes, std }: LabeledMixture) => {
+  const mix = (keep: (j: number) => boolean): KernelMixture => {
+    const ids = means.map((_, j) => j).filter(keep);
+    const centers = new Float32Array(ids.length * 2);
+    ids.forEach((j, k) => {
+      centers[2 * k] = means[j][0];
+      centers[2 * k + 1] = means[j][1];
+    });
+    return { D: 2, centers, std };
+  };
+  return {
+    uncond: mix(() => true),
+    conds: Array.from({ length: classes }, (_, c) => mix((j) => labels[j] === c)),
+  };
+};
+
+/**
+ * spread: RMS distance of each sample to the nearest mode of its own class, in
+ * units of σ₀ (1 = the data's own spread, < 1 sharpened).
+ * onClass: share of samples whose nearest mode overall belongs to their class.
+ */
+const classStats = (x: Float32Array, labels: ArrayLike<number>, m: LabeledMixture) => {
+  let sq = 0;
+  let hits = 0;
+  const N = labels.length;
+  for (let i = 0; i < N; i++) {
+    let bestOwn = Infinity;
+    let bestAll = Infinity;
+    let bestLabel = -1;
+    m.means.forEach(([mx, my], j) => {
+      const d2 = (x[2 * i] - mx) ** 2 + (x[2 * i + 1] - my) ** 2;
+      if (m.labels[j] === labels[i] && d2 < bestOwn) bestOwn = d2;
+      if (d2 < bestAll) {
+        bestAll = d2;
+        bestLabel = m.labels[j];
+      }
+    });
+    sq += bestOwn;
+    if (bestLabel === labels[i]) hits++;
+  }
+  // E‖x − μ‖² = 2σ₀² for an isotropic 2D Gaussian
+  return {
+    spread: Math.sqrt(sq / Math.max(1, N) / 2) / m.std,
+    onClass: hits / Math.max(1, N),
+  };
+};
+
+type GuidedRun = {
+  uncond: KernelMixture;
+  conds: KernelMixture[];
+  labels: ArrayLike<number>;
+  alphaBar: ArrayLike<number>;
+  sampler: ReverseSampler;
+  taus: number[];
+  seed: number;
+};
+
+// every γ starts from the same x_T, so runs differ only by guidance;
+// `keepSnapshots` false returns just [x_0]
+const sampleGuided = (
+  { uncond, conds, labels, alphaBar, sampler, taus, seed }: GuidedRun,
+  scale: number,
+  keepSnapshots = true
+) =>
+  sampleReverseWith(guidedModel(uncond, conds, labels, scale), 2, alphaBar, labels.length, makeRng(seed).fork(0xcf6), {
+    sampler,
+    taus,
+    keepSnapshots,
+  });
+
+/* timeline length: steps * framesPerStep + end hold */
+export const getConditionalDiffusionDuration = ({
+  steps,
+  framesPerStep = 6,
+  tailHoldFrames = 120,
+}: ConditionalDiffusionProps) => Math.max(1, steps * framesPerStep + Math.max(0, tailHoldFrames));
+
+export const calculateConditionalDiffusionMetadata: CalculateMetadataFunction<ConditionalDiffusionProps> = ({
+  props,
+  compositionId,
+}) => {
+  checkOneOf(compositionId, props, "dataset", LABELED_DATASETS);
+  checkNumber(compositionId, props, "guidance", { min: 0, max: 20 });
+  checkStepTimeline(compositionId, props);
+  checkNumber(compositionId, props, "n", { min: 1, max: 5000, integer: true });
+  const classes = LABELED_MIXTURES[props.dataset].classes;
+  if (props.targetClass !== null && props.targetClass !== undefined) {
+    checkNumber(compositionId, props, "targetClass", { min: 0, max: classes - 1, integer: true });
+  }
+  checkOneOf(compositionId, props, "sampler", SAMPLERS, true);
+  const scales = props.compareScales;
+  if (scales !== undefined) {
+    if (!Array.isArray(scales) || scales.length < 1 || scales.length > 4) {
+      throw new Error(`${compositionId}: "compareScales" must be an array of 1 to 4 numbers, got ${JSON.stringify(scales)}`);
+    }
+    if (scales.some((g) => typeof g !== "number" || !Number.isFinite(g) || g < 0 || g > 20)) {
+      throw new Error(`${compositionId}: "compareScales" entries must be numbers in [0, 20], got ${JSON.stringify(scales)}`);
+    }
+  }
+  checkNumber(compositionId, props, "seed", { min: 0, max: 2 ** 32 - 1, integer: true, optional: true });
+  return { durationInFrames: getConditionalDiffusionDuration(props) };
+};
+
+export const ConditionalDiffusionComposition: React.FC<ConditionalDiffusionProps> = ({
+  dataset,
+  guidance,
+  steps,
+  n,
+  targetClass = null,
+  sampler = "ddpm",
+  compareScales = [0, 1, 3, 8],
+  showData = true,
+  seed = 2024,
+  mode = "dark",
+  framesPerStep = 6,
+  tailHoldFrames = 120,
+}) => {
+  const frame = useCurrentFrame();
+  const { width, height } = useVideoConfig();
+
+  const P =
+    mode === "light"
+      ? { bg:"#fff", frame:"#e8ecf2", grid:"#d9e1ec", label:"#0b1324", axes:"#1f2937", ghost:"#94a3b8" }
+      : { bg:"#000", frame:"#243145", grid:"#2b3a51", label:"#dfe9f5", axes:"#aac0d4", ghost:"#6b7d97" };
+
+  const mixture = LABELED_MIXTURES[dataset];
+  const { uncond, conds } = useMemo(() => classMixtures(mixture), [mixture]);
+
+  // data for the backdrop, and the class each generated particle is asked for
+  const data = useMemo(() => sampleLabeled2D(800, dataset, makeRng(seed).fork(0xda7a)), [dataset, seed]);
+  const labels = useMemo(
+    () => Uint8Array.from({ length: n }, (_, i) => (targetClass === null ? i % mixture.classes : targetClass)),
+    [n, targetClass, mixture]
+  );
+
+  const alphaBar = useMemo(() => alphaBarFromBetas(makeBetasLinear(Math.max(2, steps))), [steps]);
+  const taus = useMemo(() => samplingTimesteps(steps, steps), [steps]);
+  const S = taus.length;
+
+  const setup: GuidedRun = useMemo(
+    () => ({ uncond, conds, labels, alphaBar, sampler, taus, seed }),
+    [uncond, conds, labels, alphaBar, sampler, taus, seed]
+  );
+  const states = useMemo(() => sampleGuided(setup, guidance), [setup, guidance]);
+  const scalesKey = compareScales.join(",");
+  const compare = useMemo(
+    () =>
+      scalesKey.split(",").map(Number).map((g) => {
+        // only the endpoint is drawn, so the run keeps no snapshots
+        const [x] = sampleGuided(setup, g, false);
+        return { scale: g, x, stats: classStats(x, labels, mixture) };
+      }),
+    [setup, scalesKey, labels, mixture]
+  );
+
+  // current x_t between reverse snapshots
+  const activeFrames = Math.max(1, steps * framesPerStep);
+  const f = Math.min(frame, activeFrames - 1);
+  const pos = interpolate(f, [0, Math.max(1, activeFrames - 1)], [0, S], {
+    extrapolateLeft: "clamp",
+    extrapolateRight: "clamp",
+  });
+  const stepIdx = Math.min(S - 1, Math.floor(pos));
+  const fr = pos - stepIdx;
+  const a = states[stepIdx];
+  const b = states[stepIdx + 1];
+  const cur = new Float32Array(n * 2);
+  for (let i = 0; i < cur.length; i++) cur[i] = a[i] + (b[i] - a[i]) * fr;
+  const done = pos >= S;
+  const finalStats = useMemo(() => classStats(states[S], labels, mixture), [states, S, labels, mixture]);
+
+  /* Layout: main plot on the left, 2 × 2 small multiples on the right */
+  const mTop = 100, mSide = 64, mBot = 64;
+  const plot = height - mTop - mBot;
+  const right0 = mSide + plot + 56;
+  const cellGap = 24;
+  const cell = Math.min((width - right0 - 32 - cellGap) / 2, (plot - 2 * 34 - cellGap) / 2);
+
+  const lim = 5;
+  const toPx = (x0: number, y0: number, w: number) => (x: number, y: number): [number, number] => [
+    x0 + ((x + lim) / (2 * lim)) * w,
+    y0 + w - ((y + lim) / (2 * lim)) * w,
+  ];
+  const mainPx = toPx(mSide, mTop, plot);
+
+  const dots = (xy: Float32Array, lab: ArrayLike<number>, px: (x: number, y: number) => [number, number], r: number, op: number, key: string) => {
+    const els: JSX.Element[] = [];
+    for (let i = 0; i < lab.length; i++) {
+      const [cx, cy] = px(xy[2 * i], xy[2 * i + 1]);
+      els.push(<circle key={`${key}${i}`} cx={cx} cy={cy} r={r} fill={CLASS_COLORS[lab[i] % CLASS_COLORS.length]} fillOpacity={op} />);
+    }
+    return els;
+  };
+
+  const dataXY = useMemo(() => {
+    const xy = new Float32Array(data.xs.length * 2);
+    for (let i = 0; i < data.xs.length; i++) {
+      xy[2 * i] = data.xs[i];
+      xy[2 * i + 1] = data.ys[i];
+    }
+    return xy;
+  }, [data]);
+
+  const classText = targetClass === null ? `all ${mixture.classes} classes` : `class ${targetClass}`;
+  const sub = `step ${done ? S : stepIdx + 1}/${S} • t=${done ? 0 : taus[stepIdx]} • γ=${guidance} • ${classText}`;
+
+  return (
+    <svg width={width} height={height} style={{ background: P.bg }}>
+      <text x={width / 2} y={38} fill={P.label} fontSize={30} fontWeight={800} textAnchor="middle">
+        Class-conditional diffusion with classifier-free guidance
+      </text>
+      <text x={width / 2} y={66} fill={P.label} fontSize={18} opacity={0.9} textAnchor="middle">
+        {sub}
+      </text>
+
+      {/* Main plot */}
+      <rect x={mSide - 1} y={mTop - 1} width={plot + 2} height={plot + 2} fill={P.bg} stroke={P.frame} />
+      <line x1={mSide} y1={mTop + plot / 2} x2={mSide + plot} y2={mTop + plot / 2} stroke={P.grid} />
+      <line x1={mSide + plot / 2} y1={mTop} x2={mSide + plot / 2} y2={mTop + plot} stroke={P.grid} />
+      {showData && dots(dataXY, data.labels, mainPx, 1.6, 0.22, "d")}
+      {dots(cur, labels, mainPx, 2.4, 0.95, "p")}
+      {[-4, -2, 0, 2, 4].map((v) => {
+        const [px] = mainPx(v, 0);
+        const [, py] = mainPx(0, v);
+        return (
+          <g key={v}>
+            <text x={px} y={mTop + plot + 22} fill={P.label} fontSize={14} textAnchor="middle">{v}</text>
+            <text x={mSide - 10} y={py + 5} fill={P.label} fontSize={14} textAnchor="end">{v}</text>
+          </g>
+        );
+      })}
+      <text x={mSide + plot / 2} y={height - 16} fill={P.label} fontSize={16} textAnchor="middle">
+        {`final: spread ${finalStats.spread.toFixed(2)}·σ₀ • on-class ${(finalStats.onClass * 100).toFixed(0)}%`}
+      </text>
+
+      {/* Class legend */}
+      {Array.from({ length: mixture.classes }, (_, c) => (
+        <g key={c} transform={`translate(${mSide + 10 + c * 44}, ${mTop + 16})`}>
+          <circle cx={0} cy={-4} r={5} fill={CLASS_COLORS[c]} />
+          <text x={9} y={1} fill={P.label} fontSize={13}>{c}</text>
+        </g>
+      ))}
+
+      {/* Final samples vs γ */}
+      <text x={right0} y={mTop - 14} fill={P.label} fontSize={18} fontWeight={700}>
+        Final samples x₀ vs guidance γ (same x_T)
+      </text>
+      {compare.map(({ scale, x, stats }, k) => {
+        const cx0 = right0 + (k % 2) * (cell + cellGap);
+        const cy0 = mTop + Math.floor(k / 2) * (cell + 34 + cellGap);
+        const px = toPx(cx0, cy0, cell);
+        return (
+          <g key={k}>
+            <rect x={cx0 - 1} y={cy0 - 1} width={cell + 2} height={cell + 2} fill="none" stroke={scale === guidance ? P.label : P.frame} />
+            {showData && dots(dataXY, data.labels, px, 1, 0.15, `cd${k}-`)}
+            {dots(x, labels, px, 1.5, 0.9, `c${k}-`)}
+            <text x={cx0} y={cy0 + cell + 18} fill={P.label} fontSize={14} fontWeight={700}>
+              {`γ = ${scale}`}
+            </text>
+            <text x={cx0 + cell} y={cy0 + cell + 18} fill={P.label} fontSize={13} textAnchor="end" opacity={0.85}>
+              {`spread ${stats.spread.toFixed(2)}σ₀ • ${(stats.onClass * 100).toFixed(0)}%`}
+            </text>
+          </g>
+        );
+      })}
+
+      <text x={right0} y={height - 16} fill={P.label} fontSize={14} opacity={0.85}>
+        ε̃ = ε̂(x) + γ (ε̂(x | c) − ε̂(x)), both exact mixture scores
+      </text>
+    </svg>
+  );
+};
@@ -7,35 +7,6 @@ const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
 const easeInOut = (t: number) =>
   t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
 
-/** Simple Gaussian KDE on a fixed grid */
-export const kdeEstimate = (samples: number[], grid: number[]) => {
-  const n = samples.length || 1;
-  let mean = 0;
-  for (let i = 0; i < n; i++) mean += samples[i];
-  mean /= n;
-  let v = 0;
-  for (let i = 0; i < n; i++) {
-    const d = samples[i] - mean;
-    v += d * d;
-  }
-  v /= Math.max(1, n - 1);
-  const std = Math.sqrt(Math.max(1e-6, v));
-  const h = 1.06 * std * Math.pow(n, -1 / 5);
-
-  const inv = 1 / (Math.sqrt(2 * Math.PI) * h * n);
-  const ys = new Array(grid.length).fill(0);
-  for (let j = 0; j < grid.length; j++) {
-    const x = grid[j];
-    let s = 0;
-    for (let i = 0; i < n; i++) {
-      const z = (x - samples[i]) / h;
-      s += Math.exp(-0.5 * z * z);
-    }
-    ys[j] = inv * s;
-  }
-  return ys;
-};
-
 /* ---------- Props ---------- */
 export type DiscreteProps = {
   kind: "discrete";
@@ -0,0 +1,282 @@
+import React, { useMemo } from "react";
+import { useCurrentFrame, useVideoConfig, interpolate, CalculateMetadataFunction } from "remotion";
+import { checkNumber, checkOneOf } from "../propChecks";
+import { Dist2D, DIST2D_IDS, makeRng, sample2D } from "../../seededMath";
+import { DEFAULT_DENOISER_CONFIG, DenoiserConfig, TrainingHistory, TrainingRun } from "../../tinyDenoiser";
+import type { TrainerRequest, TrainerResponse } from "../../denoiserTrainer.worker";
+
+export type DenoiserTrainingProps = {
+  dist2d: Dist2D | "sketch";
+  custom2D?: { xs: number[]; ys: number[] } | null;
+  n?: number;                  // training points, default 2000
+  iterations: number;
+  snapshotEvery?: number;      // default 250
+  logEvery?: number;           // default 25, must divide snapshotEvery
+  sampleCount?: number;        // samples per snapshot, default 400
+  hidden?: number;             // default 64
+  layers?: number;             // hidden layers, default 3
+  seed?: number;
+  /**
+   * Recorded run to animate. The Element streams it in from a Web Worker;
+   * when it is missing (Studio / CLI), calculateMetadata trains one with the
+   * same seed in that worker before the first frame.
+   */
+  history?: TrainingHistory | null;
+  mode?: "light" | "dark";
+  framesPerSnapshot?: number;  // default 90
+  tailHoldFrames?: number;     // default 150
+};
+
+/* data, model config and run settings derived from props (shared with the Element) */
+export const getDenoiserTrainingData = ({ dist2d, custom2D = null, n = 2000, seed = 1234 }: DenoiserTrainingProps) => {
+  if (dist2d === "sketch" && custom2D && custom2D.xs.length) {
+    return { xs: Float32Array.from(custom2D.xs), ys: Float32Array.from(custom2D.ys) };
+  }
+  return sample2D(n, dist2d === "sketch" ? "spiral" : dist2d, makeRng(seed).fork(0xda7a));
+};
+
+export const getDenoiserConfig = ({ hidden = 64, layers = 3, seed = 1234 }: DenoiserTrainingProps): DenoiserConfig => ({
+  ...DEFAULT_DENOISER_CONFIG,
+  hidden,
+  layers,
+  seed,
+});
+
+export const getTrainingRun = ({
+  iterations,
+  snapshotEvery = 250,
+  logEvery = 25,
+  sampleCount = 400,
+}: DenoiserTrainingProps): TrainingRun => ({ iterations, snapshotEvery, logEvery, sampleCount });
+
+/* the full run, trained off the main thread in the Element's worker */
+const trainInWorker = (props: DenoiserTrainingProps, compositionId: string, abortSignal: AbortSignal) =>
+  new Promise<TrainingHistory>((resolve, reject) => {
+    if (typeof Worker === "undefined") {
+      reject(new Error(`${compositionId}: no Web Worker to train in here; pass a recorded "history" prop`));
+      return;
+    }
+    const w = new Worker(new URL("../../denoiserTrainer.worker.ts", import.meta.url), { type: "module" });
+    const finish = () => {
+      w.terminate();
+      abortSignal.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new Error(`${compositionId}: training aborted`));
+    };
+    abortSignal.addEventListener("abort", onAbort);
+    w.onmessage = (e: MessageEvent<TrainerResponse>) => {
+      const msg = e.data;
+      if (msg.type === "error") {
+        finish();
+        reject(new Error(`${compositionId}: training failed: ${msg.message}`));
+      } else if (msg.done) {
+        finish();
+        resolve(msg.history);
+      }
+    };
+    const req: TrainerRequest = {
+      type: "start",
+      data: getDenoiserTrainingData(props),
+      config: getDenoiserConfig(props),
+      run: getTrainingRun(props),
+    };
+    w.postMessage(req);
+  });
+
+/* timeline length: one beat per snapshot chunk + end hold */
+export const getDenoiserTrainingDuration = ({
+  iterations,
+  snapshotEvery = 250,
+  framesPerSnapshot = 90,
+  tailHoldFrames = 150,
+}: DenoiserTrainingProps) =>
+  Math.max(1, Math.ceil(iterations / snapshotEvery) * framesPerSnapshot + Math.max(0, tailHoldFrames));
+
+export const calculateDenoiserTrainingMetadata: CalculateMetadataFunction<DenoiserTrainingProps> = async ({
+  props,
+  compositionId,
+  abortSignal,
+}) => {
+  checkOneOf(compositionId, props, "dist2d", [...DIST2D_IDS, "sketch"]);
+  checkNumber(compositionId, props, "n", { min: 10, max: 20000, integer: true, optional: true });
+  checkNumber(compositionId, props, "iterations", { min: 1, max: 20000, integer: true });
+  checkNumber(compositionId, props, "snapshotEvery", { min: 1, max: 20000, integer: true, optional: true });
+  checkNumber(compositionId, props, "logEvery", { min: 1, max: 20000, integer: true, optional: true });
+  checkNumber(compositionId, props, "sampleCount", { min: 10, max: 5000, integer: true, optional: true });
+  checkNumber(compositionId, props, "hidden", { min: 4, max: 256, integer: true, optional: true });
+  checkNumber(compositionId, props, "layers", { min: 2, max: 3, integer: true, optional: true });
+  checkNumber(compositionId, props, "framesPerSnapshot", { min: 1, max: 600, integer: true, optional: true });
+  checkNumber(compositionId, props, "tailHoldFrames", { min: 0, max: 3600, integer: true, optional: true });
+  const run = getTrainingRun(props);
+  if (run.snapshotEvery % run.logEvery !== 0) {
+    throw new Error(`${compositionId}: "logEvery" (${run.logEvery}) must divide "snapshotEvery" (${run.snapshotEvery})`);
+  }
+
+  const durationInFrames = getDenoiserTrainingDuration(props);
+  if (props.history) return { durationInFrames };
+
+  // deterministic for a given seed, so this matches what the Element recorded
+  const history = await trainInWorker(props, compositionId, abortSignal);
+  return { durationInFrames, props: { ...props, history } };
+};
+
+export const DenoiserTrainingComposition: React.FC<DenoiserTrainingProps> = (props) => {
+  const {
+    dist2d,
+    iterations,
+    history = null,
+    mode = "dark",
+  } = props;
+  const frame = useCurrentFrame();
+  const { width, height } = useVideoConfig();
+
+  const P =
+    mode === "light"
+      ? { bg:"#fff", frame:"#e8ecf2", grid:"#d9e1ec", line:"#0ea5e9", dots:"#f59e0b",
+          target:"#111", label:"#0b1324", axes:"#1f2937", legendBg:"rgba(15,23,42,.06)" }
+      : { bg:"#000", frame:"#243145", grid:"#2b3a51", line:"#67e8f9", dots:"#ffd166",
+          target:"#fff", label:"#dfe9f5", axes:"#aac0d4", legendBg:"rgba(255,255,255,.06)" };
+
+  const F = { titleMain: 30, title: 22, subtitle: 18, ticks: 14, axis: 18 };
+
+  // ghost target points
+  const data = useMemo(
+    () => getDenoiserTrainingData(props),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [props.dist2d, props.custom2D, props.n, props.seed]
+  );
+
+  // iteration shown at this frame
+  const activeFrames = Math.max(1, getDenoiserTrainingDuration({ ...props, tailHoldFrames: 0 }));
+  const f = Math.min(frame, activeFrames - 1);
+  const iterNow = interpolate(f, [0, Math.max(1, activeFrames - 1)], [0, iterations], {
+    extrapolateLeft: "clamp",
+    extrapolateRight: "clamp",
+  });
+
+  const losses = history?.losses ?? [];
+  const logEvery = history?.logEvery ?? 1;
+  const recordedIter = history?.snapshots.length ? history.snapshots[history.snapshots.length - 1].iter : 0;
+  const shownIter = Math.min(iterNow, recordedIter);
+
+  // latest snapshot at or before the shown iteration
+  let snapIdx = -1;
+  history?.snapshots.forEach((s, i) => {
+    if (s.iter <= shownIter + 1e-6) snapIdx = i;
+  });
+  const snap = snapIdx >= 0 ? history!.snapshots[snapIdx] : null;
+
+  /* Layout: loss curve left, samples right */
+  const mTop = 100, mSide = 72, mBot = 70, gap = 70;
+  const plotH = height - mTop - mBot;
+  const sqW = plotH;
+  const lossW = width - mSide * 2 - gap - sqW;
+  const lossX = mSide;
+  const sqX = mSide + lossW + gap;
+
+  // loss axes: x = iteration, y = log10(loss)
+  const finite = losses.filter((l) => l > 0 && Number.isFinite(l));
+  const lMin = finite.length ? Math.log10(Math.min(...finite)) : -1;
+  const lMax = finite.length ? Math.log10(Math.max(...finite)) : 0;
+  const yLo = Math.floor(lMin * 4) / 4 - 0.05;
+  const yHi = Math.ceil(lMax * 4) / 4 + 0.05;
+  const itToPx = (it: number) => lossX + (it / Math.max(1, iterations)) * lossW;
+  const lossToPx = (l: number) =>
+    mTop + plotH - ((Math.log10(Math.max(1e-12, l)) - yLo) / Math.max(1e-6, yHi - yLo)) * plotH;
+
+  let lossPath = "";
+  for (let i = 0; i < losses.length; i++) {
+    const it = (i + 1) * logEvery;
+    if (it > shownIter + 1e-6) break;
+    lossPath += `${lossPath ? "L" : "M"} ${itToPx(it)} ${lossToPx(losses[i])} `;
+  }
+
+  const xyMin = -5, xyMax = 5;
+  const xyToPx = (x: number, y: number): [number, number] => [
+    sqX + ((x - xyMin) / (xyMax - xyMin)) * sqW,
+    mTop + plotH - ((y - xyMin) / (xyMax - xyMin)) * plotH,
+  ];
+  const inView = (x: number, y: number) => x >= xyMin && x <= xyMax && y >= xyMin && y <= xyMax;
+
+  const target: JSX.Element[] = [];
+  const stepT = Math.max(1, Math.floor(data.xs.length / 600));
+  for (let i = 0; i < data.xs.length; i += stepT) {
+    const [px, py] = xyToPx(data.xs[i], data.ys[i]);
+    target.push(<circle key={`t${i}`} cx={px} cy={py} r={1.6} fill={P.target} fillOpacity={0.35} />);
+  }
+
+  const samples: JSX.Element[] = [];
+  let outside = 0;
+  if (snap) {
+    for (let i = 0; i < snap.xs.length; i++) {
+      if (!inView(snap.xs[i], snap.ys[i])) {
+        outside++;
+        continue;
+      }
+      const [px, py] = xyToPx(snap.xs[i], snap.ys[i]);
+      samples.push(<circle key={i} cx={px} cy={py} r={2.4} fill={P.dots} fillOpacity={0.95} />);
+    }
+  }
+
+  // ticks
+  const lossTicks: JSX.Element[] = [];
+  for (let i = 0; i <= 5; i++) {
+    const it = (i / 5) * iterations;
+    const px = itToPx(it);
+    lossTicks.push(<line key={`lx${i}`} x1={px} y1={mTop + plotH} x2={px} y2={mTop + plotH + 6} stroke={P.axes} opacity={0.6} />);
+    lossTicks.push(<text key={`ll${i}`} x={px} y={mTop + plotH + 24} fill={P.label} fontSize={F.ticks} textAnchor="middle">{Math.round(it)}</text>);
+  }
+  for (let e = Math.ceil(yLo * 4) / 4; e <= yHi; e += 0.25) {
+    const py = lossToPx(Math.pow(10, e));
+    lossTicks.push(<line key={`gy${e}`} x1={lossX} y1={py} x2={lossX + lossW} y2={py} stroke={P.grid} opacity={0.5} />);
+    lossTicks.push(<text key={`ly${e}`} x={lossX - 8} y={py + 5} fill={P.label} fontSize={F.ticks} textAnchor="end">{Math.pow(10, e).toPrecision(2)}</text>);
+  }
+
+  const lastLoss = (() => {
+    const k = Math.min(losses.length, Math.floor(shownIter / logEvery)) - 1;
+    return k >= 0 ? losses[k] : null;
+  })();
+  const sub = history
+    ? `iteration ${Math.round(shownIter)}/${iterations}${lastLoss !== null ? ` • loss ≈ ${lastLoss.toFixed(3)}` : ""}`
+    : "training…";
+
+  return (
+    <svg width={width} height={height} style={{ background: P.bg }}>
+      <text x={width / 2} y={38} fill={P.label} fontSize={F.titleMain} fontWeight={800} textAnchor="middle">
+        Training a tiny denoiser ε̂(x_t, t)
+      </text>
+      <text x={16} y={30} fill={P.label} fontSize={F.title} fontWeight={700}>
+        {`2D — ${dist2d}`}
+      </text>
+      <text x={16} y={54} fill={P.label} fontSize={F.subtitle} opacity={0.9}>
+        {sub}
+      </text>
+
+      {/* loss curve */}
+      <rect x={lossX - 1} y={mTop - 1} width={lossW + 2} height={plotH + 2} fill={P.bg} stroke={P.frame} />
+      {lossTicks}
+      <path d={lossPath} stroke={P.line} strokeWidth={2.5} fill="none" />
+      {history?.snapshots.map((s) =>
+        s.iter <= shownIter + 1e-6 ? (
+          <line key={`s${s.iter}`} x1={itToPx(s.iter)} y1={mTop} x2={itToPx(s.iter)} y2={mTop + plotH}
+            stroke={P.dots} strokeDasharray="3 6" opacity={s === snap ? 0.8 : 0.25} />
+        ) : null
+      )}
+      <text x={lossX + lossW / 2} y={height - 18} fill={P.label} fontSize={F.axis} textAnchor="middle">
+        iteration (loss on log scale)
+      </text>
+
+      {/* samples from the current model */}
+      <rect x={sqX - 1} y={mTop - 1} width={sqW + 2} height={plotH + 2} fill={P.bg} stroke={P.frame} />
+      {target}
+      {samples}
+      <text x={sqX + sqW / 2} y={height - 18} fill={P.label} fontSize={F.axis} textAnchor="middle">
+        {snap
+          ? `samples after ${snap.iter} iterations${outside ? ` (${outside} off-screen)` : ""}`
+          : "waiting for the first snapshot"}
+      </text>
+    </svg>
+  );
+};
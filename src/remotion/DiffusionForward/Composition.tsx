@@ -1,15 +1,48 @@
 import React, { useMemo } from "react";
-import { useCurrentFrame, useVideoConfig, interpolate } from "remotion";
+import {
+  useCurrentFrame,
+  useVideoConfig,
+  interpolate,
+  CalculateMetadataFunction,
+} from "remotion";
+import { checkDist2D, checkIntList, checkNumber, checkOneOf, checkStepTimeline } from "../propChecks";
+import {
+  dataPoints2D, Dist2DSource, kde, makeAlphaBar, mulberry32, randn, sample1D, SPIKY_MIXTURE,
+} from "../../seededMath";
+import { makeKernelMixture } from "../../mixtureScore";
+import { distanceCsv, distanceFloor, distanceRowsFor, MetricsStrip, metricsSubsample } from "../MetricsStrip";
+import { ParticleTrails, Trail, trailIndices } from "../ParticleTrails";
+import { QUIVER_FIELDS, QUIVER_NORMS, QuiverField, QuiverNorm, ScoreQuiver } from "../ScoreQuiver";
 
 export type NoiseStepParams = {
   gaussMeanX: number;
   gaussMeanY: number;
   gaussVarX: number;
   gaussVarY: number;
+  // correlation of the x / y jitter, in (−1, 1); default 0 (axis-aligned)
+  gaussRho?: number;
+};
+
+/**
+ * Variances + correlation of N(0, R(θ) diag(var1, var2) R(θ)ᵀ): the noise
+ * whose principal axes have variances var1, var2 and are rotated by θ (radians).
+ */
+export const covarianceFromRotation = (var1: number, var2: number, theta: number) => {
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+  const gaussVarX = c * c * var1 + s * s * var2;
+  const gaussVarY = s * s * var1 + c * c * var2;
+  const cov = c * s * (var1 - var2);
+  return { gaussVarX, gaussVarY, gaussRho: cov / Math.sqrt(gaussVarX * gaussVarY) };
 };
 
 export type DDPM2DProps = {
-  dist2d: "ring" | "spiral" | "sketch";
+  dist2d: Dist2DSource;
+  // 1D: marginal q(x_t) over time as a heatmap or ridge plot (default "2d")
+  dim?: "1d" | "2d";
+  dist1d?: "uniform" | "spiky" | "sketch";
+  custom1D?: Float32Array | null;
+  view1d?: "heatmap" | "ridge";
   steps: number;
   n: number;
   mode?: "light" | "dark";
@@ -31,74 +64,478 @@ export type DDPM2DProps = {
 
   noiseDisplay?: "dots" | "values";
   showNoiseOverlay?: boolean;
+
+  // exact score / ε field of q_t on a grid (normal animation only; assumes ε ~ N(0, I))
+  quiver?: QuiverField;
+  quiverDensity?: number;
+  quiverNorm?: QuiverNorm;
+
+  // fading x0 → x_t trails for `trailCount` strided particles + pinned indices
+  trailCount?: number;
+  pinnedIndices?: number[];
+
+  // MMD / sliced W₂ / energy distance to N(0, I) and to the data per step (2D, normal animation only)
+  metricsStrip?: boolean;
+
+  // noise mode: play noiseHistory back one tweened step per framesPerStep instead of showing the end state
+  noiseReplay?: boolean;
 };
 
-/* RNG + helpers */
-const mulberry32 = (s: number) => () => {
-  let t = (s += 0x6d2b79f5);
-  t = Math.imul(t ^ (t >>> 15), t | 1);
-  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+/** Why `history` can't be used as a noiseHistory, or null when it can. */
+export const noiseHistoryProblem = (history: unknown): string | null => {
+  if (!Array.isArray(history)) return "must be an array of noise steps";
+  for (let i = 0; i < history.length; i++) {
+    const step = history[i] as Record<string, unknown> | null;
+    if (!step || typeof step !== "object") return `step ${i} is not an object`;
+    for (const key of ["gaussMeanX", "gaussMeanY", "gaussVarX", "gaussVarY"]) {
+      const v = step[key];
+      if (typeof v !== "number" || !Number.isFinite(v)) {
+        return `step ${i}: "${key}" must be a number, got ${JSON.stringify(v)}`;
+      }
+    }
+    if (!((step.gaussVarX as number) > 0 && (step.gaussVarY as number) > 0)) {
+      return `step ${i}: variances must be > 0`;
+    }
+    const rho = step.gaussRho;
+    if (rho !== undefined && !(typeof rho === "number" && rho > -1 && rho < 1)) {
+      return `step ${i}: "gaussRho" must be a number in (−1, 1), got ${JSON.stringify(rho)}`;
+    }
+  }
+  return null;
 };
-const randn = (rng: () => number) => {
-  let u = 0,
-    v = 0;
-  while (u === 0) u = rng();
-  while (v === 0) v = rng();
-  const m = Math.sqrt(-2 * Math.log(u));
-  return m * Math.cos(2 * Math.PI * v);
+
+/* timeline length: steps * framesPerStep + end hold */
+export const getDDPMForwardDuration = ({
+  steps,
+  dim = "2d",
+  noiseMode = false,
+  noiseReplay = false,
+  noiseHistory = [],
+  framesPerStep = 6,
+  tailHoldFrames = 150,
+}: DDPM2DProps) => {
+  // a noise-history replay runs one step per framesPerStep instead
+  const active = noiseMode && noiseReplay && dim === "2d" ? noiseHistory.length : steps;
+  return Math.max(1, active * framesPerStep + Math.max(0, tailHoldFrames));
 };
-const randn2 = (rng: () => number): [number, number] => {
-  let u = 0,
-    v = 0;
-  while (u === 0) u = rng();
-  while (v === 0) v = rng();
-  const m = Math.sqrt(-2 * Math.log(u));
-  return [m * Math.cos(2 * Math.PI * v), m * Math.sin(2 * Math.PI * v)];
+
+export const calculateDDPMForwardMetadata: CalculateMetadataFunction<DDPM2DProps> = ({
+  props,
+  compositionId,
+}) => {
+  checkDist2D(compositionId, props, props.dim !== "1d");
+  checkOneOf(compositionId, props, "dim", ["1d", "2d"], true);
+  checkOneOf(compositionId, props, "dist1d", ["uniform", "spiky", "sketch"], true);
+  checkOneOf(compositionId, props, "view1d", ["heatmap", "ridge"], true);
+  checkStepTimeline(compositionId, props);
+  checkNumber(compositionId, props, "n", { min: 1, max: 20000, integer: true });
+  checkNumber(compositionId, props, "visibleCount", { min: 1, max: 20000, integer: true, optional: true });
+  checkOneOf(compositionId, props, "quiver", QUIVER_FIELDS, true);
+  checkNumber(compositionId, props, "quiverDensity", { min: 4, max: 48, integer: true, optional: true });
+  checkOneOf(compositionId, props, "quiverNorm", QUIVER_NORMS, true);
+  checkNumber(compositionId, props, "trailCount", { min: 0, max: 200, integer: true, optional: true });
+  checkIntList(compositionId, props, "pinnedIndices", { min: 0, max: 19999, optional: true });
+  if (props.noiseHistory) {
+    const problem = noiseHistoryProblem(props.noiseHistory);
+    if (problem) throw new Error(`${compositionId}: "noiseHistory" ${problem}`);
+  }
+  return { durationInFrames: getDDPMForwardDuration(props) };
 };
 
-/* Datasets */
-const sample2D = (n: number, dist: "ring" | "spiral", rng: () => number) => {
-  const xs = new Float32Array(n);
-  const ys = new Float32Array(n);
-  if (dist === "ring") {
-    for (let i = 0; i < n; i++) {
-      const th = rng() * Math.PI * 2;
-      const r = 2.2 + (rng() - 0.5) * 0.3;
-      xs[i] = r * Math.cos(th);
-      ys[i] = r * Math.sin(th);
+/* base data (1d data lives in x, y = 0) — shared by the scene and its CSV export */
+const forwardBase = ({
+  dim = "2d",
+  dist1d = "spiky",
+  dist2d,
+  custom1D = null,
+  custom2D = null,
+  steps,
+  n,
+}: Pick<DDPM2DProps, "dim" | "dist1d" | "dist2d" | "custom1D" | "custom2D" | "steps" | "n">) => {
+  // base seed for DATA ONLY — can depend on n
+  const stableSeedForData =
+    5678 + (dist2d === "ring" ? 202 : 0) + (steps << 3) + n * 17 +
+    (dim === "1d" ? 31 + (dist1d === "spiky" ? 100 : 0) : 0);
+  const baseRng = mulberry32(stableSeedForData >>> 0);
+  if (dim === "1d") {
+    const x =
+      dist1d === "sketch" && custom1D && custom1D.length
+        ? custom1D
+        : sample1D(n, dist1d === "spiky" ? "spiky" : "uniform", baseRng);
+    return { x, y: new Float32Array(x.length) };
+  }
+  const s2 = dataPoints2D(dist2d, n, baseRng, custom2D);
+  return { x: s2.xs, y: s2.ys };
+};
+
+/* ε for the normal animation, drawn from the current noise controls */
+const forwardEps = (
+  len: number,
+  {
+    gaussMeanX = 0,
+    gaussMeanY = 0,
+    gaussVarX = 1,
+    gaussVarY = 1,
+  }: Pick<DDPM2DProps, "gaussMeanX" | "gaussMeanY" | "gaussVarX" | "gaussVarY">
+) => {
+  const epsRng = mulberry32((0x9e3779b9 ^ 123456) >>> 0);
+  const ex = new Float32Array(len);
+  const ey = new Float32Array(len);
+  const stdX = Math.sqrt(Math.max(1e-8, gaussVarX));
+  const stdY = Math.sqrt(Math.max(1e-8, gaussVarY));
+  for (let i = 0; i < len; i++) {
+    ex[i] = gaussMeanX + stdX * randn(epsRng);
+    ey[i] = gaussMeanY + stdY * randn(epsRng);
+  }
+  return { ex, ey };
+};
+
+/* distances of x_t = √ᾱ x₀ + √(1−ᾱ) ε to N(0, I) and to x₀, for every step */
+const forwardDistanceRows = (
+  base: { x: Float32Array; y: Float32Array },
+  eps: { ex: Float32Array; ey: Float32Array },
+  alphaBar: number[]
+) => {
+  const len = base.x.length;
+  const data = new Float32Array(len * 2);
+  for (let i = 0; i < len; i++) {
+    data[2 * i] = base.x[i];
+    data[2 * i + 1] = base.y[i];
+  }
+  // each step's cloud only on the particles the metrics keep
+  const [bx, by, ex, ey] = [base.x, base.y, eps.ex, eps.ey].map(metricsSubsample);
+  const m = bx.length;
+  const clouds = alphaBar.map((ab, t) => {
+    const s1 = Math.sqrt(Math.max(1e-8, ab));
+    const s2 = Math.sqrt(Math.max(0, 1 - ab));
+    const x = new Float32Array(m * 2);
+    for (let i = 0; i < m; i++) {
+      x[2 * i] = s1 * bx[i] + s2 * ex[i];
+      x[2 * i + 1] = s1 * by[i] + s2 * ey[i];
     }
-  } else {
-    for (let i = 0; i < n; i++) {
-      const a = rng() * 5.5 * Math.PI;
-      const r = 0.2 + 0.15 * a;
-      const [e0, e1] = randn2(rng);
-      xs[i] = r * Math.cos(a) + 0.1 * e0;
-      ys[i] = r * Math.sin(a) + 0.1 * e1;
+    return { t, alphaBar: ab, x };
+  });
+  return distanceRowsFor(clouds, data, 2);
+};
+
+// seed for noise steps — independent of n
+const noiseStepSeed = (dist2d: Dist2DSource, steps: number) =>
+  911_000_123 + (dist2d === "ring" ? 17 : 31) + (steps << 1);
+
+// how strongly each noise step moves toward the step's mean
+const NOISE_SHIFT_FRAC = 0.3; // 30% toward mean
+// how much random jitter (relative to std) each step adds
+const NOISE_JITTER_FRAC = 0.35;
+
+type NoiseHistoryStates = {
+  /** positions (flat x, y) before the first step and after every step: H + 1 snapshots */
+  positions: Float32Array[];
+  /** the random jitter each step added (flat x, y): H entries */
+  applied: Float32Array[];
+};
+
+/*
+ * The cumulative noise steps: each moves every point NOISE_SHIFT_FRAC toward
+ * the step's mean and adds NOISE_JITTER_FRAC · N(0, Σ) jitter, from a
+ * per-step rng that doesn't depend on n.
+ */
+const noiseHistoryStates = (
+  base: { x: Float32Array; y: Float32Array },
+  history: NoiseStepParams[],
+  seed: number
+): NoiseHistoryStates => {
+  const len = base.x.length;
+  let cur = new Float32Array(len * 2);
+  for (let i = 0; i < len; i++) {
+    cur[2 * i] = base.x[i];
+    cur[2 * i + 1] = base.y[i];
+  }
+  const positions = [cur];
+  const applied: Float32Array[] = [];
+  history.forEach((step, s) => {
+    const stdX = Math.sqrt(Math.max(1e-8, step.gaussVarX));
+    const stdY = Math.sqrt(Math.max(1e-8, step.gaussVarY));
+    const rho = step.gaussRho ?? 0;
+    const rhoPerp = Math.sqrt(Math.max(0, 1 - rho * rho));
+    const rngStep = mulberry32((seed + s * 101_003) >>> 0);
+    const next = new Float32Array(len * 2);
+    const jitter = new Float32Array(len * 2);
+    for (let i = 0; i < len; i++) {
+      // (z1, σy (ρ z1 + √(1−ρ²) z2)) has correlation ρ; ρ = 0 keeps the old draws
+      const z1 = randn(rngStep);
+      const z2 = randn(rngStep);
+      jitter[2 * i] = NOISE_JITTER_FRAC * stdX * z1;
+      jitter[2 * i + 1] = NOISE_JITTER_FRAC * stdY * (rho * z1 + rhoPerp * z2);
+      next[2 * i] = cur[2 * i] + NOISE_SHIFT_FRAC * (step.gaussMeanX - cur[2 * i]) + jitter[2 * i];
+      next[2 * i + 1] = cur[2 * i + 1] + NOISE_SHIFT_FRAC * (step.gaussMeanY - cur[2 * i + 1]) + jitter[2 * i + 1];
     }
+    positions.push(next);
+    applied.push(jitter);
+    cur = next;
+  });
+  return { positions, applied };
+};
+
+const smoothstep = (u: number) => u * u * (3 - 2 * u);
+
+/* mean and covariance (xx, xy, yy) of a 2D noise term */
+type Moments2D = { mean: [number, number]; cov: [number, number, number] };
+
+const stepCovariance = (step: NoiseStepParams): Moments2D["cov"] => {
+  const rho = step.gaussRho ?? 0;
+  return [step.gaussVarX, rho * Math.sqrt(step.gaussVarX * step.gaussVarY), step.gaussVarY];
+};
+
+/*
+ * With a = NOISE_SHIFT_FRAC and c = NOISE_JITTER_FRAC a step is
+ * x ← (1−a) x + a μ + c ε, ε ~ N(0, Σ), so after the first k steps
+ * x_k = (1−a)^k x_0 + total noise, whose moments follow
+ *   m ← (1−a) m + a μ,   C ← (1−a)² C + c² Σ.
+ */
+const accumulatedNoise = (history: NoiseStepParams[], k: number): Moments2D => {
+  const keep = 1 - NOISE_SHIFT_FRAC;
+  const c2 = NOISE_JITTER_FRAC * NOISE_JITTER_FRAC;
+  let mx = 0, my = 0, cxx = 0, cxy = 0, cyy = 0;
+  for (let s = 0; s < k; s++) {
+    const step = history[s];
+    const [sxx, sxy, syy] = stepCovariance(step);
+    mx = keep * mx + NOISE_SHIFT_FRAC * step.gaussMeanX;
+    my = keep * my + NOISE_SHIFT_FRAC * step.gaussMeanY;
+    cxx = keep * keep * cxx + c2 * sxx;
+    cxy = keep * keep * cxy + c2 * sxy;
+    cyy = keep * keep * cyy + c2 * syy;
+  }
+  return { mean: [mx, my], cov: [cxx, cxy, cyy] };
+};
+
+/* sample moments of the particles' total noise x_k − (1−a)^k x_0 */
+const empiricalNoise = (
+  base: { x: Float32Array; y: Float32Array },
+  positions: Float32Array,
+  k: number
+): Moments2D => {
+  const len = base.x.length;
+  const decay = Math.pow(1 - NOISE_SHIFT_FRAC, k);
+  let mx = 0, my = 0;
+  for (let i = 0; i < len; i++) {
+    mx += positions[2 * i] - decay * base.x[i];
+    my += positions[2 * i + 1] - decay * base.y[i];
+  }
+  mx /= Math.max(1, len);
+  my /= Math.max(1, len);
+  let cxx = 0, cxy = 0, cyy = 0;
+  for (let i = 0; i < len; i++) {
+    const dx = positions[2 * i] - decay * base.x[i] - mx;
+    const dy = positions[2 * i + 1] - decay * base.y[i] - my;
+    cxx += dx * dx;
+    cxy += dx * dy;
+    cyy += dy * dy;
   }
-  return { xs, ys };
+  const denom = Math.max(1, len - 1);
+  return { mean: [mx, my], cov: [cxx / denom, cxy / denom, cyy / denom] };
 };
 
-/* ᾱ(t) for NORMAL animation only */
-const makeAlphaBar = (T: number) => {
-  const betaStart = 1e-4,
-    betaEnd = 0.2;
-  const betas = Array.from({ length: T }, (_, i) =>
-    Math.min(0.999, betaStart + (i / Math.max(1, T - 1)) * (betaEnd - betaStart))
+/* points on the `radius`-σ ellipse of N(mean, cov), for drawing through a data → px map */
+const ellipsePoints = (mean: [number, number], [cxx, cxy, cyy]: Moments2D["cov"], radius: number, segments = 48) => {
+  const half = (cxx + cyy) / 2;
+  const diff = Math.sqrt(((cxx - cyy) / 2) ** 2 + cxy * cxy);
+  const l1 = Math.sqrt(Math.max(0, half + diff));
+  const l2 = Math.sqrt(Math.max(0, half - diff));
+  const angle = 0.5 * Math.atan2(2 * cxy, cxx - cyy);
+  const ca = Math.cos(angle), sa = Math.sin(angle);
+  const pts: [number, number][] = [];
+  for (let j = 0; j <= segments; j++) {
+    const phi = (j / segments) * 2 * Math.PI;
+    const u = radius * l1 * Math.cos(phi);
+    const v = radius * l2 * Math.sin(phi);
+    pts.push([mean[0] + ca * u - sa * v, mean[1] + sa * u + ca * v]);
+  }
+  return pts;
+};
+
+/** Every particle's position after each noise step (step 0 = data), as CSV. */
+export const exportNoiseHistoryCsv = (props: DDPM2DProps) => {
+  const base = forwardBase({ ...props, dim: "2d" });
+  const { positions } = noiseHistoryStates(base, props.noiseHistory ?? [], noiseStepSeed(props.dist2d, props.steps));
+  const lines = ["step,index,x,y"];
+  positions.forEach((pos, step) => {
+    for (let i = 0; i < pos.length / 2; i++) {
+      lines.push(`${step},${i},${pos[2 * i].toPrecision(6)},${pos[2 * i + 1].toPrecision(6)}`);
+    }
+  });
+  return lines.join("\n") + "\n";
+};
+
+/** The 2D scene's per-step distance curves as CSV (what the metrics strip plots). */
+export const exportDDPMForwardDistanceCsv = (props: DDPM2DProps) => {
+  const base = forwardBase({ ...props, dim: "2d" });
+  const eps = forwardEps(base.x.length, props);
+  return distanceCsv(forwardDistanceRows(base, eps, makeAlphaBar(Math.max(2, props.steps))));
+};
+
+/* ---------------- 1D view: time × x density + current marginal ---------------- */
+
+type Forward1DProps = {
+  x0: Float32Array;
+  ex: Float32Array;
+  alphaBar: number[];
+  tPos: number;
+  ab: number;
+  view: "heatmap" | "ridge";
+  /** Gaussian-mixture data (equal weights) → closed-form q(x_t) */
+  analytic: { centers: number[]; std: number } | null;
+  noiseMean: number;
+  noiseVar: number;
+  box: { x: number; y: number; w: number; h: number };
+  P: { bg: string; frame: string; grid: string; dots: string; field: string; label: string; axes: string; legendBg: string };
+};
+
+const GRID_1D = 121;
+const X_MIN_1D = -5, X_MAX_1D = 5;
+
+const normalPdf = (x: number, mean: number, v: number) =>
+  Math.exp(-((x - mean) * (x - mean)) / (2 * v)) / Math.sqrt(2 * Math.PI * v);
+
+// q(x_t) for x_0 ~ 1/K Σ N(c_k, s²) and ε ~ N(m, v):  1/K Σ N(√ᾱ c_k + √(1−ᾱ) m, ᾱ s² + (1−ᾱ) v)
+const mixtureAt = (
+  x: number,
+  ab: number,
+  mix: { centers: number[]; std: number },
+  m: number,
+  v: number
+) => {
+  const mean0 = Math.sqrt(1 - ab) * m;
+  const varT = ab * mix.std * mix.std + (1 - ab) * v;
+  let s = 0;
+  for (const c of mix.centers) s += normalPdf(x, Math.sqrt(ab) * c + mean0, varT);
+  return s / mix.centers.length;
+};
+
+const Forward1D: React.FC<Forward1DProps> = ({
+  x0, ex, alphaBar, tPos, ab, view, analytic, noiseMean, noiseVar, box, P,
+}) => {
+  const T = alphaBar.length;
+  const grid = useMemo(
+    () => Array.from({ length: GRID_1D }, (_, j) => X_MIN_1D + (j / (GRID_1D - 1)) * (X_MAX_1D - X_MIN_1D)),
+    []
   );
-  const alphas = betas.map((b) => 1 - b);
-  const out: number[] = [];
-  let p = 1;
-  for (const a of alphas) {
-    p *= a;
-    out.push(p);
+
+  // KDE of the empirical x_t = √ᾱ x0 + √(1−ᾱ) ε for a subset of timesteps
+  const rows = view === "heatmap" ? Math.min(T, 60) : Math.min(T, 24);
+  const rowSteps = useMemo(
+    () => Array.from({ length: rows }, (_, r) => Math.round((r * (T - 1)) / Math.max(1, rows - 1))),
+    [rows, T]
+  );
+  const rowDens = useMemo(() => {
+    const xt = new Float32Array(x0.length);
+    return rowSteps.map((k) => {
+      const a1 = Math.sqrt(alphaBar[k]), a2 = Math.sqrt(1 - alphaBar[k]);
+      for (let i = 0; i < x0.length; i++) xt[i] = a1 * x0[i] + a2 * ex[i];
+      return kde(xt, grid);
+    });
+  }, [x0, ex, alphaBar, rowSteps, grid]);
+  const densMax = rowDens.reduce((m, d) => d.reduce((mm, v) => (v > mm ? v : mm), m), 1e-6);
+
+  // layout: time × x on top, current marginal below
+  const topH = Math.round(box.h * 0.56);
+  const gap = 34;
+  const botY = box.y + topH + gap;
+  const botH = box.h - topH - gap - 30;
+  const xToPx = (x: number) => box.x + ((x - X_MIN_1D) / (X_MAX_1D - X_MIN_1D)) * box.w;
+  const tToPy = (t: number) => box.y + (t / Math.max(1, T - 1)) * topH;
+
+  const top: JSX.Element[] = [];
+  if (view === "heatmap") {
+    const rowH = topH / rows;
+    const colW = box.w / GRID_1D;
+    rowSteps.forEach((k, r) => {
+      if (k > tPos + 1e-6) return;
+      const d = rowDens[r];
+      for (let j = 0; j < GRID_1D; j++) {
+        const v = d[j] / densMax;
+        if (v < 0.01) continue;
+        top.push(
+          <rect key={`h${r}-${j}`} x={box.x + j * colW} y={box.y + r * rowH} width={colW + 0.5} height={rowH + 0.5}
+            fill={P.field} fillOpacity={Math.min(1, Math.sqrt(v))} />
+        );
+      }
+    });
+  } else {
+    // ridge plot: one density per row, later rows drawn over earlier ones
+    const spacing = topH / (rows + 1);
+    const amp = spacing * 2.4;
+    rowSteps.forEach((k, r) => {
+      if (k > tPos + 1e-6) return;
+      const base = box.y + (r + 1) * spacing + spacing * 0.5;
+      const d = rowDens[r];
+      let path = `M ${xToPx(grid[0])} ${base}`;
+      for (let j = 0; j < GRID_1D; j++) path += ` L ${xToPx(grid[j])} ${base - (d[j] / densMax) * amp}`;
+      path += ` L ${xToPx(grid[GRID_1D - 1])} ${base} Z`;
+      top.push(<path key={`r${r}`} d={path} fill={P.bg} stroke={P.field} strokeWidth={1.6} />);
+    });
+  }
+
+  // current marginal: KDE, analytic mixture, N(0, 1)
+  const cur = new Float32Array(x0.length);
+  const s1 = Math.sqrt(ab), s2 = Math.sqrt(Math.max(0, 1 - ab));
+  for (let i = 0; i < x0.length; i++) cur[i] = s1 * x0[i] + s2 * ex[i];
+  const dCur = kde(cur, grid);
+  const dAna = analytic ? grid.map((x) => mixtureAt(x, ab, analytic, noiseMean, noiseVar)) : null;
+  const dStd = grid.map((x) => normalPdf(x, 0, 1));
+  const yMax = Math.max(0.45, ...dCur, ...(dAna ?? []));
+  const curve = (d: ArrayLike<number>) =>
+    grid.map((x, j) => `${j === 0 ? "M" : "L"} ${xToPx(x)} ${botY + botH - (d[j] / yMax) * botH}`).join(" ");
+
+  const ticks: JSX.Element[] = [];
+  for (let i = 0; i <= 10; i++) {
+    const x = X_MIN_1D + (i / 10) * (X_MAX_1D - X_MIN_1D);
+    const px = xToPx(x);
+    ticks.push(<line key={`xt${i}`} x1={px} y1={botY + botH} x2={px} y2={botY + botH + 6} stroke={P.axes} opacity={0.6} />);
+    ticks.push(<text key={`xl${i}`} x={px} y={botY + botH + 22} fill={P.label} fontSize={14} textAnchor="middle">{x}</text>);
   }
-  return out;
+  for (let i = 0; i <= 4; i++) {
+    const t = Math.round((i / 4) * (T - 1));
+    ticks.push(<text key={`tl${i}`} x={box.x - 8} y={tToPy(t) + 5} fill={P.label} fontSize={14} textAnchor="end">{t + 1}</text>);
+  }
+
+  const legendX = box.x + box.w - 250;
+  return (
+    <>
+      <rect x={box.x - 1} y={box.y - 1} width={box.w + 2} height={topH + 2} fill={P.bg} stroke={P.frame} />
+      {top}
+      <line x1={box.x} y1={tToPy(tPos)} x2={box.x + box.w} y2={tToPy(tPos)} stroke={P.dots} strokeWidth={2} opacity={0.9} />
+      <text x={box.x - 36} y={box.y + topH / 2} fill={P.label} fontSize={16} textAnchor="middle"
+        transform={`rotate(-90 ${box.x - 36} ${box.y + topH / 2})`}>step t ↓</text>
+
+      <rect x={box.x - 1} y={botY - 1} width={box.w + 2} height={botH + 2} fill={P.bg} stroke={P.frame} />
+      <path d={curve(dStd)} stroke={P.axes} strokeWidth={1.6} strokeDasharray="2 5" fill="none" />
+      {dAna && <path d={curve(dAna)} stroke={P.dots} strokeWidth={2.4} strokeDasharray="6 6" fill="none" />}
+      <path d={curve(dCur)} stroke={P.field} strokeWidth={3} fill="none" />
+      {ticks}
+
+      <g transform={`translate(${legendX},${botY + 8})`}>
+        <rect width={240} height={dAna ? 70 : 50} rx={8} fill={P.legendBg} />
+        <line x1={10} y1={16} x2={40} y2={16} stroke={P.field} strokeWidth={3} />
+        <text x={48} y={21} fill={P.label} fontSize={14}>q(x_t) — KDE of samples</text>
+        <line x1={10} y1={36} x2={40} y2={36} stroke={P.axes} strokeWidth={1.6} strokeDasharray="2 5" />
+        <text x={48} y={41} fill={P.label} fontSize={14}>N(0, 1)</text>
+        {dAna && (
+          <>
+            <line x1={10} y1={56} x2={40} y2={56} stroke={P.dots} strokeWidth={2.4} strokeDasharray="6 6" />
+            <text x={48} y={61} fill={P.label} fontSize={14}>q(x_t) — analytic mixture</text>
+          </>
+        )}
+      </g>
+    </>
+  );
 };
 
 export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
   dist2d,
+  dim = "2d",
+  dist1d = "spiky",
+  custom1D = null,
+  view1d = "ridge",
   steps,
   n,
   mode = "dark",
@@ -115,6 +552,13 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
   gaussVarY = 1,
   noiseDisplay = "dots",
   showNoiseOverlay = true,
+  quiver = "off",
+  quiverDensity = 17,
+  quiverNorm = "log",
+  trailCount = 0,
+  pinnedIndices = [],
+  metricsStrip = false,
+  noiseReplay = false,
 }) => {
   const frame = useCurrentFrame();
   const { width, height } = useVideoConfig();
@@ -126,6 +570,9 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
           frame: "#e8ecf2",
           grid: "#d9e1ec",
           dots: "#f59e0b",
+          field: "#0ea5e9",
+          trail: "#7c3aed",
+          pin: "#e11d48",
           label: "#0b1324",
           axes: "#1f2937",
           legendBg: "rgba(15,23,42,.06)",
@@ -135,45 +582,36 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
           frame: "#243145",
           grid: "#2b3a51",
           dots: "#ffd166",
+          field: "#67e8f9",
+          trail: "#c4b5fd",
+          pin: "#fb7185",
           label: "#dfe9f5",
           axes: "#aac0d4",
           legendBg: "rgba(255,255,255,.06)",
         };
 
-  // base seed for DATA ONLY — can depend on n
-  const stableSeedForData =
-    5678 + (dist2d === "ring" ? 202 : 0) + (steps << 3) + n * 17;
-  const baseRng = useMemo(() => mulberry32(stableSeedForData >>> 0), [stableSeedForData]);
+  // base data distribution (1d data lives in x, y = 0)
+  const base = useMemo(
+    () => forwardBase({ dim, dist1d, dist2d, custom1D, custom2D, steps, n }),
+    [dim, dist1d, dist2d, custom1D, custom2D, steps, n]
+  );
 
-  // base data distribution (2d)
-  const base = useMemo(() => {
-    if (dist2d === "sketch" && custom2D && custom2D.xs.length) {
-      return { x: custom2D.xs, y: custom2D.ys };
-    }
-    const s2 = sample2D(n, dist2d === "ring" ? "ring" : "spiral", baseRng);
-    return { x: s2.xs, y: s2.ys };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [dist2d, n, baseRng, custom2D]);
+  // target as a narrow kernel mixture — its q_t has a closed-form score
+  const fieldMix = useMemo(
+    () => (quiver === "off" ? null : makeKernelMixture([base.x, base.y as Float32Array], 0.1)),
+    [quiver, base]
+  );
 
   // eps for normal animation — uses current controls
-  const epsSeed = 0x9e3779b9 ^ 123456;
-  const epsRng = useMemo(() => mulberry32(epsSeed >>> 0), [epsSeed]);
-  const eps = useMemo(() => {
-    const len = (base.x as Float32Array).length;
-    const ex = new Float32Array(len);
-    const ey = new Float32Array(len);
-    const stdX = Math.sqrt(Math.max(1e-8, gaussVarX));
-    const stdY = Math.sqrt(Math.max(1e-8, gaussVarY));
-    for (let i = 0; i < len; i++) {
-      ex[i] = gaussMeanX + stdX * randn(epsRng);
-      ey[i] = gaussMeanY + stdY * randn(epsRng);
-    }
-    return { ex, ey };
-  }, [base, epsRng, gaussMeanX, gaussMeanY, gaussVarX, gaussVarY]);
+  const eps = useMemo(
+    () => forwardEps(base.x.length, { gaussMeanX, gaussMeanY, gaussVarX, gaussVarY }),
+    [base, gaussMeanX, gaussMeanY, gaussVarX, gaussVarY]
+  );
 
   // schedule for NORMAL animation
   const alphaBar = useMemo(() => makeAlphaBar(Math.max(2, steps)), [steps]);
-  const activeFrames = Math.max(1, steps * framesPerStep);
+  const replaying = noiseMode && noiseReplay && dim === "2d";
+  const activeFrames = Math.max(1, (replaying ? noiseHistory.length : steps) * framesPerStep);
   const tail = Math.max(0, tailHoldFrames);
 
   const f = Math.min(frame, activeFrames - 1);
@@ -189,13 +627,37 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
   const s1 = Math.sqrt(Math.max(1e-8, ab));
   const s2 = Math.sqrt(Math.max(0, 1 - ab));
 
+  // every snapshot of the cumulative noise steps (2D noise mode)
+  const noiseStates = useMemo(
+    () =>
+      noiseMode && dim === "2d"
+        ? noiseHistoryStates(base, noiseHistory, noiseStepSeed(dist2d, steps))
+        : null,
+    [noiseMode, dim, base, noiseHistory, dist2d, steps]
+  );
+  const hReplay = replaying
+    ? interpolate(f, [0, Math.max(1, activeFrames - 1)], [0, noiseHistory.length], {
+        extrapolateLeft: "clamp",
+        extrapolateRight: "clamp",
+      })
+    : noiseHistory.length;
+
+  // per-step distances for the metrics strip (normal 2D animation only)
+  const showStrip = metricsStrip && dim === "2d" && !noiseMode;
+  const distanceRows = useMemo(
+    () => (showStrip ? forwardDistanceRows(base, eps, alphaBar) : null),
+    [showStrip, base, eps, alphaBar]
+  );
+  const floor = useMemo(() => distanceFloor(2), []);
+
   /* layout */
   const mTop = 90;
   const mSide = 64;
   const panelHeight = 95;
   const needsBottom =
     noiseMode && showNoiseOverlay && noiseDisplay === "values";
-  const mBot = needsBottom ? panelHeight + 20 : 64;
+  const stripH = 130;
+  const mBot = needsBottom ? panelHeight + 20 : showStrip ? 64 + stripH : 64;
   const plotW = width - mSide * 2;
   const plotH = height - mTop - mBot;
   const cx = width / 2;
@@ -221,10 +683,16 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
     const metaY2 = titleY + 16;
 
     let sub: string;
-    if (noiseMode) {
+    if (dim === "1d") {
+      sub = `step ${Math.round(tPos) + 1}/${steps} • ᾱ≈${ab.toFixed(6)}`;
+    } else if (replaying) {
+      sub = `replaying noise history: step ${Math.min(noiseHistory.length, Math.floor(hReplay) + 1)}/${noiseHistory.length}`;
+    } else if (noiseMode) {
       sub = `cumulative forward: ${noiseHistory.length} step(s)`;
     } else {
-      sub = `step ${Math.round(tPos) + 1}/${steps} • ᾱ≈${ab.toFixed(6)}`;
+      sub = `step ${Math.round(tPos) + 1}/${steps} • ᾱ≈${ab.toFixed(6)}${
+        quiver === "off" ? "" : quiver === "score" ? " • arrows: ∇log q_t" : " • arrows: ε̂"
+      }`;
     }
 
     return (
@@ -237,10 +705,10 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
           fontWeight={800}
           textAnchor="middle"
         >
-          Forward diffusion (2D)
+          {dim === "1d" ? "Forward diffusion (1D): q(x_t) over time" : "Forward diffusion (2D)"}
         </text>
         <text x={16} y={metaY1} fill={P.label} fontSize={F.title} fontWeight={700}>
-          {`2D — ${dist2d}`}
+          {dim === "1d" ? `1D — ${dist1d}` : `2D — ${dist2d}`}
         </text>
         <text x={16} y={metaY2} fill={P.label} fontSize={F.subtitle} opacity={0.9}>
           {sub}
@@ -249,64 +717,129 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
     );
   };
 
+  // ====================== 1D: density over time ======================
+  if (dim === "1d") {
+    return (
+      <svg width={width} height={height} style={{ background: P.bg }}>
+        <TopRow />
+        <Forward1D
+          x0={base.x as Float32Array}
+          ex={eps.ex}
+          alphaBar={alphaBar}
+          tPos={tPos}
+          ab={ab}
+          view={view1d}
+          analytic={dist1d === "spiky" ? SPIKY_MIXTURE : null}
+          noiseMean={gaussMeanX}
+          noiseVar={gaussVarX}
+          box={{ x: mSide, y: mTop, w: plotW, h: height - mTop - 64 }}
+          P={P}
+        />
+      </svg>
+    );
+  }
+
   // ====================== NOISE MODE (cumulative, convex toward mean) ======================
   if (noiseMode) {
-    const baseX = base.x as Float32Array;
-    const baseY = base.y as Float32Array;
-    const len = baseX.length;
+    const len = base.x.length;
     const count = Math.min(visibleCount, len);
 
-    // start from base data
-    let curX = new Float32Array(baseX);
-    let curY = new Float32Array(baseY);
-
-    // seed for noise steps — independent of n
-    const baseNoiseSeed =
-      911_000_123 + (dist2d === "ring" ? 17 : 31) + (steps << 1);
-
-    // we'll store last applied noise term for display
-    let lastEpsX = new Float32Array(count);
-    let lastEpsY = new Float32Array(count);
-
-    // how strongly we move toward the user-selected mean per click
-    const shiftFrac = 0.3; // 30% toward mean
-    // how much random jitter (relative to std) we add
-    const noiseFrac = 0.35;
-
-    for (let s = 0; s < noiseHistory.length; s++) {
-      const stepParams = noiseHistory[s];
-      const targetMx = stepParams.gaussMeanX;
-      const targetMy = stepParams.gaussMeanY;
-      const stdX = Math.sqrt(Math.max(1e-8, stepParams.gaussVarX));
-      const stdY = Math.sqrt(Math.max(1e-8, stepParams.gaussVarY));
-
-      // per-step rng, independent of n
-      const rngStep = mulberry32((baseNoiseSeed + s * 101_003) >>> 0);
-
-      for (let i = 0; i < len; i++) {
-        // random jitters
-        const jitterX = stdX * randn(rngStep);
-        const jitterY = stdY * randn(rngStep);
-
-        // move some fraction toward the mean
-        const towardX = shiftFrac * (targetMx - curX[i]);
-        const towardY = shiftFrac * (targetMy - curY[i]);
-
-        // add small noise based on current variance
-        const applyNoiseX = noiseFrac * jitterX;
-        const applyNoiseY = noiseFrac * jitterY;
-
-        curX[i] = curX[i] + towardX + applyNoiseX;
-        curY[i] = curY[i] + towardY + applyNoiseY;
-
-        if (i < count && s === noiseHistory.length - 1) {
-          // show what we actually applied
-          lastEpsX[i] = applyNoiseX;
-          lastEpsY[i] = applyNoiseY;
-        }
+    // applied steps so far: all of them, or the replay position (the step in
+    // progress is eased in between its two snapshots)
+    const H = noiseHistory.length;
+    const kDone = Math.min(H, Math.floor(hReplay));
+    const tween = kDone < H ? smoothstep(hReplay - kDone) : 0;
+    const states = noiseStates as NoiseHistoryStates;
+    const from = states.positions[kDone];
+    const to = states.positions[Math.min(H, kDone + 1)];
+    const curX = new Float32Array(len);
+    const curY = new Float32Array(len);
+    for (let i = 0; i < len; i++) {
+      curX[i] = from[2 * i] + (to[2 * i] - from[2 * i]) * tween;
+      curY[i] = from[2 * i + 1] + (to[2 * i + 1] - from[2 * i + 1]) * tween;
+    }
+
+    // noise applied by the step shown (the one in progress during a replay)
+    const shownStep = tween > 0 ? kDone + 1 : kDone;
+    const applied = shownStep > 0 ? states.applied[shownStep - 1] : null;
+    const lastEpsX = new Float32Array(count);
+    const lastEpsY = new Float32Array(count);
+    if (applied) {
+      for (let i = 0; i < count; i++) {
+        lastEpsX[i] = applied[2 * i];
+        lastEpsY[i] = applied[2 * i + 1];
       }
     }
 
+    // 2σ ellipse of every step's added noise c²Σ, centred on the step's mean
+    const ellipses = noiseHistory.slice(0, shownStep).map((step, s) => {
+      const [sxx, sxy, syy] = stepCovariance(step);
+      const c2 = NOISE_JITTER_FRAC * NOISE_JITTER_FRAC;
+      const d = ellipsePoints([step.gaussMeanX, step.gaussMeanY], [c2 * sxx, c2 * sxy, c2 * syy], 2)
+        .map(([x, y], j) => `${j === 0 ? "M" : "L"} ${xyToPx(x, y).join(" ")}`)
+        .join(" ");
+      const latest = s === shownStep - 1;
+      return (
+        <path
+          key={`ell-${s}`}
+          d={d}
+          fill="none"
+          stroke={P.field}
+          strokeWidth={latest ? 2.2 : 1.2}
+          opacity={latest ? 0.95 : 0.35}
+        />
+      );
+    });
+
+    // total noise after the completed steps: recursion vs the particles
+    const analytic = accumulatedNoise(noiseHistory, kDone);
+    const empirical = empiricalNoise(base, states.positions[kDone], kDone);
+    const fmt = (v: number) => (v >= 0 ? " " : "") + v.toFixed(3);
+    const momentLines = (m: Moments2D) => [
+      `μ = (${fmt(m.mean[0])}, ${fmt(m.mean[1])})`,
+      `Σ = [${fmt(m.cov[0])}, ${fmt(m.cov[1])}; ${fmt(m.cov[1])}, ${fmt(m.cov[2])}]`,
+    ];
+    const statsW = 330;
+    const statsX = mSide + plotW - statsW - 10;
+    const statsY = mTop + 10;
+    const noiseStats = kDone > 0 && (
+      <g>
+        <rect x={statsX} y={statsY} width={statsW} height={132} rx={10} fill={P.legendBg} />
+        <text x={statsX + 12} y={statsY + 22} fill={P.label} fontSize={14} fontWeight={700}>
+          Total noise after {kDone} step{kDone === 1 ? "" : "s"}
+        </text>
+        {[
+          { title: "analytic", m: analytic },
+          { title: "empirical", m: empirical },
+        ].map(({ title, m }, b) => (
+          <text key={title} x={statsX + 12} y={statsY + 46 + b * 44} fill={P.label} fontSize={12} fontFamily="monospace">
+            <tspan fontWeight={700}>{title}</tspan>
+            {momentLines(m).map((line, j) => (
+              <tspan key={j} x={statsX + 86} dy={j === 0 ? 0 : 18}>
+                {line}
+              </tspan>
+            ))}
+          </text>
+        ))}
+      </g>
+    );
+
+    // tracked particles: position before the first step and after every step
+    const tracked = trailIndices(len, trailCount, pinnedIndices);
+    const trailPts: [number, number][][] = tracked.map((i) => {
+      const pts: [number, number][] = [];
+      for (let kk = 0; kk <= kDone; kk++) {
+        pts.push(xyToPx(states.positions[kk][2 * i], states.positions[kk][2 * i + 1]));
+      }
+      if (tween > 0) pts.push(xyToPx(curX[i], curY[i]));
+      return pts;
+    });
+    const trails: Trail[] = tracked.map((i, j) => ({
+      index: i,
+      pts: trailPts[j],
+      pinned: pinnedIndices.includes(i),
+    }));
+
     // render transformed data dots
     const dots: JSX.Element[] = [];
     const stride = Math.max(1, Math.floor(len / count));
@@ -376,7 +909,7 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
 
     // bottom values panel
     let bottomPanel: JSX.Element | null = null;
-    if (showNoiseOverlay && noiseDisplay === "values" && noiseHistory.length > 0) {
+    if (showNoiseOverlay && noiseDisplay === "values" && applied) {
       const maxShow = Math.min(count, 40);
       const cellW = 150;
       const cols = Math.max(1, Math.floor(plotW / cellW));
@@ -399,7 +932,7 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
             fontSize={14}
             fontWeight={700}
           >
-            Last step (applied) noise — first {maxShow} points
+            Step {shownStep} (applied) noise — first {maxShow} points
           </text>
           {Array.from({ length: maxShow }).map((_, idx) => {
             const r = Math.floor(idx / cols);
@@ -459,12 +992,15 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
 
         {dots}
         {noiseDotsLayer}
+        {ellipses}
+        <ParticleTrails trails={trails} color={P.trail} pinColor={P.pin} labelColor={P.label} />
 
         <line x1={mSide} y1={cy} x2={mSide + plotW} y2={cy} stroke={P.axes} />
         <line x1={cx} y1={mTop} x2={cx} y2={mTop + plotH} stroke={P.axes} />
         {xtEls}
         {ytEls}
 
+        {noiseStats}
         {bottomPanel}
       </svg>
     );
@@ -487,6 +1023,18 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
     dots.push(<circle key={i} cx={px} cy={py} r={2.2} fill={P.dots} fillOpacity={0.95} />);
   }
 
+  // trails: closed-form x_k for every completed step k, then the current x_t
+  const trails: Trail[] = trailIndices(x0.length, trailCount, pinnedIndices).map((i) => {
+    const pts: [number, number][] = [];
+    for (let kk = 0; kk <= k; kk++) {
+      const a1 = Math.sqrt(Math.max(1e-8, alphaBar[kk]));
+      const a2 = Math.sqrt(Math.max(0, 1 - alphaBar[kk]));
+      pts.push(xyToPx(a1 * x0[i] + a2 * ex[i], a1 * y0[i] + a2 * ey[i]));
+    }
+    pts.push(xyToPx(s1 * x0[i] + s2 * ex[i], s1 * y0[i] + s2 * ey[i]));
+    return { index: i, pts, pinned: pinnedIndices.includes(i) };
+  });
+
   const ticks = 8;
   const xtEls: JSX.Element[] = [];
   const ytEls: JSX.Element[] = [];
@@ -561,10 +1109,37 @@ export const DDPMForwardComposition: React.FC<DDPM2DProps> = ({
         stroke={P.grid}
       />
       {dots}
+      <ParticleTrails trails={trails} color={P.trail} pinColor={P.pin} labelColor={P.label} />
+      {fieldMix && quiver !== "off" && (
+        <ScoreQuiver
+          mix={fieldMix}
+          ab={ab}
+          field={quiver}
+          density={quiverDensity}
+          norm={quiverNorm}
+          min={xyMin}
+          max={xyMax}
+          toPx={xyToPx}
+          color={P.field}
+        />
+      )}
       <line x1={mSide} y1={cy} x2={mSide + plotW} y2={cy} stroke={P.axes} />
       <line x1={cx} y1={mTop} x2={cx} y2={mTop + plotH} stroke={P.axes} />
       {xtEls}
       {ytEls}
+      {distanceRows && (
+        <MetricsStrip
+          x={mSide}
+          y={mTop + plotH + 44}
+          w={plotW}
+          h={stripH - 14}
+          rows={distanceRows}
+          pos={tPos}
+          floor={floor}
+          ends={["t=1", `t=${steps}`]}
+          P={P}
+        />
+      )}
     </svg>
   );
 };
\ No newline at end of file
@@ -1,6 +1,20 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import { useCurrentFrame, useVideoConfig, interpolate } from "remotion";
-import sampleImage from "../../_static/tiger.jpg";
+import React, { useEffect, useMemo, useRef } from "react";
+import { useCurrentFrame, useVideoConfig, interpolate, CalculateMetadataFunction } from "remotion";
+import { checkNumber, checkOneOf, checkStepTimeline } from "../propChecks";
+import { makeAlphaBar } from "../../seededMath";
+import { distanceToStandardNormal, normalPdf, pixelHistograms } from "../../imageMetrics";
+import { logMagnitudeShifted, lumaSpectrum, radialPowerSpectrum, Spectrum } from "../../imageSpectrum";
+import {
+  drawCoverToSquare,
+  EpsErrorMode,
+  epsPredictionError,
+  fixedNoise,
+  loadImage,
+  pixelsFromImage,
+  resolveImageUrl,
+} from "../imagePixels";
+import { exportQualityCsv, QualityStrip, qualityRowsFor } from "../QualityStrip";
+import { useDelayedLoad } from "../useDelayedLoad";
 
 export type ImageForwardProps = {
   imageUrl?: string;
@@ -9,50 +23,338 @@ export type ImageForwardProps = {
   framesPerStep?: number;
   tailHoldFrames?: number;
   internalSize?: number;
+  /** right-hand analysis panel */
+  sidePanel?: "none" | "histogram" | "spectrum";
+  /** PSNR / SSIM vs t strip under the images */
+  qualityStrip?: boolean;
+  /** third square: oracle x̂₀ = (xₜ − √(1−ᾱ) ε̂) / √ᾱ */
+  oraclePanel?: boolean;
+  /** how the oracle's ε̂ deviates from the true ε */
+  epsError?: EpsErrorMode;
+  /** std of the ε̂ error (gaussian / lowfreq) */
+  epsErrorStd?: number;
+  /** box-blur radius in pixels of the lowfreq error */
+  epsErrorBlur?: number;
 };
 
-const mulberry32 = (s: number) => () => {
-  let t = (s += 0x6d2b79f5);
-  t = Math.imul(t ^ (t >>> 15), t | 1);
-  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+// panel title suffix; δ = ε̂ − ε
+const EPS_ERROR_LABEL: Record<EpsErrorMode, string> = {
+  perfect: "ε̂ = ε",
+  gaussian: "white δ",
+  lowfreq: "low-freq δ",
 };
 
-const randn = (rng: () => number) => {
-  let u = 0, v = 0;
-  while (u === 0) u = rng();
-  while (v === 0) v = rng();
-  const m = Math.sqrt(-2 * Math.log(u));
-  return m * Math.cos(2 * Math.PI * v);
+type Palette = { bg: string; frame: string; grid: string; label: string };
+
+// Histogram panel: x_t pixel range, bins, and the log10 range of the KL / W1 chart
+const HIST_LO = -4;
+const HIST_HI = 4;
+const HIST_BINS = 80;
+const DIST_LOG_MIN = -3;
+const DIST_LOG_MAX = 1;
+const CHANNEL_COLORS = ["#ff6b6b", "#51cf66", "#4dabf7"];
+
+// every stride-th pixel, so at most `maxPixels` are visited
+const pixelStride = (pixelCount: number, maxPixels: number) =>
+  Math.max(1, Math.ceil(pixelCount / maxPixels));
+
+/**
+ * Per-channel histogram of x_t with the N(0, 1) density on top, and below it
+ * KL / W1 to N(0, 1) for every timestep (log scale) with the current t marked.
+ */
+const HistogramPanel: React.FC<{
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  hist: number[][];
+  distances: Array<{ kl: number; w1: number }>;
+  tPos: number;
+  P: Palette;
+}> = ({ x, y, w, h, hist, distances, tPos, P }) => {
+  const plotL = x + 36;
+  const plotR = x + w - 6;
+  const hTop = y;
+  const hBot = y + h * 0.52;
+  const dTop = hBot + 44;
+  const dBot = y + h - 18;
+
+  const densMax = Math.max(0.5, ...hist.map((d) => Math.max(...d)));
+  const hx = (v: number) => plotL + ((v - HIST_LO) / (HIST_HI - HIST_LO)) * (plotR - plotL);
+  const hy = (d: number) => hBot - (Math.min(d, densMax) / densMax) * (hBot - hTop);
+  const binW = (HIST_HI - HIST_LO) / HIST_BINS;
+  const stepPath = (dens: number[]) =>
+    dens
+      .map((d, k) => `${hx(HIST_LO + k * binW)},${hy(d)} ${hx(HIST_LO + (k + 1) * binW)},${hy(d)}`)
+      .join(" ");
+  const refPath = Array.from({ length: 121 }, (_, i) => {
+    const v = HIST_LO + (i / 120) * (HIST_HI - HIST_LO);
+    return `${hx(v)},${hy(normalPdf(v))}`;
+  }).join(" ");
+
+  const n = distances.length;
+  const dx = (t: number) => plotL + (t / Math.max(1, n - 1)) * (plotR - plotL);
+  const dy = (v: number) => {
+    const l = Math.max(DIST_LOG_MIN, Math.min(DIST_LOG_MAX, Math.log10(Math.max(1e-12, v))));
+    return dBot - ((l - DIST_LOG_MIN) / (DIST_LOG_MAX - DIST_LOG_MIN)) * (dBot - dTop);
+  };
+  const distPath = (key: "kl" | "w1") => distances.map((d, t) => `${dx(t)},${dy(d[key])}`).join(" ");
+  const cur = distances[Math.max(0, Math.min(n - 1, Math.round(tPos)))];
+
+  return (
+    <g>
+      <text x={plotL} y={hTop - 12} fill={P.label} fontSize={14} fontWeight={700}>
+        Pixel values of xₜ vs N(0, 1)
+      </text>
+      <rect x={plotL} y={hTop} width={plotR - plotL} height={hBot - hTop} fill="none" stroke={P.frame} />
+      {[-2, 0, 2].map((v) => (
+        <g key={v}>
+          <line x1={hx(v)} x2={hx(v)} y1={hTop} y2={hBot} stroke={P.grid} strokeDasharray="3 3" />
+          <text x={hx(v)} y={hBot + 14} fill={P.label} fontSize={11} textAnchor="middle" opacity={0.8}>
+            {v}
+          </text>
+        </g>
+      ))}
+      {hist.map((d, c) => (
+        <polyline key={c} points={stepPath(d)} fill="none" stroke={CHANNEL_COLORS[c]} strokeWidth={1.5} opacity={0.9} />
+      ))}
+      <polyline points={refPath} fill="none" stroke={P.label} strokeWidth={2} strokeDasharray="5 4" />
+      {["R", "G", "B"].map((lab, c) => (
+        <text key={lab} x={plotR - 70 + c * 16} y={hTop + 16} fill={CHANNEL_COLORS[c]} fontSize={12} fontWeight={700}>
+          {lab}
+        </text>
+      ))}
+
+      <text x={plotL} y={dTop - 12} fill={P.label} fontSize={14} fontWeight={700}>
+        Distance to N(0, 1) over t
+      </text>
+      <rect x={plotL} y={dTop} width={plotR - plotL} height={dBot - dTop} fill="none" stroke={P.frame} />
+      {Array.from({ length: DIST_LOG_MAX - DIST_LOG_MIN + 1 }, (_, i) => DIST_LOG_MIN + i).map((l) => (
+        <g key={l}>
+          <line x1={plotL} x2={plotR} y1={dy(10 ** l)} y2={dy(10 ** l)} stroke={P.grid} strokeDasharray="3 3" />
+          <text x={plotL - 4} y={dy(10 ** l) + 4} fill={P.label} fontSize={10} textAnchor="end" opacity={0.8}>
+            {`1e${l}`}
+          </text>
+        </g>
+      ))}
+      <polyline points={distPath("kl")} fill="none" stroke="#ffd166" strokeWidth={2} />
+      <polyline points={distPath("w1")} fill="none" stroke="#b197fc" strokeWidth={2} />
+      <line x1={dx(tPos)} x2={dx(tPos)} y1={dTop} y2={dBot} stroke="#ffffff" strokeDasharray="3 3" opacity={0.9} />
+      {cur && (
+        <>
+          <circle cx={dx(tPos)} cy={dy(cur.kl)} r={3.5} fill="#ffd166" />
+          <circle cx={dx(tPos)} cy={dy(cur.w1)} r={3.5} fill="#b197fc" />
+          <text x={plotL} y={dBot + 14} fill="#ffd166" fontSize={12}>
+            {`KL ${cur.kl.toFixed(3)}`}
+          </text>
+          <text x={plotL + 90} y={dBot + 14} fill="#b197fc" fontSize={12}>
+            {`W₁ ${cur.w1.toFixed(3)}`}
+          </text>
+        </>
+      )}
+    </g>
+  );
+};
+
+// Spectrum panel: decades shown below the brightest non-DC |X₀| and in the power chart
+const MAG_DECADES = 5;
+const POWER_DECADES = 7;
+const SIGNAL_COLOR = "#ffd166";
+const NOISE_COLOR = "#4dabf7";
+
+type SpectrumData = {
+  s: number;
+  X: Spectrum;
+  E: Spectrum;
+  /** radially averaged power of x₀ and ε (luma), index = radius */
+  pX: number[];
+  pE: number[];
+  /** log10 |X₀| / s of the brightest non-DC frequency */
+  magHi: number;
+};
+
+const spectrumData = (basePx: Float32Array, noise: Float32Array, s: number): SpectrumData => {
+  const X = lumaSpectrum(basePx, s);
+  const E = lumaSpectrum(noise, s);
+  let peak = 0;
+  for (let i = 1; i < s * s; i++) peak = Math.max(peak, X.re[i] * X.re[i] + X.im[i] * X.im[i]);
+  return {
+    s,
+    X,
+    E,
+    pX: radialPowerSpectrum(X, s),
+    pE: radialPowerSpectrum(E, s),
+    magHi: 0.5 * Math.log10(Math.max(1e-30, peak)) - Math.log10(s),
+  };
 };
 
-const makeAlphaBar = (T: number) => {
-  const betaStart = 1e-4, betaEnd = 0.2;
-  const betas = Array.from({ length: T }, (_, i) =>
-    Math.min(0.999, betaStart + (i / Math.max(1, T - 1)) * (betaEnd - betaStart))
+/**
+ * Centred log-magnitude spectrum of the luma of x_t, and below it the
+ * radially averaged power of the signal √ᾱ·x₀ vs the noise √(1−ᾱ)·ε on
+ * log–log axes, with the frequency above which noise dominates marked.
+ */
+const SpectrumPanel: React.FC<{
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  data: SpectrumData;
+  a: number;
+  b: number;
+  P: Palette;
+}> = ({ x, y, w, h, data, a, b, P }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const { s, X, E, pX, pE, magHi } = data;
+
+  const imgSide = Math.min(h * 0.5, w - 150);
+  const plotL = x + 36;
+  const plotR = x + w - 6;
+  const cTop = y + imgSide + 40;
+  const cBot = y + h - 18;
+
+  useEffect(() => {
+    const c = canvasRef.current;
+    if (!c) return;
+    const ctx = c.getContext("2d");
+    if (!ctx) return;
+    const mag = logMagnitudeShifted(X, E, a, b, s);
+    const off = document.createElement("canvas");
+    off.width = s; off.height = s;
+    const octx = off.getContext("2d");
+    if (!octx) return;
+    const imgData = octx.createImageData(s, s);
+    const out = imgData.data;
+    const lo = magHi - MAG_DECADES;
+    for (let i = 0, j = 0; i < mag.length; i++, j += 4) {
+      const v = Math.max(0, Math.min(255, Math.round(((mag[i] - lo) / MAG_DECADES) * 255)));
+      out[j] = v; out[j + 1] = v; out[j + 2] = v; out[j + 3] = 255;
+    }
+    octx.putImageData(imgData, 0, 0);
+
+    const dpr = window.devicePixelRatio || 1;
+    c.width = Math.round(imgSide * dpr);
+    c.height = Math.round(imgSide * dpr);
+    c.style.width = `${imgSide}px`;
+    c.style.height = `${imgSide}px`;
+    ctx.save();
+    ctx.scale(dpr, dpr);
+    ctx.drawImage(off, 0, 0, imgSide, imgSide);
+    ctx.restore();
+  }, [X, E, a, b, s, magHi, imgSide]);
+
+  // power chart: log10 frequency (cycles / pixel) vs log10 power
+  const ab = a * a;
+  const rMax = pX.length - 1;
+  const fLo = Math.log10(1 / s);
+  const fHi = Math.log10(0.5);
+  const pHi = Math.ceil(Math.log10(Math.max(1e-30, ...pX.slice(1), ...pE.slice(1))));
+  const pLo = pHi - POWER_DECADES;
+  const fx = (r: number) => plotL + ((Math.log10(r / s) - fLo) / (fHi - fLo)) * (plotR - plotL);
+  const py = (p: number) => {
+    const l = Math.max(pLo, Math.min(pHi, Math.log10(Math.max(1e-30, p))));
+    return cBot - ((l - pLo) / (pHi - pLo)) * (cBot - cTop);
+  };
+  const curve = (ps: number[], scale: number) =>
+    ps.slice(1).map((p, k) => `${fx(k + 1)},${py(scale * p)}`).join(" ");
+
+  // lowest frequency where the noise carries at least as much power as the signal
+  let rStar = -1;
+  for (let r = 1; r <= rMax; r++) {
+    if ((1 - ab) * pE[r] >= ab * pX[r]) {
+      rStar = r;
+      break;
+    }
+  }
+  const crossText =
+    rStar < 0
+      ? ["signal > noise", "at all frequencies"]
+      : rStar === 1
+      ? ["noise ≥ signal", "at all frequencies"]
+      : ["noise ≥ signal above", `${(rStar / s).toFixed(3)} cyc/px`];
+
+  const textX = x + imgSide + 14;
+
+  return (
+    <g>
+      <text x={x} y={y - 12} fill={P.label} fontSize={14} fontWeight={700}>
+        |FFT(xₜ)| (log, centred)
+      </text>
+      <rect x={x - 1} y={y - 1} width={imgSide + 2} height={imgSide + 2} fill="none" stroke={P.frame} />
+      <foreignObject x={x} y={y} width={imgSide} height={imgSide}>
+        <canvas ref={canvasRef} style={{ display: "block", width: "100%", height: "100%" }} />
+      </foreignObject>
+      <text x={textX} y={y + 16} fill={SIGNAL_COLOR} fontSize={12} fontWeight={700}>
+        {`signal  ᾱ·P(x₀)`}
+      </text>
+      <text x={textX} y={y + 34} fill={NOISE_COLOR} fontSize={12} fontWeight={700}>
+        {`noise  (1−ᾱ)·P(ε)`}
+      </text>
+      <text x={textX} y={y + 58} fill={P.label} fontSize={11} opacity={0.85}>
+        centre = low freq,
+      </text>
+      <text x={textX} y={y + 72} fill={P.label} fontSize={11} opacity={0.85}>
+        edges = high freq
+      </text>
+      {crossText.map((line, i) => (
+        <text key={i} x={textX} y={y + 96 + i * 15} fill={P.label} fontSize={12} fontWeight={i === 1 ? 700 : 400}>
+          {line}
+        </text>
+      ))}
+
+      <text x={plotL} y={cTop - 12} fill={P.label} fontSize={14} fontWeight={700}>
+        Radial power spectrum (log–log)
+      </text>
+      <rect x={plotL} y={cTop} width={plotR - plotL} height={cBot - cTop} fill="none" stroke={P.frame} />
+      {Array.from({ length: POWER_DECADES - 1 }, (_, i) => pLo + 1 + i).map((l) => (
+        <line key={l} x1={plotL} x2={plotR} y1={py(10 ** l)} y2={py(10 ** l)} stroke={P.grid} strokeDasharray="3 3" />
+      ))}
+      <text x={plotL - 4} y={cTop + 10} fill={P.label} fontSize={10} textAnchor="end" opacity={0.8}>
+        {`1e${pHi}`}
+      </text>
+      <text x={plotL - 4} y={cBot} fill={P.label} fontSize={10} textAnchor="end" opacity={0.8}>
+        {`1e${pLo}`}
+      </text>
+      <polyline points={curve(pX, 1)} fill="none" stroke={SIGNAL_COLOR} strokeWidth={1} strokeDasharray="4 4" opacity={0.45} />
+      <polyline points={curve(pX, ab)} fill="none" stroke={SIGNAL_COLOR} strokeWidth={2} />
+      <polyline points={curve(pE, 1 - ab)} fill="none" stroke={NOISE_COLOR} strokeWidth={2} />
+      {rStar > 1 && (
+        <line x1={fx(rStar)} x2={fx(rStar)} y1={cTop} y2={cBot} stroke="#ffffff" strokeDasharray="3 3" opacity={0.9} />
+      )}
+      <text x={plotL} y={cBot + 14} fill={P.label} fontSize={11} opacity={0.8}>
+        {`${(1 / s).toPrecision(2)}`}
+      </text>
+      <text x={plotR} y={cBot + 14} fill={P.label} fontSize={11} textAnchor="end" opacity={0.8}>
+        0.5 cyc/px
+      </text>
+    </g>
   );
-  const alphas = betas.map((b) => 1 - b);
-  const out: number[] = [];
-  let p = 1;
-  for (const a of alphas) { p *= a; out.push(p); }
-  return out;
 };
 
-const drawCoverToSquare = (
-  ctx: CanvasRenderingContext2D,
-  img: HTMLImageElement,
-  size: number
-) => {
-  const iw = img.naturalWidth || img.width;
-  const ih = img.naturalHeight || img.height;
-  const s = size;
-  const scale = Math.max(s / iw, s / ih);
-  const w = iw * scale;
-  const h = ih * scale;
-  const dx = (s - w) / 2;
-  const dy = (s - h) / 2;
-  ctx.clearRect(0, 0, s, s);
-  ctx.drawImage(img, dx, dy, w, h);
+/** The scene's PSNR / SSIM curves as CSV (for the Element's export button). */
+export const exportImageForwardQualityCsv = ({
+  imageUrl,
+  steps,
+  internalSize = 512,
+  epsError = "perfect",
+  epsErrorStd = 0.1,
+  epsErrorBlur = 8,
+}: ImageForwardProps) =>
+  exportQualityCsv(imageUrl, internalSize, makeAlphaBar(Math.max(2, steps)), (s) =>
+    epsPredictionError(epsError, s, epsErrorStd, epsErrorBlur)
+  );
+
+/* timeline length: steps * framesPerStep + end hold */
+export const getImageForwardDuration = ({ steps, framesPerStep = 6, tailHoldFrames = 120 }: ImageForwardProps) =>
+  Math.max(1, steps * framesPerStep + Math.max(0, tailHoldFrames));
+
+export const calculateImageForwardMetadata: CalculateMetadataFunction<ImageForwardProps> = ({ props, compositionId }) => {
+  checkStepTimeline(compositionId, props);
+  checkNumber(compositionId, props, "internalSize", { min: 16, max: 2048, integer: true, optional: true });
+  checkOneOf(compositionId, props, "sidePanel", ["none", "histogram", "spectrum"], true);
+  checkOneOf(compositionId, props, "epsError", ["perfect", "gaussian", "lowfreq"], true);
+  checkNumber(compositionId, props, "epsErrorStd", { min: 0, max: 2, optional: true });
+  checkNumber(compositionId, props, "epsErrorBlur", { min: 1, max: 64, integer: true, optional: true });
+  return { durationInFrames: getImageForwardDuration(props) };
 };
 
 export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
@@ -62,6 +364,12 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
   framesPerStep = 6,
   tailHoldFrames = 120,
   internalSize = 512,
+  sidePanel = "none",
+  qualityStrip = false,
+  oraclePanel = false,
+  epsError = "perfect",
+  epsErrorStd = 0.1,
+  epsErrorBlur = 8,
 }) => {
   const frame = useCurrentFrame();
   const { width, height } = useVideoConfig();
@@ -77,62 +385,34 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
   const gap = 24;
   const mBot = 48;
 
-  const availableW = width - 2 * mSide - gap;
-  const sq = Math.min(availableW / 2, height - mTop - mBot);
+  const panelW = sidePanel === "none" ? 0 : 340;
+  const nSq = oraclePanel ? 3 : 2;
+  const availableW = width - 2 * mSide - (nSq - 1) * gap - (panelW ? panelW + gap : 0);
+  const stripH = qualityStrip ? 120 : 0;
+  const sq = Math.min(availableW / nSq, height - mTop - mBot - (stripH ? stripH + gap : 0));
 
   const leftX = mSide;
   const rightX = mSide + sq + gap;
+  const oracleX = rightX + sq + gap;
+  const squaresR = leftX + nSq * sq + (nSq - 1) * gap;
+  const panelX = width - mSide - panelW;
   const topY = mTop;
 
   const titleY = 34;
   const subY = 56;
 
-  // Load image
-  const [imgEl, setImgEl] = useState<HTMLImageElement | null>(null);
-  useEffect(() => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.decoding = "async";
-    img.src = imageUrl && imageUrl.trim().length ? imageUrl : sampleImage;
-    const onLoad = () => setImgEl(img);
-    const onError = () => setImgEl(null);
-    img.addEventListener("load", onLoad);
-    img.addEventListener("error", onError);
-    return () => {
-      img.removeEventListener("load", onLoad);
-      img.removeEventListener("error", onError);
-    };
-  }, [imageUrl]);
+  // Load image (renders wait for it)
+  const { value: imgEl, error: imageError } = useDelayedLoad(
+    "image",
+    () => loadImage(resolveImageUrl(imageUrl)),
+    [imageUrl]
+  );
 
   // Base pixels (0..1)
-  const [basePx, setBasePx] = useState<Float32Array | null>(null);
-  useEffect(() => {
-    if (!imgEl) return;
-    const s = internalSize;
-    const off = document.createElement("canvas");
-    off.width = s; off.height = s;
-    const ctx = off.getContext("2d", { willReadFrequently: true });
-    if (!ctx) return;
-
-    drawCoverToSquare(ctx, imgEl, s);
-    const data = ctx.getImageData(0, 0, s, s).data;
-    const arr = new Float32Array(s * s * 3);
-    for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
-      arr[j + 0] = data[i + 0] / 255;
-      arr[j + 1] = data[i + 1] / 255;
-      arr[j + 2] = data[i + 2] / 255;
-    }
-    setBasePx(arr);
-  }, [imgEl, internalSize]);
+  const basePx = useMemo(() => (imgEl ? pixelsFromImage(imgEl, internalSize) : null), [imgEl, internalSize]);
 
   // Fixed noise (same ε for forward & reverse)
-  const noise = useMemo(() => {
-    if (!basePx) return null;
-    const rng = mulberry32(0xdecafbad);
-    const e = new Float32Array(basePx.length);
-    for (let i = 0; i < e.length; i++) e[i] = randn(rng);
-    return e;
-  }, [basePx]);
+  const noise = useMemo(() => (basePx ? fixedNoise(basePx.length) : null), [basePx]);
 
   // Schedule + timing
   const alphaBar = useMemo(() => makeAlphaBar(Math.max(2, steps)), [steps]);
@@ -158,9 +438,44 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
   const s1 = Math.sqrt(Math.max(1e-8, ab));
   const s2 = Math.sqrt(Math.max(0, 1 - ab));
 
+  // δ of the oracle's ε̂ = ε + δ (null = perfect prediction)
+  const epsErr = useMemo(
+    () => epsPredictionError(epsError, internalSize, epsErrorStd, epsErrorBlur),
+    [epsError, internalSize, epsErrorStd, epsErrorBlur]
+  );
+
+  const qualityRows = useMemo(
+    () =>
+      qualityStrip && basePx && noise ? qualityRowsFor(basePx, noise, internalSize, alphaBar, epsErr) : null,
+    [qualityStrip, basePx, noise, internalSize, alphaBar, epsErr]
+  );
+
+  // Histogram panel: live per-channel histogram + distance-to-N(0,1) curves
+  const showHistogram = sidePanel === "histogram";
+  const hist = useMemo(() => {
+    if (!showHistogram || !basePx || !noise) return null;
+    const stride = pixelStride(basePx.length / 3, 65536);
+    return pixelHistograms(basePx, noise, s1, s2, { bins: HIST_BINS, lo: HIST_LO, hi: HIST_HI, stride });
+  }, [showHistogram, basePx, noise, s1, s2]);
+  const distances = useMemo(() => {
+    if (!showHistogram || !basePx || !noise) return null;
+    const stride = pixelStride(basePx.length / 3, 20000);
+    return alphaBar.map((a) =>
+      distanceToStandardNormal(basePx, noise, Math.sqrt(a), Math.sqrt(1 - a), { stride })
+    );
+  }, [showHistogram, basePx, noise, alphaBar]);
+
+  // Spectrum panel: x₀ and ε transformed once, x_t's spectrum follows by linearity
+  const showSpectrum = sidePanel === "spectrum";
+  const spectrum = useMemo(
+    () => (showSpectrum && basePx && noise ? spectrumData(basePx, noise, internalSize) : null),
+    [showSpectrum, basePx, noise, internalSize]
+  );
+
   // Canvases
   const leftRef = useRef<HTMLCanvasElement | null>(null);
   const rightRef = useRef<HTMLCanvasElement | null>(null);
+  const oracleRef = useRef<HTMLCanvasElement | null>(null);
 
   // Left: original
   useEffect(() => {
@@ -221,10 +536,51 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
     ctx.restore();
   }, [basePx, noise, sq, s1, s2, internalSize, frame]);
 
+  // Oracle: x̂₀ = (xₜ − s2·ε̂)/s1 = x₀ − (s2/s1)·δ, so the error is amplified by √((1−ᾱ)/ᾱ)
+  useEffect(() => {
+    if (!oraclePanel || !basePx) return;
+    const c = oracleRef.current;
+    if (!c) return;
+    const ctx = c.getContext("2d");
+    if (!ctx) return;
+
+    const s = internalSize;
+    const off = document.createElement("canvas");
+    off.width = s; off.height = s;
+    const octx = off.getContext("2d");
+    if (!octx) return;
+
+    const imgData = octx.createImageData(s, s);
+    const out = imgData.data;
+    const gain = s2 / s1;
+
+    for (let i = 0, j = 0; i < basePx.length; i += 3, j += 4) {
+      for (let ch = 0; ch < 3; ch++) {
+        const v = basePx[i + ch] - (epsErr ? gain * epsErr[i + ch] : 0);
+        out[j + ch] = Math.max(0, Math.min(255, Math.round(v * 255)));
+      }
+      out[j + 3] = 255;
+    }
+    octx.putImageData(imgData, 0, 0);
+
+    const dpr = window.devicePixelRatio || 1;
+    c.width = Math.round(sq * dpr);
+    c.height = Math.round(sq * dpr);
+    c.style.width = `${sq}px`;
+    c.style.height = `${sq}px`;
+
+    ctx.save();
+    ctx.scale(dpr, dpr);
+    ctx.drawImage(off, 0, 0, sq, sq);
+    ctx.restore();
+  }, [oraclePanel, basePx, epsErr, sq, s1, s2, internalSize]);
+
   const phase = firstHalf ? "noising" : "denoising";
   const tDisp = Math.round(tPos) + 1;
   const title = "Forward diffusion + Denoising (same ε)";
-  const sub = `${phase} • t=${tDisp}/${steps} • ᾱ≈${ab.toFixed(6)}`;
+  const sub =
+    `${phase} • t=${tDisp}/${steps} • ᾱ≈${ab.toFixed(6)}` +
+    (oraclePanel && epsErr ? ` • ε̂ error ×${(s2 / s1).toPrecision(3)} in x̂₀` : "");
 
   return (
     <svg width={width} height={height} style={{ background: P.bg }}>
@@ -233,12 +589,15 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
         {title}
       </text>
       <text x={width / 2} y={subY + 10} fill={P.label} fontSize={18} opacity={0.9} textAnchor="middle">
-        {sub}
+        {imageError ? `Image failed: ${imageError}` : sub}
       </text>
 
       {/* Frames */}
       <rect x={leftX - 1} y={topY - 1} width={sq + 2} height={sq + 2} fill="none" stroke={P.frame} />
       <rect x={rightX - 1} y={topY - 1} width={sq + 2} height={sq + 2} fill="none" stroke={P.frame} />
+      {oraclePanel && (
+        <rect x={oracleX - 1} y={topY - 1} width={sq + 2} height={sq + 2} fill="none" stroke={P.frame} />
+      )}
 
       {/* Labels */}
       <text x={leftX} y={topY - 12} fill={P.label} fontSize={16} fontWeight={700}>
@@ -247,6 +606,11 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
       <text x={rightX} y={topY - 12} fill={P.label} fontSize={16} fontWeight={700}>
         Forward → Denoise (same ε)
       </text>
+      {oraclePanel && (
+        <text x={oracleX} y={topY - 12} fill={P.label} fontSize={16} fontWeight={700}>
+          {`Oracle x̂₀ (${EPS_ERROR_LABEL[epsError]})`}
+        </text>
+      )}
 
       {/* Canvases */}
       <foreignObject x={leftX} y={topY} width={sq} height={sq}>
@@ -255,6 +619,40 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
       <foreignObject x={rightX} y={topY} width={sq} height={sq}>
         <canvas ref={rightRef} style={{ display: "block", width: "100%", height: "100%" }} />
       </foreignObject>
+      {oraclePanel && (
+        <foreignObject x={oracleX} y={topY} width={sq} height={sq}>
+          <canvas ref={oracleRef} style={{ display: "block", width: "100%", height: "100%" }} />
+        </foreignObject>
+      )}
+
+      {hist && distances && (
+        <HistogramPanel
+          x={panelX}
+          y={topY}
+          w={panelW}
+          h={sq}
+          hist={hist}
+          distances={distances}
+          tPos={tPos}
+          P={P}
+        />
+      )}
+
+      {spectrum && (
+        <SpectrumPanel x={panelX} y={topY} w={panelW} h={sq} data={spectrum} a={s1} b={s2} P={P} />
+      )}
+
+      {qualityRows && (
+        <QualityStrip
+          x={leftX}
+          y={topY + sq + gap}
+          w={squaresR - leftX}
+          h={stripH}
+          rows={qualityRows}
+          tPos={tPos}
+          P={P}
+        />
+      )}
 
       {/* Bottom note */}
       <text
@@ -1,10 +1,22 @@
 import React, { useMemo } from "react";
-import { useCurrentFrame, useVideoConfig, interpolate } from "remotion";
+import { useCurrentFrame, useVideoConfig, interpolate, CalculateMetadataFunction } from "remotion";
+import { checkDist2D, checkIntList, checkNumber, checkOneOf, checkStepTimeline } from "../propChecks";
+import {
+  alphaBarFromBetas, dataPoints2D, Dist2DSource, kde, makeBetasLinear, makeRng, mulberry32,
+  randn, randn2, sample1D,
+} from "../../seededMath";
+import {
+  isDeterministicSampler, makeKernelMixture, ReverseSampler, sampleReverse, samplingTimesteps,
+} from "../../mixtureScore";
+import { meanNearestDistance } from "../../sampleMetrics";
+import { distanceCsv, distanceFloor, distanceRowsFor, MetricsCloud, MetricsStrip, metricsSubsample } from "../MetricsStrip";
+import { ParticleTrails, Trail, trailIndices } from "../ParticleTrails";
+import { QUIVER_FIELDS, QUIVER_NORMS, QuiverField, QuiverNorm, ScoreQuiver } from "../ScoreQuiver";
 
 export type DDPMReverseProps = {
   dim: "1d" | "2d";
   dist1d: "uniform" | "spiky" | "sketch";
-  dist2d: "ring" | "spiral" | "sketch";
+  dist2d: Dist2DSource;
   steps: number;
   n: number;
   showTarget?: boolean;
@@ -12,101 +24,167 @@ export type DDPMReverseProps = {
   custom1D?: Float32Array | null;
   custom2D?: { xs: Float32Array; ys: Float32Array } | null;
   mode?: "light" | "dark";
+  /**
+   * "replay": closed-form x_t = √ᾱ x0 + √(1−ᾱ) ε played backwards with a fixed ε.
+   * Every other sampler starts from fresh N(0,I) and uses the exact score of the
+   * target treated as a kernel mixture (std = kernelStd):
+   * "ancestral" (DDPM), "ddim" (η = eta), "euler" / "heun" (probability-flow ODE).
+   */
+  sampler?: ReverseSamplerId;
+  kernelStd?: number;          // default 0.1
+  samplingSteps?: number;      // default = steps; fewer skips training timesteps
+  eta?: number;                // DDIM only, default 0
+  /** exact score / ε field of q_t on a grid (2D only) */
+  quiver?: QuiverField;        // default "off"
+  quiverDensity?: number;      // arrows per side, default 17
+  quiverNorm?: QuiverNorm;     // default "log"
+  /** fading x_T → x_t trails for strided particles + pinned indices (2D only) */
+  trailCount?: number;         // default 0
+  pinnedIndices?: number[];
+  /** MMD / sliced W₂ / energy distance to N(0, I) and to the data per step (2D only) */
+  metricsStrip?: boolean;        // default false
   /** pacing + end hold **/
   framesPerStep?: number;      // default 6
   tailHoldFrames?: number;     // default 120
 };
 
-/* RNG + helpers */
-const mulberry32 = (s: number) => () => {
-  let t = (s += 0x6d2b79f5);
-  t = Math.imul(t ^ (t >>> 15), t | 1);
-  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+export type ReverseSamplerId = "replay" | "ancestral" | "ddim" | "euler" | "heun";
+
+const SAMPLER_KIND: Record<Exclude<ReverseSamplerId, "replay">, ReverseSampler> = {
+  ancestral: "ddpm", ddim: "ddim", euler: "euler", heun: "heun",
 };
-const randn = (rng: () => number) => {
-  let u = 0, v = 0;
-  while (u === 0) u = rng();
-  while (v === 0) v = rng();
-  const m = Math.sqrt(-2 * Math.log(u));
-  return m * Math.cos(2 * Math.PI * v);
+
+const SAMPLER_TITLE: Record<ReverseSamplerId, string> = {
+  replay: "Reverse diffusion (DDPM — oracle)",
+  ancestral: "Reverse diffusion (ancestral DDPM — exact score)",
+  ddim: "Reverse diffusion (DDIM — exact score)",
+  euler: "Reverse diffusion (probability-flow ODE, Euler)",
+  heun: "Reverse diffusion (probability-flow ODE, Heun)",
 };
-const randn2 = (rng: () => number): [number, number] => {
-  let u = 0, v = 0;
-  while (u === 0) u = rng();
-  while (v === 0) v = rng();
-  const m = Math.sqrt(-2 * Math.log(u));
-  return [m * Math.cos(2 * Math.PI * v), m * Math.sin(2 * Math.PI * v)];
+
+type BaseProps = Pick<DDPMReverseProps, "dim" | "dist1d" | "dist2d" | "steps" | "n">;
+
+const reverseBaseSeed = ({ dim, dist1d, dist2d, steps, n }: BaseProps) =>
+  (dim === "1d" ? 8081 : 9092) + n * 7 + (steps << 2) +
+  (dist1d === "spiky" ? 100 : 0) + (dist2d === "ring" ? 200 : 0);
+
+/* base x0 (1d: x only) — shared by the scene and its CSV export */
+const reverseBase = ({
+  custom1D = null,
+  custom2D = null,
+  ...props
+}: BaseProps & Pick<DDPMReverseProps, "custom1D" | "custom2D">): { x: Float32Array; y?: Float32Array } => {
+  const { dim, dist1d, dist2d, n } = props;
+  const baseRng = mulberry32(reverseBaseSeed(props) >>> 0);
+  if (dim === "1d") {
+    if (dist1d === "sketch" && custom1D && custom1D.length) return { x: custom1D };
+    return { x: sample1D(n, dist1d === "spiky" ? "spiky" : "uniform", baseRng) };
+  }
+  const s2 = dataPoints2D(dist2d, n, baseRng, custom2D);
+  return { x: s2.xs, y: s2.ys };
 };
 
-/* Base datasets */
-const sample1D = (n: number, dist: "uniform" | "spiky", rng: () => number) => {
-  const out = new Float32Array(n);
-  if (dist === "uniform") {
-    for (let i = 0; i < n; i++) out[i] = (rng() * 2 - 1) * 4;
-  } else {
-    for (let i = 0; i < n; i++) {
-      const k = Math.floor(rng() * 7) - 3;
-      out[i] = k + 0.15 * randn(rng);
-    }
+/* the fixed ε per point behind the closed-form replay */
+const reverseEps = (dim: "1d" | "2d", len: number, baseSeed: number): { ex: Float32Array; ey?: Float32Array } => {
+  const epsRng = mulberry32((baseSeed ^ 0x9e3779b9) >>> 0);
+  if (dim === "1d") {
+    const e = new Float32Array(len);
+    for (let i = 0; i < e.length; i++) e[i] = randn(epsRng);
+    return { ex: e };
+  }
+  const ex = new Float32Array(len);
+  const ey = new Float32Array(len);
+  for (let i = 0; i < len; i++) {
+    const [a, b] = randn2(epsRng);
+    ex[i] = a; ey[i] = b;
   }
-  return out;
+  return { ex, ey };
 };
-const sample2D = (n: number, dist: "ring" | "spiral", rng: () => number) => {
-  const xs = new Float32Array(n);
-  const ys = new Float32Array(n);
-  if (dist === "ring") {
-    for (let i = 0; i < n; i++) {
-      const th = rng() * Math.PI * 2;
-      const r = 2.2 + (rng() - 0.5) * 0.3;
-      xs[i] = r * Math.cos(th);
-      ys[i] = r * Math.sin(th);
-    }
+
+/*
+ * Distances to N(0, I) and to x0 along the 2D timeline: every sampler
+ * snapshot x_T … x_0, or for the replay the closed form from t = T−1 to 0.
+ */
+const reverseDistanceRows = (
+  base: { x: Float32Array; y?: Float32Array },
+  eps: { ex: Float32Array; ey?: Float32Array },
+  alphaBar: number[],
+  sampled: { states: Float32Array[]; taus: number[] } | null
+) => {
+  const len = base.x.length;
+  const x0 = base.x, y0 = base.y as Float32Array;
+  const ex = eps.ex, ey = eps.ey as Float32Array;
+  const data = new Float32Array(len * 2);
+  for (let i = 0; i < len; i++) {
+    data[2 * i] = x0[i];
+    data[2 * i + 1] = y0[i];
+  }
+  let clouds: MetricsCloud[];
+  if (sampled) {
+    const { states, taus } = sampled;
+    clouds = states.map((x, s) => {
+      const t = s < taus.length ? taus[s] : 0;
+      return { t, alphaBar: s < taus.length ? alphaBar[t] : 1, x };
+    });
   } else {
-    for (let i = 0; i < n; i++) {
-      const a = rng() * 5.5 * Math.PI;
-      const r = 0.2 + 0.15 * a;
-      const [e0, e1] = randn2(rng);
-      xs[i] = r * Math.cos(a) + 0.1 * e0;
-      ys[i] = r * Math.sin(a) + 0.1 * e1;
+    // each step's cloud only on the particles the metrics keep
+    const [bx, by, sx, sy] = [x0, y0, ex, ey].map(metricsSubsample);
+    const m = bx.length;
+    clouds = [];
+    for (let t = alphaBar.length - 1; t >= 0; t--) {
+      const s1 = Math.sqrt(Math.max(1e-8, alphaBar[t]));
+      const s2 = Math.sqrt(Math.max(0, 1 - alphaBar[t]));
+      const x = new Float32Array(m * 2);
+      for (let i = 0; i < m; i++) {
+        x[2 * i] = s1 * bx[i] + s2 * sx[i];
+        x[2 * i + 1] = s1 * by[i] + s2 * sy[i];
+      }
+      clouds.push({ t, alphaBar: alphaBar[t], x });
     }
   }
-  return { xs, ys };
+  return distanceRowsFor(clouds, data, 2);
 };
 
-/* ᾱ(t) */
-const makeAlphaBar = (T: number) => {
-  const betaStart = 1e-4, betaEnd = 0.2;
-  const betas = Array.from({ length: T }, (_, i) =>
-    Math.min(0.999, betaStart + (i / Math.max(1, T - 1)) * (betaEnd - betaStart))
-  );
-  const alphas = betas.map((b) => 1 - b);
-  const out: number[] = [];
-  let p = 1;
-  for (const a of alphas) { p *= a; out.push(p); }
-  return out;
+/** The 2D scene's per-step distance curves as CSV (what the metrics strip plots). */
+export const exportDDPMReverseDistanceCsv = (props: DDPMReverseProps) => {
+  const { steps, sampler = "replay", kernelStd = 0.1, samplingSteps, eta = 0 } = props;
+  const baseProps = { ...props, dim: "2d" as const };
+  const baseSeed = reverseBaseSeed(baseProps);
+  const base = reverseBase(baseProps);
+  const eps = reverseEps("2d", base.x.length, baseSeed);
+  const alphaBar = alphaBarFromBetas(makeBetasLinear(Math.max(2, steps)));
+  let sampled: { states: Float32Array[]; taus: number[] } | null = null;
+  if (sampler !== "replay") {
+    const taus = samplingTimesteps(steps, samplingSteps ?? steps);
+    const mix = makeKernelMixture([base.x, base.y as Float32Array], kernelStd);
+    const states = sampleReverse(mix, alphaBar, base.x.length, makeRng(baseSeed).fork(0xddb3), {
+      sampler: SAMPLER_KIND[sampler], taus, eta,
+    });
+    sampled = { states, taus };
+  }
+  return distanceCsv(reverseDistanceRows(base, eps, alphaBar, sampled));
 };
 
-/* KDE for 1D density */
-const kde = (data: Float32Array, grid: number[]) => {
-  const n = data.length || 1;
-  let mean = 0; for (let i = 0; i < n; i++) mean += data[i]; mean /= n;
-  let v = 0; for (let i = 0; i < n; i++) { const d = data[i] - mean; v += d * d; }
-  v = v / Math.max(1, n - 1);
-  const std = Math.sqrt(Math.max(1e-6, v));
-  const h = 1.06 * std * Math.pow(n, -1 / 5);
-  const inv = 1 / (Math.sqrt(2 * Math.PI) * h * n);
-  const ys = new Array(grid.length).fill(0);
-  for (let j = 0; j < grid.length; j++) {
-    const x = grid[j];
-    let s = 0;
-    for (let i = 0; i < n; i++) {
-      const z = (x - data[i]) / h;
-      s += Math.exp(-0.5 * z * z);
-    }
-    ys[j] = inv * s;
-  }
-  return ys;
+/* timeline length: steps * framesPerStep + end hold */
+export const getDDPMReverseDuration = ({ steps, framesPerStep = 6, tailHoldFrames = 120 }: DDPMReverseProps) =>
+  Math.max(1, steps * framesPerStep + Math.max(0, tailHoldFrames));
+
+export const calculateDDPMReverseMetadata: CalculateMetadataFunction<DDPMReverseProps> = ({ props, compositionId }) => {
+  checkOneOf(compositionId, props, "dim", ["1d", "2d"]);
+  checkOneOf(compositionId, props, "dist1d", ["uniform", "spiky", "sketch"]);
+  checkDist2D(compositionId, props, props.dim === "2d");
+  checkStepTimeline(compositionId, props);
+  checkNumber(compositionId, props, "n", { min: 1, max: 20000, integer: true });
+  checkOneOf(compositionId, props, "sampler", Object.keys(SAMPLER_TITLE), true);
+  checkNumber(compositionId, props, "kernelStd", { min: 0.001, max: 2, optional: true });
+  checkNumber(compositionId, props, "samplingSteps", { min: 1, max: props.steps, integer: true, optional: true });
+  checkNumber(compositionId, props, "eta", { min: 0, max: 1, optional: true });
+  checkOneOf(compositionId, props, "quiver", QUIVER_FIELDS, true);
+  checkNumber(compositionId, props, "quiverDensity", { min: 4, max: 48, integer: true, optional: true });
+  checkOneOf(compositionId, props, "quiverNorm", QUIVER_NORMS, true);
+  checkNumber(compositionId, props, "trailCount", { min: 0, max: 200, integer: true, optional: true });
+  checkIntList(compositionId, props, "pinnedIndices", { min: 0, max: 19999, optional: true });
+  return { durationInFrames: getDDPMReverseDuration(props) };
 };
 
 export const DDPMReverseComposition: React.FC<DDPMReverseProps> = ({
@@ -120,6 +198,16 @@ export const DDPMReverseComposition: React.FC<DDPMReverseProps> = ({
   custom1D = null,
   custom2D = null,
   mode = "dark",
+  sampler = "replay",
+  kernelStd = 0.1,
+  samplingSteps,
+  eta = 0,
+  quiver = "off",
+  quiverDensity = 17,
+  quiverNorm = "log",
+  trailCount = 0,
+  pinnedIndices = [],
+  metricsStrip = false,
   framesPerStep = 6,
   tailHoldFrames = 120,
 }) => {
@@ -129,68 +217,125 @@ export const DDPMReverseComposition: React.FC<DDPMReverseProps> = ({
   const P =
     mode === "light"
       ? { bg:"#fff", frame:"#e8ecf2", grid:"#d9e1ec", line:"#0ea5e9", dots:"#f59e0b",
-          target:"#111", label:"#0b1324", axes:"#1f2937", ghost:"#94a3b8", legendBg:"rgba(15,23,42,.06)" }
+          target:"#111", label:"#0b1324", axes:"#1f2937", ghost:"#94a3b8", legendBg:"rgba(15,23,42,.06)",
+          trail:"#7c3aed", pin:"#e11d48" }
       : { bg:"#000", frame:"#243145", grid:"#2b3a51", line:"#67e8f9", dots:"#ffd166",
-          target:"#fff", label:"#dfe9f5", axes:"#aac0d4", ghost:"#6b7d97", legendBg:"rgba(255,255,255,.06)" };
-
-  // Base x0
-  const baseSeed =
-    (dim === "1d" ? 8081 : 9092) + n * 7 + (steps << 2) +
-    (dist1d === "spiky" ? 100 : 0) + (dist2d === "ring" ? 200 : 0);
-  const baseRng = useMemo(() => mulberry32(baseSeed >>> 0), [baseSeed]);
-
-  const base = useMemo(() => {
-    if (dim === "1d") {
-      if (dist1d === "sketch" && custom1D && custom1D.length) return { x: custom1D };
-      return { x: sample1D(n, dist1d === "spiky" ? "spiky" : "uniform", baseRng) };
-    } else {
-      if (dist2d === "sketch" && custom2D && custom2D.xs.length) return { x: custom2D.xs, y: custom2D.ys };
-      const s2 = sample2D(n, dist2d === "ring" ? "ring" : "spiral", baseRng);
-      return { x: s2.xs, y: s2.ys };
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [dim, dist1d, dist2d, n, baseRng, custom1D, custom2D]);
-
-  // Fixed ε per point
-  const epsSeed = baseSeed ^ 0x9e3779b9;
-  const epsRng = useMemo(() => mulberry32(epsSeed >>> 0), [epsSeed]);
-  const eps = useMemo(() => {
-    if (dim === "1d") {
-      const e = new Float32Array((base.x as Float32Array).length);
-      for (let i = 0; i < e.length; i++) e[i] = randn(epsRng);
-      return { ex: e };
-    } else {
-      const len = (base.x as Float32Array).length;
-      const ex = new Float32Array(len);
-      const ey = new Float32Array(len);
-      for (let i = 0; i < len; i++) {
-        const [a, b] = randn2(epsRng);
-        ex[i] = a; ey[i] = b;
-      }
-      return { ex, ey };
-    }
-  }, [dim, base, epsRng]);
+          target:"#fff", label:"#dfe9f5", axes:"#aac0d4", ghost:"#6b7d97", legendBg:"rgba(255,255,255,.06)",
+          trail:"#c4b5fd", pin:"#fb7185" };
+
+  // Base x0 and a fixed ε per point
+  const baseSeed = reverseBaseSeed({ dim, dist1d, dist2d, steps, n });
+  const base = useMemo(
+    () => reverseBase({ dim, dist1d, dist2d, steps, n, custom1D, custom2D }),
+    [dim, dist1d, dist2d, steps, n, custom1D, custom2D]
+  );
+  const eps = useMemo(() => reverseEps(dim, base.x.length, baseSeed), [dim, base, baseSeed]);
 
   // schedule + reverse timeline with tail hold
-  const alphaBar = useMemo(() => makeAlphaBar(Math.max(2, steps)), [steps]);
+  const betas = useMemo(() => makeBetasLinear(Math.max(2, steps)), [steps]);
+  const alphaBar = useMemo(() => alphaBarFromBetas(betas), [betas]);
   const activeFrames = Math.max(1, steps * framesPerStep);
   const tail = Math.max(0, tailHoldFrames);
   const totalFrames = activeFrames + tail;
 
   const f = Math.min(frame, activeFrames - 1); // clamp during tail
-  const tPosFwd = interpolate(
-    f, [0, Math.max(1, activeFrames - 1)], [0, Math.max(1, steps - 1)],
-    { extrapolateLeft: "clamp", extrapolateRight: "clamp" }
+  const D = dim === "1d" ? 1 : 2;
+  const len = (base.x as Float32Array).length;
+
+  // Score-based samplers: every snapshot x_T … x_0 over S sampling steps,
+  // computed once per dataset/schedule. The S steps share the same timeline.
+  const taus = useMemo(
+    () => samplingTimesteps(steps, samplingSteps ?? steps),
+    [steps, samplingSteps]
+  );
+  const S = taus.length;
+  const kind = sampler === "replay" ? null : SAMPLER_KIND[sampler];
+  const showField = dim === "2d" && quiver !== "off";
+  const mix = useMemo(() => {
+    if (!kind && !showField) return null;
+    const coords = dim === "1d" ? [base.x] : [base.x, base.y as Float32Array];
+    return makeKernelMixture(coords, kernelStd);
+  }, [kind, showField, dim, base, kernelStd]);
+  const sampled = useMemo(() => {
+    if (!kind || !mix) return null;
+    return sampleReverse(mix, alphaBar, len, makeRng(baseSeed).fork(0xddb3), { sampler: kind, taus, eta });
+  }, [kind, mix, alphaBar, len, baseSeed, taus, eta]);
+  const deterministic = kind !== null && isDeterministicSampler(kind, eta);
+
+  // sample quality of the final x_0 against the target set
+  const quality = useMemo(
+    () => (sampled && mix ? meanNearestDistance(sampled[S], mix.centers, mix.D) : null),
+    [sampled, mix, S]
   );
-  const tPosRev = (steps - 1) - tPosFwd;
-  const k = Math.max(0, Math.min(steps - 2, Math.floor(tPosRev)));
-  const frac = Math.max(0, Math.min(1, tPosRev - k));
-  const ab = alphaBar[k] + (alphaBar[k + 1] - alphaBar[k]) * frac;
-  const s1 = Math.sqrt(Math.max(1e-8, ab));
-  const s2 = Math.sqrt(Math.max(0, 1 - ab));
+
+  // per-step distances for the metrics strip (2D only)
+  const distanceRows = useMemo(
+    () =>
+      metricsStrip && dim === "2d"
+        ? reverseDistanceRows(base, eps, alphaBar, sampled ? { states: sampled, taus } : null)
+        : null,
+    [metricsStrip, dim, base, eps, alphaBar, sampled, taus]
+  );
+  const floor = useMemo(() => distanceFloor(2), []);
+
+  // current samples x_t and the x_T they started from (flat, D per point)
+  const cur = new Float32Array(len * D);
+  const start = new Float32Array(len * D);
+  let stepLabel: string;
+  let ab: number;
+  let stepIdx = 0;
+  let tPosRevReplay = 0;
+  let stripPos = 0;
+  if (sampled) {
+    const pos = interpolate(f, [0, Math.max(1, activeFrames - 1)], [0, S], {
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    });
+    stripPos = pos;
+    stepIdx = Math.min(S - 1, Math.floor(pos));
+    const fr = pos - stepIdx;
+    const a = sampled[stepIdx], b = sampled[stepIdx + 1];
+    for (let i = 0; i < cur.length; i++) cur[i] = a[i] + (b[i] - a[i]) * fr;
+    start.set(sampled[0]);
+    const abFrom = alphaBar[taus[stepIdx]];
+    const abTo = stepIdx + 1 < S ? alphaBar[taus[stepIdx + 1]] : 1;
+    ab = abFrom + (abTo - abFrom) * fr;
+    const done = pos >= S;
+    stepLabel = `step ${done ? S : stepIdx + 1}/${S} • t=${done ? 0 : taus[stepIdx]}`;
+  } else {
+    const tPosFwd = interpolate(
+      f, [0, Math.max(1, activeFrames - 1)], [0, Math.max(1, steps - 1)],
+      { extrapolateLeft: "clamp", extrapolateRight: "clamp" }
+    );
+    const tPosRev = (steps - 1) - tPosFwd;
+    tPosRevReplay = tPosRev;
+    stripPos = tPosFwd;
+    stepLabel = `reverse step ≈ ${Math.max(0, Math.round(tPosRev) + 1)}/${steps}`;
+    const k = Math.max(0, Math.min(steps - 2, Math.floor(tPosRev)));
+    const frac = Math.max(0, Math.min(1, tPosRev - k));
+    ab = alphaBar[k] + (alphaBar[k + 1] - alphaBar[k]) * frac;
+    const s1 = Math.sqrt(Math.max(1e-8, ab));
+    const s2 = Math.sqrt(Math.max(0, 1 - ab));
+    const x0 = base.x as Float32Array;
+    const y0 = base.y as Float32Array;
+    const ex = eps.ex as Float32Array;
+    const ey = eps.ey as Float32Array;
+    for (let i = 0; i < len; i++) {
+      if (D === 1) {
+        cur[i] = s1 * x0[i] + s2 * ex[i];
+        start[i] = ex[i];
+      } else {
+        cur[2 * i] = s1 * x0[i] + s2 * ex[i];
+        cur[2 * i + 1] = s1 * y0[i] + s2 * ey[i];
+        start[2 * i] = ex[i];
+        start[2 * i + 1] = ey[i];
+      }
+    }
+  }
 
   /* Layout */
-  const mTop = 100, mSide = 64, mBot = 64;
+  const stripH = 140;
+  const mTop = 100, mSide = 64, mBot = distanceRows ? 64 + stripH : 64;
   const plotW = width - mSide * 2;
   const plotH = height - mTop - mBot;
   const cx = width / 2, cy = mTop + plotH / 2;
@@ -210,12 +355,16 @@ export const DDPMReverseComposition: React.FC<DDPMReverseProps> = ({
 
   /* Text */
   const header = `${dim.toUpperCase()} — ${dim === "1d" ? dist1d : dist2d}`;
-  const sub = `reverse step ≈ ${Math.round(tPosRev) + 1}/${steps} • ᾱ≈${ab.toFixed(6)}`;
+  const sub = `${stepLabel}${sampler === "ddim" ? ` • η=${eta}` : ""}${
+    quality !== null ? ` • NN dist(x₀, target)=${quality.toFixed(3)}` : ""
+  } • ᾱ≈${ab.toFixed(6)}${
+    showField ? (quiver === "score" ? " • arrows: ∇log q_t" : " • arrows: ε̂") : ""
+  }`;
 
   /* Legend (top-right) */
   const Legend = () => {
     const LEG_W = dim === "1d" ? 380 : 260;
-    const LEG_H = dim === "1d" ? 74 : 46;
+    const LEG_H = dim === "1d" ? 74 : deterministic ? 70 : 46;
     const PAD = 16;
     const xStart = width - PAD - LEG_W;
     const yStart = 38 - LEG_H / 2;
@@ -248,6 +397,12 @@ export const DDPMReverseComposition: React.FC<DDPMReverseProps> = ({
             <text x="34" y="26" fill={P.label} fontSize={F.legend}>
               Samples x<tspan dy={2} fontSize={F.legend - 4}>t</tspan>
             </text>
+            {deterministic && (
+              <>
+                <line x1="10" y1="46" x2="28" y2="46" stroke={P.line} strokeWidth={2} opacity={0.7} />
+                <text x="34" y="50" fill={P.label} fontSize={F.legend}>ODE trajectories</text>
+              </>
+            )}
           </>
         )}
       </g>
@@ -269,7 +424,7 @@ export const DDPMReverseComposition: React.FC<DDPMReverseProps> = ({
     <svg width={width} height={height} style={{ background: P.bg }}>
       {/* Title row */}
       <text x={width / 2} y={38} fill={P.label} fontSize={F.titleMain} fontWeight={800} textAnchor="middle">
-        Reverse diffusion (DDPM — oracle)
+        {SAMPLER_TITLE[sampler]}
       </text>
       <text x={16} y={30} fill={P.label} fontSize={F.title} fontWeight={700}>
         {header}
@@ -286,11 +441,7 @@ export const DDPMReverseComposition: React.FC<DDPMReverseProps> = ({
       {dim === "1d" ? (
         (() => {
           const x0 = base.x as Float32Array;
-          // current xt
-          const xt = new Float32Array(x0.length);
-          for (let i = 0; i < x0.length; i++) {
-            xt[i] = s1 * x0[i] + s2 * (eps.ex as Float32Array)[i];
-          }
+          const xt = cur;
 
           // --- FIX: draw KDE for CURRENT xt ---
           const xs = Array.from({ length: 260 }, (_, j) => xMin + (j / 259) * (xMax - xMin));
@@ -328,7 +479,7 @@ export const DDPMReverseComposition: React.FC<DDPMReverseProps> = ({
           if (showStartNoise) {
             const stepG = Math.max(1, Math.floor(x0.length / 700));
             for (let i = 0; i < x0.length; i += stepG) {
-              const px = xToPx(Math.max(xMin, Math.min(xMax, (eps.ex as Float32Array)[i])));
+              const px = xToPx(Math.max(xMin, Math.min(xMax, start[i])));
               const py = mTop + plotH - 6;
               ghostDots.push(<circle key={`g${i}`} cx={px} cy={py} r={2.0} fill={P.ghost} fillOpacity={0.7} />);
             }
@@ -348,22 +499,51 @@ export const DDPMReverseComposition: React.FC<DDPMReverseProps> = ({
       ) : (
         (() => {
           const x0 = base.x as Float32Array, y0 = base.y as Float32Array;
-          const ex = eps.ex as Float32Array, ey = eps.ey as Float32Array;
 
           const pts: JSX.Element[] = [];
           for (let i = 0; i < x0.length; i++) {
-            const xt = s1 * x0[i] + s2 * ex[i];
-            const yt = s1 * y0[i] + s2 * ey[i];
-            const [px, py] = xyToPx(xt, yt);
+            const [px, py] = xyToPx(cur[2 * i], cur[2 * i + 1]);
             pts.push(<circle key={i} cx={px} cy={py} r={2.2} fill={P.dots} fillOpacity={0.95} />);
           }
 
+          // deterministic samplers: x_T → x_t paths for a subset of particles
+          const paths: JSX.Element[] = [];
+          if (sampled && deterministic) {
+            const stepP = Math.max(1, Math.floor(x0.length / 60));
+            for (let i = 0; i < x0.length; i += stepP) {
+              let d = "";
+              for (let s = 0; s <= stepIdx; s++) {
+                const [px, py] = xyToPx(sampled[s][2 * i], sampled[s][2 * i + 1]);
+                d += `${s === 0 ? "M" : "L"} ${px} ${py} `;
+              }
+              const [px, py] = xyToPx(cur[2 * i], cur[2 * i + 1]);
+              d += `L ${px} ${py}`;
+              paths.push(<path key={`p${i}`} d={d} stroke={P.line} strokeWidth={1.2} fill="none" opacity={0.45} />);
+            }
+          }
+
+          // trails: every completed reverse step, then the current x_t
+          const trails: Trail[] = trailIndices(x0.length, trailCount, pinnedIndices).map((i) => {
+            const tp: [number, number][] = [];
+            if (sampled) {
+              for (let s = 0; s <= stepIdx; s++) tp.push(xyToPx(sampled[s][2 * i], sampled[s][2 * i + 1]));
+            } else {
+              for (let t = steps - 1; t > tPosRevReplay; t--) {
+                const a1 = Math.sqrt(Math.max(1e-8, alphaBar[t]));
+                const a2 = Math.sqrt(Math.max(0, 1 - alphaBar[t]));
+                tp.push(xyToPx(a1 * x0[i] + a2 * start[2 * i], a1 * y0[i] + a2 * start[2 * i + 1]));
+              }
+            }
+            tp.push(xyToPx(cur[2 * i], cur[2 * i + 1]));
+            return { index: i, pts: tp, pinned: pinnedIndices.includes(i) };
+          });
+
           // overlays
           const ghosts: JSX.Element[] = [];
           if (showStartNoise) {
             const stepG = Math.max(1, Math.floor(x0.length / 700));
             for (let i = 0; i < x0.length; i += stepG) {
-              const [px, py] = xyToPx(ex[i], ey[i]);
+              const [px, py] = xyToPx(start[2 * i], start[2 * i + 1]);
               ghosts.push(<circle key={`g${i}`} cx={px} cy={py} r={1.8} fill={P.ghost} fillOpacity={0.75} />);
             }
           }
@@ -394,16 +574,44 @@ export const DDPMReverseComposition: React.FC<DDPMReverseProps> = ({
             <>
               {ghosts}
               {target}
+              {paths}
               {pts}
+              <ParticleTrails trails={trails} color={P.trail} pinColor={P.pin} labelColor={P.label} />
+              {mix && quiver !== "off" && (
+                <ScoreQuiver
+                  mix={mix}
+                  ab={ab}
+                  field={quiver}
+                  density={quiverDensity}
+                  norm={quiverNorm}
+                  min={xyMin}
+                  max={xyMax}
+                  toPx={xyToPx}
+                  color={P.line}
+                />
+              )}
               <line x1={mSide} y1={cy} x2={mSide + plotW} y2={cy} stroke={P.axes} />
               <line x1={cx} y1={mTop} x2={cx} y2={mTop + plotH} stroke={P.axes} />
               {xtEls}{ytEls}
-              <text x={cx} y={height - 16} fill={P.label} fontSize={22} textAnchor="middle">x</text>
+              <text x={cx} y={mTop + plotH + 48} fill={P.label} fontSize={22} textAnchor="middle">x</text>
               <text x={mSide - 28} y={cy} fill={P.label} fontSize={22} textAnchor="end" dominantBaseline="middle">y</text>
             </>
           );
         })()
       )}
+      {distanceRows && (
+        <MetricsStrip
+          x={mSide}
+          y={mTop + plotH + 60}
+          w={plotW}
+          h={stripH - 10}
+          rows={distanceRows}
+          pos={stripPos}
+          floor={floor}
+          ends={[`t=${steps}`, "t=0"]}
+          P={P}
+        />
+      )}
     </svg>
   );
 };
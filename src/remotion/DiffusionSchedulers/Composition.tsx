@@ -1,6 +1,60 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import { useCurrentFrame, useVideoConfig, interpolate } from "remotion";
-import sampleImage from "../../_static/tiger.jpg";
+import React, { useEffect, useMemo, useRef } from "react";
+import {
+  useCurrentFrame,
+  useVideoConfig,
+  interpolate,
+  CalculateMetadataFunction,
+} from "remotion";
+import { checkBoolean, checkNumber, checkOneOf, checkStepTimeline } from "../propChecks";
+import {
+  alphaBarFromCustom,
+  CustomSchedule,
+  makeAlphaBarCosine,
+  makeAlphaBarExponential,
+  makeAlphaBarKarras,
+  makeAlphaBarLinear,
+  makeAlphaBarQuadratic,
+  makeAlphaBarScaledLinear,
+  makeAlphaBarSigmoid,
+  rescaleZeroTerminalSnr,
+  scheduleProblem,
+  sigmaFromAlphaBar,
+} from "../../seededMath";
+import {
+  drawCoverToSquare,
+  fixedNoise,
+  loadImage,
+  pixelsFromImage,
+  resolveImageUrl,
+} from "../imagePixels";
+import { exportQualityCsv, QualityStrip, qualityRowsFor } from "../QualityStrip";
+import { useDelayedLoad } from "../useDelayedLoad";
+
+export type BuiltinScheduler =
+  | "linear"
+  | "cosine"
+  | "quadratic"
+  | "sigmoid"
+  | "scaledLinear"
+  | "karras"
+  | "exponential";
+export type SchedulerId = BuiltinScheduler | "custom";
+
+/** Tunable constants of every built-in scheduler. */
+export type SchedulerParams = {
+  linear: { betaStart: number; betaEnd: number };
+  cosine: { s: number };
+  quadratic: { betaMin: number; betaMax: number };
+  sigmoid: { betaMin: number; betaMax: number; k: number };
+  scaledLinear: { betaStart: number; betaEnd: number };
+  karras: { sigmaMin: number; sigmaMax: number; rho: number };
+  exponential: { sigmaMin: number; sigmaMax: number };
+};
+
+/** Per-scheduler overrides; anything left out keeps its default. */
+export type SchedulerParamOverrides = {
+  [K in BuiltinScheduler]?: Partial<SchedulerParams[K]>;
+};
 
 export type ImageForwardProps = {
   imageUrl?: string;
@@ -9,131 +63,565 @@ export type ImageForwardProps = {
   framesPerStep?: number;
   tailHoldFrames?: number;
   internalSize?: number;
-  scheduler?: "linear" | "cosine" | "quadratic" | "sigmoid";
+  scheduler?: SchedulerId;
+  schedulerParams?: SchedulerParamOverrides;
+  /** required when scheduler = "custom"; also drawn in the graph when set */
+  customSchedule?: CustomSchedule | null;
+  /** apply the zero-terminal-SNR rescaling to every schedule */
+  zeroTerminalSnr?: boolean;
+  /** graph ᾱ_t (0..1) or the equivalent VE σ_t (log axis) */
+  graphView?: "alphaBar" | "sigma";
+  /** VP: √ᾱ x₀ + √(1−ᾱ) ε, VE: x₀ + σ ε, both: VP left and VE right */
+  parameterization?: "vp" | "ve" | "both";
+  /** SNR / log-SNR side panel with per-scheduler stats */
+  snrPanel?: boolean;
+  /** steps with SNR below this count as "high noise" in the stats */
+  highNoiseSnr?: number;
+  /** PSNR / SSIM vs t (selected scheduler) under the images; VP only, hidden for "ve" / "both" */
+  qualityStrip?: boolean;
+  /** "grid": every scheduler (rows) × `gridColumns` timesteps, as one still frame */
+  layout?: "single" | "grid";
+  gridColumns?: number;
 };
 
-// -------------------- RNG utils --------------------
-const mulberry32 = (s: number) => () => {
-  let t = (s += 0x6d2b79f5);
-  t = Math.imul(t ^ (t >>> 15), t | 1);
-  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-};
+export type SchedulerCurve = { id: SchedulerId; label: string; alphaBar: number[] };
+
+type Palette = { bg: string; frame: string; grid: string; label: string };
 
-const randn = (rng: () => number) => {
-  let u = 0,
-    v = 0;
-  while (u === 0) u = rng();
-  while (v === 0) v = rng();
-  const m = Math.sqrt(-2 * Math.log(u));
-  return m * Math.cos(2 * Math.PI * v);
+const PALETTES: Record<"light" | "dark", Palette> = {
+  light: { bg: "#fff", frame: "#e8ecf2", grid: "#d9e1ec", label: "#0b1324" },
+  dark: { bg: "#000", frame: "#243145", grid: "#2b3a51", label: "#dfe9f5" },
 };
 
 // -------------------- Schedulers --------------------
-// We always return ᾱ_t array of length T.
-// All of them go from ~1 → small, but with different shapes.
+export const DEFAULT_SCHEDULER_PARAMS: SchedulerParams = {
+  linear: { betaStart: 1e-4, betaEnd: 0.2 },
+  cosine: { s: 0.008 },
+  quadratic: { betaMin: 1e-4, betaMax: 0.35 },
+  sigmoid: { betaMin: 1e-4, betaMax: 0.3, k: 8 },
+  scaledLinear: { betaStart: 0.00085, betaEnd: 0.012 },
+  karras: { sigmaMin: 0.002, sigmaMax: 80, rho: 7 },
+  exponential: { sigmaMin: 0.002, sigmaMax: 80 },
+};
 
-const makeAlphaBarLinear = (T: number) => {
-  const betaStart = 1e-4;
-  const betaEnd = 0.2;
-  const betas = Array.from({ length: T }, (_, i) =>
-    Math.min(
-      0.999,
-      betaStart + (i / Math.max(1, T - 1)) * (betaEnd - betaStart)
-    )
-  );
-  const out: number[] = [];
-  let acc = 1;
-  for (const b of betas) {
-    const a = 1 - b;
-    acc *= a;
-    out.push(acc);
+type ParamSpec = { key: string; label: string; min: number; max: number; step: number };
+
+// Ranges used by both the metadata check and the Element's inputs.
+export const SCHEDULER_PARAM_SPECS: Record<BuiltinScheduler, ParamSpec[]> = {
+  linear: [
+    { key: "betaStart", label: "β start", min: 1e-6, max: 0.5, step: 1e-4 },
+    { key: "betaEnd", label: "β end", min: 1e-4, max: 0.999, step: 0.01 },
+  ],
+  cosine: [{ key: "s", label: "s", min: 0, max: 0.5, step: 0.001 }],
+  quadratic: [
+    { key: "betaMin", label: "β min", min: 1e-6, max: 0.5, step: 1e-4 },
+    { key: "betaMax", label: "β max", min: 1e-4, max: 0.999, step: 0.01 },
+  ],
+  sigmoid: [
+    { key: "betaMin", label: "β min", min: 1e-6, max: 0.5, step: 1e-4 },
+    { key: "betaMax", label: "β max", min: 1e-4, max: 0.999, step: 0.01 },
+    { key: "k", label: "k", min: 0.5, max: 40, step: 0.5 },
+  ],
+  scaledLinear: [
+    { key: "betaStart", label: "β start @1000", min: 1e-6, max: 0.05, step: 1e-4 },
+    { key: "betaEnd", label: "β end @1000", min: 1e-4, max: 0.1, step: 0.001 },
+  ],
+  karras: [
+    { key: "sigmaMin", label: "σ min", min: 1e-4, max: 1, step: 0.001 },
+    { key: "sigmaMax", label: "σ max", min: 1, max: 500, step: 1 },
+    { key: "rho", label: "ρ", min: 1, max: 20, step: 0.5 },
+  ],
+  exponential: [
+    { key: "sigmaMin", label: "σ min", min: 1e-4, max: 1, step: 0.001 },
+    { key: "sigmaMax", label: "σ max", min: 1, max: 500, step: 1 },
+  ],
+};
+
+export const resolveSchedulerParams = (
+  overrides: SchedulerParamOverrides = {}
+): SchedulerParams => ({
+  linear: { ...DEFAULT_SCHEDULER_PARAMS.linear, ...overrides.linear },
+  cosine: { ...DEFAULT_SCHEDULER_PARAMS.cosine, ...overrides.cosine },
+  quadratic: { ...DEFAULT_SCHEDULER_PARAMS.quadratic, ...overrides.quadratic },
+  sigmoid: { ...DEFAULT_SCHEDULER_PARAMS.sigmoid, ...overrides.sigmoid },
+  scaledLinear: { ...DEFAULT_SCHEDULER_PARAMS.scaledLinear, ...overrides.scaledLinear },
+  karras: { ...DEFAULT_SCHEDULER_PARAMS.karras, ...overrides.karras },
+  exponential: { ...DEFAULT_SCHEDULER_PARAMS.exponential, ...overrides.exponential },
+});
+
+// Every builder returns ᾱ_t of length T, going from ~1 → small with a
+// different shape. The σ-based ones (Karras, exponential) convert through
+// ᾱ = 1 / (1 + σ²).
+export const ALL_SCHEDULERS: Array<{
+  id: BuiltinScheduler;
+  label: string;
+  builder: (T: number, p: SchedulerParams) => number[];
+}> = [
+  {
+    id: "linear",
+    label: "Linear",
+    builder: (T, { linear: p }) => makeAlphaBarLinear(T, p.betaStart, p.betaEnd),
+  },
+  { id: "cosine", label: "Cosine", builder: (T, { cosine: p }) => makeAlphaBarCosine(T, p.s) },
+  {
+    id: "quadratic",
+    label: "Quadratic",
+    builder: (T, { quadratic: p }) => makeAlphaBarQuadratic(T, p.betaMin, p.betaMax),
+  },
+  {
+    id: "sigmoid",
+    label: "Sigmoid",
+    builder: (T, { sigmoid: p }) => makeAlphaBarSigmoid(T, p.betaMin, p.betaMax, p.k),
+  },
+  {
+    id: "scaledLinear",
+    label: "Scaled linear",
+    builder: (T, { scaledLinear: p }) => makeAlphaBarScaledLinear(T, p.betaStart, p.betaEnd),
+  },
+  {
+    id: "karras",
+    label: "Karras σ",
+    builder: (T, { karras: p }) => makeAlphaBarKarras(T, p.sigmaMin, p.sigmaMax, p.rho),
+  },
+  {
+    id: "exponential",
+    label: "Exponential σ",
+    builder: (T, { exponential: p }) => makeAlphaBarExponential(T, p.sigmaMin, p.sigmaMax),
+  },
+];
+
+// Graph range of the σ view (log10 σ)
+const LOG_SIGMA_MIN = -3;
+const LOG_SIGMA_MAX = 3;
+
+// x = a·x₀ + b·ε (clipped to [0, 1]) as an s × s offscreen canvas.
+const mixToCanvas = (
+  basePx: Float32Array,
+  noise: Float32Array,
+  s: number,
+  a: number,
+  b: number
+) => {
+  const off = document.createElement("canvas");
+  off.width = s;
+  off.height = s;
+  const octx = off.getContext("2d");
+  if (!octx) return null;
+
+  const imgData = octx.createImageData(s, s);
+  const out = imgData.data;
+  for (let i = 0, j = 0; i < basePx.length; i += 3, j += 4) {
+    const r = a * basePx[i + 0] + b * noise[i + 0];
+    const g = a * basePx[i + 1] + b * noise[i + 1];
+    const bl = a * basePx[i + 2] + b * noise[i + 2];
+    out[j + 0] = Math.max(0, Math.min(255, Math.round(r * 255)));
+    out[j + 1] = Math.max(0, Math.min(255, Math.round(g * 255)));
+    out[j + 2] = Math.max(0, Math.min(255, Math.round(bl * 255)));
+    out[j + 3] = 255;
   }
-  return out;
+  octx.putImageData(imgData, 0, 0);
+  return off;
 };
 
-// Cosine-like (Nichol & Dhariwal inspired)
-const makeAlphaBarCosine = (T: number) => {
-  const s = 0.008;
-  const f = (t: number) =>
-    Math.pow(
-      Math.cos(((t / T + s) / (1 + s)) * (Math.PI / 2)),
-      2
-    );
-  const out: number[] = [];
-  const f0 = f(0);
-  for (let i = 0; i < T; i++) {
-    out.push(f(i) / f0);
+// Paint x = a·x₀ + b·ε into a display canvas of sq × sq CSS pixels.
+const paintMix = (
+  c: HTMLCanvasElement,
+  basePx: Float32Array,
+  noise: Float32Array,
+  s: number,
+  sq: number,
+  a: number,
+  b: number
+) => {
+  const ctx = c.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return;
+  const off = mixToCanvas(basePx, noise, s, a, b);
+  if (!off) return;
+
+  const dpr = window.devicePixelRatio || 1;
+  c.width = Math.round(sq * dpr);
+  c.height = Math.round(sq * dpr);
+  c.style.width = `${sq}px`;
+  c.style.height = `${sq}px`;
+
+  ctx.save();
+  ctx.scale(dpr, dpr);
+  ctx.drawImage(off, 0, 0, sq, sq);
+  ctx.restore();
+};
+
+// -------------------- shared schedule setup --------------------
+// Used by the composition and by exportSchedulerGridPng.
+
+/** The built-ins plus the custom schedule when given, optionally ZTSNR-rescaled. */
+export const buildSchedulerCurves = ({
+  steps,
+  schedulerParams,
+  customSchedule = null,
+  zeroTerminalSnr = false,
+}: ImageForwardProps): SchedulerCurve[] => {
+  const T = Math.max(2, steps);
+  const params = resolveSchedulerParams(schedulerParams);
+  const out: SchedulerCurve[] = ALL_SCHEDULERS.map((sdef) => ({
+    id: sdef.id,
+    label: sdef.label,
+    alphaBar: sdef.builder(T, params),
+  }));
+  if (customSchedule) {
+    out.push({ id: "custom", label: "Custom", alphaBar: alphaBarFromCustom(T, customSchedule) });
+  }
+  if (zeroTerminalSnr) {
+    for (const c of out) c.alphaBar = rescaleZeroTerminalSnr(c.alphaBar);
   }
   return out;
 };
 
-const makeAlphaBarQuadratic = (T: number) => {
-  // more noise towards the end
-  const betaMin = 1e-4;
-  const betaMax = 0.35;
-  const betas = Array.from({ length: T }, (_, i) => {
-    const r = i / Math.max(1, T - 1); // 0..1
-    return Math.min(0.999, betaMin + r * r * (betaMax - betaMin));
+/** `columns` evenly spaced step indices from 0 to steps − 1. */
+export const gridTimesteps = (steps: number, columns: number) =>
+  Array.from({ length: columns }, (_, j) =>
+    Math.round((j / Math.max(1, columns - 1)) * (Math.max(2, steps) - 1))
+  );
+
+// -------------------- grid mode --------------------
+type GridDraw = {
+  width: number;
+  height: number;
+  basePx: Float32Array;
+  noise: Float32Array;
+  internalSize: number;
+  curves: SchedulerCurve[];
+  columns: number;
+  steps: number;
+  selected: SchedulerId;
+  zeroTerminalSnr: boolean;
+  P: Palette;
+};
+
+/**
+ * Every scheduler (rows) at the same evenly spaced timesteps (columns), with
+ * the same image and ε, drawn entirely on a 2D context of width × height so
+ * the Element can export exactly what the composition shows.
+ */
+const drawSchedulerGrid = (ctx: CanvasRenderingContext2D, g: GridDraw) => {
+  const { width, height, curves, columns, steps, P } = g;
+  ctx.fillStyle = P.bg;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = P.label;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "alphabetic";
+  ctx.font = "800 28px sans-serif";
+  ctx.fillText("Every scheduler, same image, same ε", width / 2, 40);
+  ctx.font = "16px sans-serif";
+  ctx.globalAlpha = 0.9;
+  ctx.fillText(
+    `T=${steps} • ${columns} timesteps per row${g.zeroTerminalSnr ? " • zero terminal SNR" : ""}`,
+    width / 2,
+    66
+  );
+  ctx.globalAlpha = 1;
+
+  const ts = gridTimesteps(steps, columns);
+  const labelW = 140;
+  const gap = 6;
+  const top = 110;
+  const bottom = 24;
+  const rows = curves.length;
+  const cell = Math.max(
+    8,
+    Math.min(
+      (width - 2 * 40 - labelW - (columns - 1) * gap) / columns,
+      (height - top - bottom - (rows - 1) * gap) / rows
+    )
+  );
+  const gridW = labelW + columns * cell + (columns - 1) * gap;
+  const x0 = (width - gridW) / 2 + labelW;
+
+  ctx.font = "13px sans-serif";
+  ts.forEach((t, j) => {
+    ctx.fillText(`t=${t + 1}`, x0 + j * (cell + gap) + cell / 2, top - 10);
   });
-  const out: number[] = [];
-  let acc = 1;
-  for (const b of betas) {
-    const a = 1 - b;
-    acc *= a;
-    out.push(acc);
+
+  curves.forEach((c, i) => {
+    const y = top + i * (cell + gap);
+    const isSel = c.id === g.selected;
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+    ctx.font = `${isSel ? "700 " : ""}15px sans-serif`;
+    ctx.fillStyle = isSel ? "#ffd166" : P.label;
+    ctx.fillText(c.label, x0 - 12, y + cell / 2);
+
+    ts.forEach((t, j) => {
+      const ab = Math.max(1e-8, c.alphaBar[t]);
+      const off = mixToCanvas(g.basePx, g.noise, g.internalSize, Math.sqrt(ab), Math.sqrt(1 - ab));
+      if (!off) return;
+      const x = x0 + j * (cell + gap);
+      ctx.drawImage(off, x, y, cell, cell);
+      ctx.strokeStyle = isSel ? "#ffd166" : P.frame;
+      ctx.strokeRect(x - 0.5, y - 0.5, cell + 1, cell + 1);
+    });
+  });
+  ctx.textAlign = "center";
+  ctx.textBaseline = "alphabetic";
+};
+
+/** PSNR / SSIM curves of the selected scheduler as CSV (VP mix, like the strip). */
+export const exportSchedulerQualityCsv = async (props: ImageForwardProps) => {
+  const { scheduler = "linear", internalSize = 512, parameterization = "vp" } = props;
+  if (parameterization !== "vp") {
+    throw new Error(`exportSchedulerQualityCsv: quality curves are for the VP image, not "${parameterization}"`);
   }
-  return out;
+  const found = buildSchedulerCurves(props).find((c) => c.id === scheduler);
+  const alphaBar = found ? found.alphaBar : makeAlphaBarLinear(Math.max(2, props.steps));
+  return exportQualityCsv(props.imageUrl, internalSize, alphaBar);
 };
 
-const makeAlphaBarSigmoid = (T: number) => {
-  // starts slow, speeds up in the middle, flattens
-  const betaMin = 1e-4;
-  const betaMax = 0.3;
-  const k = 8; // steepness
-  const betas = Array.from({ length: T }, (_, i) => {
-    const x = i / Math.max(1, T - 1); // 0..1
-    const sig = 1 / (1 + Math.exp(-(x - 0.5) * k));
-    const b = betaMin + sig * (betaMax - betaMin);
-    return Math.min(0.999, b);
+/**
+ * Renders the grid of `props` off-screen at width × height × scale and
+ * resolves with a PNG (the "export still" button of the Element).
+ */
+export const exportSchedulerGridPng = async (
+  props: ImageForwardProps,
+  { width = 1280, height = 720, scale = 2 } = {}
+): Promise<Blob> => {
+  const { internalSize = 512, gridColumns = 6, scheduler = "linear", mode = "dark" } = props;
+  const img = await loadImage(resolveImageUrl(props.imageUrl));
+  const basePx = pixelsFromImage(img, internalSize);
+  if (!basePx) throw new Error("exportSchedulerGridPng: no 2D canvas context");
+
+  const c = document.createElement("canvas");
+  c.width = Math.round(width * scale);
+  c.height = Math.round(height * scale);
+  const ctx = c.getContext("2d");
+  if (!ctx) throw new Error("exportSchedulerGridPng: no 2D canvas context");
+  ctx.scale(scale, scale);
+  drawSchedulerGrid(ctx, {
+    width,
+    height,
+    basePx,
+    noise: fixedNoise(basePx.length),
+    internalSize,
+    curves: buildSchedulerCurves(props),
+    columns: gridColumns,
+    steps: props.steps,
+    selected: scheduler,
+    zeroTerminalSnr: props.zeroTerminalSnr ?? false,
+    P: PALETTES[mode],
   });
-  const out: number[] = [];
-  let acc = 1;
-  for (const b of betas) {
-    const a = 1 - b;
-    acc *= a;
-    out.push(acc);
+  return new Promise((resolve, reject) =>
+    c.toBlob((b) => (b ? resolve(b) : reject(new Error("exportSchedulerGridPng: toBlob failed"))), "image/png")
+  );
+};
+
+// -------------------- SNR --------------------
+const snrOf = (ab: number) => ab / Math.max(1e-12, 1 - ab);
+
+// log-SNR axis range of the panel
+const LOG_SNR_MIN = -10;
+const LOG_SNR_MAX = 10;
+// linear SNR axis: 0 … SNR_MAX (clipped), so the SNR = 1 crossing stays visible
+const SNR_MAX = 4;
+
+/**
+ * Fractional step at which SNR first drops to 1 (ᾱ = ½), or null if it never
+ * does, plus the fraction of steps with SNR below `highNoiseSnr`.
+ */
+export const snrStats = (alphaBar: number[], highNoiseSnr: number) => {
+  let crossing: number | null = null;
+  for (let i = 0; i < alphaBar.length; i++) {
+    if (alphaBar[i] > 0.5) continue;
+    if (i === 0) crossing = 0;
+    else crossing = i - 1 + (alphaBar[i - 1] - 0.5) / (alphaBar[i - 1] - alphaBar[i]);
+    break;
   }
-  return out;
+  let high = 0;
+  for (const ab of alphaBar) if (snrOf(ab) < highNoiseSnr) high++;
+  return { crossing, highNoiseFrac: high / Math.max(1, alphaBar.length) };
 };
 
-const ALL_SCHEDULERS: Array<{
-  id: "linear" | "cosine" | "quadratic" | "sigmoid";
-  label: string;
-  builder: (T: number) => number[];
-}> = [
-  { id: "linear", label: "Linear", builder: makeAlphaBarLinear },
-  { id: "cosine", label: "Cosine", builder: makeAlphaBarCosine },
-  { id: "quadratic", label: "Quadratic", builder: makeAlphaBarQuadratic },
-  { id: "sigmoid", label: "Sigmoid", builder: makeAlphaBarSigmoid },
-];
+const SnrPanel: React.FC<{
+  x: number;
+  y: number;
+  w: number;
+  curves: SchedulerCurve[];
+  selected: SchedulerId;
+  tPos: number;
+  steps: number;
+  highNoiseSnr: number;
+  P: Palette;
+}> = ({ x, y, w, curves, selected, tPos, steps, highNoiseSnr, P }) => {
+  const plotL = x + 34;
+  const plotR = x + w - 6;
+  const snrTop = y + 22;
+  const snrBot = y + 100;
+  const logTop = y + 128;
+  const logBot = y + 228;
+  const tableY = y + 254;
 
-// -------------------- draw helper --------------------
-const drawCoverToSquare = (
-  ctx: CanvasRenderingContext2D,
-  img: HTMLImageElement,
-  size: number
-) => {
-  const iw = img.naturalWidth || img.width;
-  const ih = img.naturalHeight || img.height;
-  const s = size;
-  const scale = Math.max(s / iw, s / ih);
-  const w = iw * scale;
-  const h = ih * scale;
-  const dx = (s - w) / 2;
-  const dy = (s - h) / 2;
-  ctx.clearRect(0, 0, s, s);
-  ctx.drawImage(img, dx, dy, w, h);
+  const tx = (i: number) => plotL + (i / Math.max(1, steps - 1)) * (plotR - plotL);
+  const snrY = (ab: number) =>
+    snrBot - (Math.min(SNR_MAX, snrOf(ab)) / SNR_MAX) * (snrBot - snrTop);
+  const logY = (ab: number) => {
+    const l = Math.log(Math.max(1e-30, snrOf(ab)));
+    const u = (Math.max(LOG_SNR_MIN, Math.min(LOG_SNR_MAX, l)) - LOG_SNR_MIN) /
+      (LOG_SNR_MAX - LOG_SNR_MIN);
+    return logBot - u * (logBot - logTop);
+  };
+  const path = (arr: number[], toY: (ab: number) => number) =>
+    arr.map((ab, i) => `${tx(i)},${toY(ab)}`).join(" ");
+
+  const stats = curves.map((c) => ({ ...c, ...snrStats(c.alphaBar, highNoiseSnr) }));
+  const sel = curves.find((c) => c.id === selected);
+  const cur = sel ? sel.alphaBar[Math.max(0, Math.min(steps - 1, Math.round(tPos)))] : null;
+  const curX = tx(tPos);
+  const dim = "rgba(223,233,245,0.35)";
+
+  const plot = (
+    top: number,
+    bot: number,
+    toY: (ab: number) => number,
+    refs: Array<{ v: number; label: string }>,
+    title: string
+  ) => (
+    <g>
+      <text x={plotL} y={top - 6} fill={P.label} fontSize={12} fontWeight={700}>
+        {title}
+      </text>
+      <rect x={plotL} y={top} width={plotR - plotL} height={bot - top} fill="none" stroke={P.frame} />
+      {refs.map((r) => {
+        const ry = toY(r.v / (1 + r.v)); // SNR r.v → ᾱ
+        return (
+          <g key={r.label}>
+            <line x1={plotL} x2={plotR} y1={ry} y2={ry} stroke={P.grid} strokeDasharray="4 3" />
+            <text x={plotL - 4} y={ry + 4} fill={P.label} fontSize={10} textAnchor="end" opacity={0.8}>
+              {r.label}
+            </text>
+          </g>
+        );
+      })}
+      {curves.map((c) => (
+        <polyline
+          key={c.id}
+          points={path(c.alphaBar, toY)}
+          fill="none"
+          stroke={c.id === selected ? "#ffd166" : dim}
+          strokeWidth={c.id === selected ? 2.5 : 1.2}
+        />
+      ))}
+      <line x1={curX} x2={curX} y1={top} y2={bot} stroke="#ffffff" strokeDasharray="3 3" opacity={0.9} />
+      {cur !== null && <circle cx={curX} cy={toY(cur)} r={4} fill="#ffd166" />}
+    </g>
+  );
+
+  return (
+    <g>
+      {plot(snrTop, snrBot, snrY, [{ v: 1, label: "1" }], `SNR = ᾱ/(1−ᾱ) (clipped at ${SNR_MAX})`)}
+      {plot(
+        logTop,
+        logBot,
+        logY,
+        [
+          { v: 1, label: "0" },
+          { v: highNoiseSnr, label: Math.log(highNoiseSnr).toFixed(1) },
+        ],
+        "log-SNR"
+      )}
+
+      <text x={x} y={tableY} fill={P.label} fontSize={11} fontWeight={700}>
+        scheduler
+      </text>
+      <text x={x + w - 80} y={tableY} fill={P.label} fontSize={11} fontWeight={700} textAnchor="end">
+        t @ SNR=1
+      </text>
+      <text x={x + w} y={tableY} fill={P.label} fontSize={11} fontWeight={700} textAnchor="end">
+        SNR&lt;{highNoiseSnr}
+      </text>
+      {stats.map((st, i) => {
+        const ry = tableY + 17 + i * 16;
+        const isSel = st.id === selected;
+        const fill = isSel ? "#ffd166" : P.label;
+        return (
+          <g key={st.id} opacity={isSel ? 1 : 0.75}>
+            <text x={x} y={ry} fill={fill} fontSize={11}>
+              {st.label}
+            </text>
+            <text x={x + w - 80} y={ry} fill={fill} fontSize={11} textAnchor="end">
+              {st.crossing === null ? "never" : `${(st.crossing + 1).toFixed(1)}/${steps}`}
+            </text>
+            <text x={x + w} y={ry} fill={fill} fontSize={11} textAnchor="end">
+              {`${(st.highNoiseFrac * 100).toFixed(0)}%`}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+// -------------------- timeline --------------------
+// steps * framesPerStep + end hold
+// (grid mode is a single still frame)
+export const getImageForwardDuration = ({
+  steps,
+  framesPerStep = 6,
+  tailHoldFrames = 120,
+  layout = "single",
+}: ImageForwardProps) =>
+  layout === "grid"
+    ? 1
+    : Math.max(1, steps * framesPerStep + Math.max(0, tailHoldFrames));
+
+export const calculateImageForwardMetadata: CalculateMetadataFunction<
+  ImageForwardProps
+> = ({ props, compositionId }) => {
+  checkStepTimeline(compositionId, props);
+  checkNumber(compositionId, props, "internalSize", {
+    min: 16,
+    max: 2048,
+    integer: true,
+    optional: true,
+  });
+  checkOneOf(
+    compositionId,
+    props,
+    "scheduler",
+    [...ALL_SCHEDULERS.map((s) => s.id), "custom"],
+    true
+  );
+  const overrides = props.schedulerParams;
+  if (overrides !== undefined) {
+    for (const sdef of ALL_SCHEDULERS) {
+      const p = overrides[sdef.id];
+      if (p === undefined) continue;
+      for (const spec of SCHEDULER_PARAM_SPECS[sdef.id]) {
+        checkNumber(`${compositionId} schedulerParams.${sdef.id}`, p, spec.key, {
+          min: spec.min,
+          max: spec.max,
+          optional: true,
+        });
+      }
+    }
+  }
+  const custom = props.customSchedule;
+  if (custom) {
+    checkOneOf(`${compositionId} customSchedule`, custom, "kind", ["beta", "alphaBar"]);
+    const problem = scheduleProblem(custom.kind, custom.values);
+    if (problem) throw new Error(`${compositionId}: "customSchedule" ${problem}`);
+  } else if (props.scheduler === "custom") {
+    throw new Error(`${compositionId}: scheduler "custom" needs a "customSchedule"`);
+  }
+  checkBoolean(compositionId, props, "zeroTerminalSnr", true);
+  checkOneOf(compositionId, props, "graphView", ["alphaBar", "sigma"], true);
+  checkOneOf(compositionId, props, "parameterization", ["vp", "ve", "both"], true);
+  checkNumber(compositionId, props, "highNoiseSnr", { min: 1e-4, max: 1, optional: true });
+  checkOneOf(compositionId, props, "layout", ["single", "grid"], true);
+  checkNumber(compositionId, props, "gridColumns", {
+    min: 2,
+    max: 16,
+    integer: true,
+    optional: true,
+  });
+  return { durationInFrames: getImageForwardDuration(props) };
 };
 
 // =====================================================
@@ -147,14 +635,21 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
   tailHoldFrames = 120,
   internalSize = 512,
   scheduler = "linear",
+  schedulerParams,
+  customSchedule = null,
+  zeroTerminalSnr = false,
+  graphView = "alphaBar",
+  parameterization = "vp",
+  snrPanel = false,
+  highNoiseSnr = 0.1,
+  layout = "single",
+  gridColumns = 6,
+  qualityStrip = false,
 }) => {
   const frame = useCurrentFrame();
   const { width, height } = useVideoConfig();
 
-  const P =
-    mode === "light"
-      ? { bg: "#fff", frame: "#e8ecf2", grid: "#d9e1ec", label: "#0b1324" }
-      : { bg: "#000", frame: "#243145", grid: "#2b3a51", label: "#dfe9f5" };
+  const P = PALETTES[mode];
 
   // Layout
   const graphH = 140; // NEW top graph
@@ -163,78 +658,51 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
   const gap = 24;
   const mBot = 48;
 
-  const availableW = width - 2 * mSide - gap;
-  const sq = Math.min(availableW / 2, height - mTop - mBot);
+  const panelW = snrPanel ? 300 : 0;
+  const availableW = width - 2 * mSide - gap - (snrPanel ? panelW + gap : 0);
+  // the curves are for the VP mix, so VE views leave them out
+  const showQuality = qualityStrip && layout === "single" && parameterization === "vp";
+  const stripH = showQuality ? 110 : 0;
+  const sq = Math.min(availableW / 2, height - mTop - mBot - (stripH ? stripH + gap : 0));
 
   const leftX = mSide;
   const rightX = mSide + sq + gap;
+  const panelX = rightX + sq + gap;
   const topY = mTop;
 
   const titleY = 34;
   const subY = 56;
 
-  // Load image
-  const [imgEl, setImgEl] = useState<HTMLImageElement | null>(null);
-  useEffect(() => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.decoding = "async";
-    img.src = imageUrl && imageUrl.trim().length ? imageUrl : sampleImage;
-    const onLoad = () => setImgEl(img);
-    const onError = () => setImgEl(null);
-    img.addEventListener("load", onLoad);
-    img.addEventListener("error", onError);
-    return () => {
-      img.removeEventListener("load", onLoad);
-      img.removeEventListener("error", onError);
-    };
-  }, [imageUrl]);
+  // Load image (renders wait for it)
+  const { value: imgEl, error: imageError } = useDelayedLoad(
+    "image",
+    () => loadImage(resolveImageUrl(imageUrl)),
+    [imageUrl]
+  );
 
   // Base pixels (0..1)
-  const [basePx, setBasePx] = useState<Float32Array | null>(null);
-  useEffect(() => {
-    if (!imgEl) return;
-    const s = internalSize;
-    const off = document.createElement("canvas");
-    off.width = s;
-    off.height = s;
-    const ctx = off.getContext("2d", { willReadFrequently: true });
-    if (!ctx) return;
-
-    drawCoverToSquare(ctx, imgEl, s);
-    const data = ctx.getImageData(0, 0, s, s).data;
-    const arr = new Float32Array(s * s * 3);
-    for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
-      arr[j + 0] = data[i + 0] / 255;
-      arr[j + 1] = data[i + 1] / 255;
-      arr[j + 2] = data[i + 2] / 255;
-    }
-    setBasePx(arr);
-  }, [imgEl, internalSize]);
+  const basePx = useMemo(() => (imgEl ? pixelsFromImage(imgEl, internalSize) : null), [imgEl, internalSize]);
 
   // Fixed noise (same ε for forward & reverse)
-  const noise = useMemo(() => {
-    if (!basePx) return null;
-    const rng = mulberry32(0xdecafbad);
-    const e = new Float32Array(basePx.length);
-    for (let i = 0; i < e.length; i++) e[i] = randn(rng);
-    return e;
-  }, [basePx]);
-
-  // Schedules for all 4 (for graph)
-  const allAlphaBars = useMemo(() => {
-    return ALL_SCHEDULERS.reduce<Record<string, number[]>>((acc, sdef) => {
-      acc[sdef.id] = sdef.builder(Math.max(2, steps));
-      return acc;
-    }, {});
-  }, [steps]);
+  const noise = useMemo(() => (basePx ? fixedNoise(basePx.length) : null), [basePx]);
+
+  // Curves in the graph: the built-ins plus the custom one when given
+  const curves = useMemo(
+    () => buildSchedulerCurves({ steps, schedulerParams, customSchedule, zeroTerminalSnr }),
+    [steps, schedulerParams, customSchedule, zeroTerminalSnr]
+  );
 
   // Selected schedule
   const alphaBar = useMemo(() => {
-    const found = ALL_SCHEDULERS.find((s) => s.id === scheduler);
+    const found = curves.find((c) => c.id === scheduler);
     if (!found) return makeAlphaBarLinear(Math.max(2, steps));
-    return found.builder(Math.max(2, steps));
-  }, [scheduler, steps]);
+    return found.alphaBar;
+  }, [curves, scheduler, steps]);
+
+  const qualityRows = useMemo(
+    () => (showQuality && basePx && noise ? qualityRowsFor(basePx, noise, internalSize, alphaBar) : null),
+    [showQuality, basePx, noise, internalSize, alphaBar]
+  );
 
   // Timing
   const activeFrames = Math.max(1, steps * framesPerStep);
@@ -259,16 +727,27 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
 
   const s1 = Math.sqrt(Math.max(1e-8, ab));
   const s2 = Math.sqrt(Math.max(0, 1 - ab));
+  const sigma = sigmaFromAlphaBar(Math.max(1e-8, ab));
 
   // Canvases
   const leftRef = useRef<HTMLCanvasElement | null>(null);
   const rightRef = useRef<HTMLCanvasElement | null>(null);
 
-  // Left: original
+  // VE has no √ᾱ in front of x₀, so its pixels drift far outside [0, 1]
+  const veA = 1;
+  const veB = sigma;
+  const showBoth = parameterization === "both";
+
+  // Left: original (or the VP image when comparing parameterizations)
   useEffect(() => {
-    if (!imgEl) return;
     const c = leftRef.current;
     if (!c) return;
+    if (showBoth) {
+      if (!basePx || !noise) return;
+      paintMix(c, basePx, noise, internalSize, sq, s1, s2);
+      return;
+    }
+    if (!imgEl) return;
     const ctx = c.getContext("2d");
     if (!ctx) return;
     const dpr = window.devicePixelRatio || 1;
@@ -280,49 +759,72 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
     ctx.scale(dpr, dpr);
     drawCoverToSquare(ctx, imgEl, sq);
     ctx.restore();
-  }, [imgEl, sq]);
+  }, [imgEl, sq, showBoth, basePx, noise, internalSize, s1, s2]);
 
   // Right: forward (first half) → denoise (second half), SAME ε
   useEffect(() => {
     if (!basePx || !noise) return;
     const c = rightRef.current;
     if (!c) return;
-    const ctx = c.getContext("2d", { willReadFrequently: true });
-    if (!ctx) return;
-
-    const s = internalSize;
-    const off = document.createElement("canvas");
-    off.width = s;
-    off.height = s;
-    const octx = off.getContext("2d");
-    if (!octx) return;
-
-    const imgData = octx.createImageData(s, s);
-    const out = imgData.data;
-
-    for (let i = 0, j = 0; i < basePx.length; i += 3, j += 4) {
-      // x_t = sqrt(ab)*x0 + sqrt(1-ab)*eps
-      const r = s1 * basePx[i + 0] + s2 * noise[i + 0];
-      const g = s1 * basePx[i + 1] + s2 * noise[i + 1];
-      const b = s1 * basePx[i + 2] + s2 * noise[i + 2];
-      out[j + 0] = Math.max(0, Math.min(255, Math.round(r * 255)));
-      out[j + 1] = Math.max(0, Math.min(255, Math.round(g * 255)));
-      out[j + 2] = Math.max(0, Math.min(255, Math.round(b * 255)));
-      out[j + 3] = 255;
-    }
-    octx.putImageData(imgData, 0, 0);
+    // x_t = sqrt(ab)*x0 + sqrt(1-ab)*eps  (VP)  or  x0 + sigma*eps  (VE)
+    if (parameterization === "vp") paintMix(c, basePx, noise, internalSize, sq, s1, s2);
+    else paintMix(c, basePx, noise, internalSize, sq, veA, veB);
+  }, [basePx, noise, sq, s1, s2, veB, parameterization, internalSize, frame]);
 
+  // Grid mode: the whole frame is one canvas (same drawing as the PNG export)
+  const gridRef = useRef<HTMLCanvasElement | null>(null);
+  useEffect(() => {
+    if (layout !== "grid" || !basePx || !noise) return;
+    const c = gridRef.current;
+    if (!c) return;
+    const ctx = c.getContext("2d");
+    if (!ctx) return;
     const dpr = window.devicePixelRatio || 1;
-    c.width = Math.round(sq * dpr);
-    c.height = Math.round(sq * dpr);
-    c.style.width = `${sq}px`;
-    c.style.height = `${sq}px`;
-
+    c.width = Math.round(width * dpr);
+    c.height = Math.round(height * dpr);
     ctx.save();
     ctx.scale(dpr, dpr);
-    ctx.drawImage(off, 0, 0, sq, sq);
+    drawSchedulerGrid(ctx, {
+      width,
+      height,
+      basePx,
+      noise,
+      internalSize,
+      curves,
+      columns: gridColumns,
+      steps,
+      selected: scheduler,
+      zeroTerminalSnr,
+      P,
+    });
     ctx.restore();
-  }, [basePx, noise, sq, s1, s2, internalSize, frame]);
+  }, [
+    layout,
+    basePx,
+    noise,
+    width,
+    height,
+    internalSize,
+    curves,
+    gridColumns,
+    steps,
+    scheduler,
+    zeroTerminalSnr,
+    P,
+  ]);
+
+  if (layout === "grid") {
+    return (
+      <svg width={width} height={height} style={{ background: P.bg }}>
+        <foreignObject x={0} y={0} width={width} height={height}>
+          <canvas
+            ref={gridRef}
+            style={{ display: "block", width: "100%", height: "100%" }}
+          />
+        </foreignObject>
+      </svg>
+    );
+  }
 
   const phase = firstHalf ? "noising" : "denoising";
   const tDisp = Math.round(tPos) + 1;
@@ -341,6 +843,17 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
   const graphLeft = graphX;
   const graphRight = graphX + graphW;
 
+  // ᾱ view: 1 on top; σ view: log10 σ, small σ at the bottom
+  const valueToY = (abv: number) => {
+    if (graphView === "alphaBar") {
+      return graphTop + (1 - abv) * (graphBottom - graphTop);
+    }
+    const l = Math.log10(sigmaFromAlphaBar(Math.max(1e-12, abv)));
+    const u = (Math.max(LOG_SIGMA_MIN, Math.min(LOG_SIGMA_MAX, l)) - LOG_SIGMA_MIN) /
+      (LOG_SIGMA_MAX - LOG_SIGMA_MIN);
+    return graphBottom - u * (graphBottom - graphTop);
+  };
+
   // to path generator
   const alphaToPath = (arr: number[]) => {
     if (arr.length === 0) return "";
@@ -349,10 +862,7 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
       const x =
         graphLeft +
         (i / Math.max(1, arr.length - 1)) * (graphRight - graphLeft);
-      // arr[i] is in (0,1], we want 1 on top
-      const y =
-        graphTop + (1 - arr[i]) * (graphBottom - graphTop);
-      pts.push(`${x},${y}`);
+      pts.push(`${x},${valueToY(arr[i])}`);
     }
     return pts.join(" ");
   };
@@ -382,7 +892,7 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
         opacity={0.9}
         textAnchor="middle"
       >
-        {sub}
+        {imageError ? `Image failed: ${imageError}` : sub}
       </text>
 
       {/* Graph box */}
@@ -417,10 +927,15 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
         opacity={0.5}
       />
 
+      <text x={graphLeft + 4} y={graphTop + 12} fill={P.label} fontSize={12} opacity={0.8}>
+        {graphView === "alphaBar"
+          ? "ᾱₜ (VP)"
+          : `σₜ = √((1−ᾱₜ)/ᾱₜ) (VE, log scale 10^${LOG_SIGMA_MIN} … 10^${LOG_SIGMA_MAX})`}
+      </text>
+
       {/* All schedulers */}
-      {ALL_SCHEDULERS.map((sdef, idx) => {
-        const arr = allAlphaBars[sdef.id] || [];
-        const d = alphaToPath(arr);
+      {curves.map((sdef) => {
+        const d = alphaToPath(sdef.alphaBar);
         const isSel = sdef.id === scheduler;
         const color = isSel ? "#ffd166" : "rgba(223,233,245,0.35)";
         const sw = isSel ? 3 : 1.4;
@@ -449,10 +964,10 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
       />
 
       {/* Legend */}
-      {ALL_SCHEDULERS.map((sdef, i) => {
+      {curves.map((sdef, i) => {
         const isSel = sdef.id === scheduler;
-        const lx = graphRight - 140;
-        const ly = graphY + 15 + i * 20;
+        const lx = graphRight - 270 + Math.floor(i / 5) * 135;
+        const ly = graphY + 15 + (i % 5) * 20;
         return (
           <g key={sdef.id}>
             <circle
@@ -500,7 +1015,7 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
         fontSize={16}
         fontWeight={700}
       >
-        Input (cropped square)
+        {showBoth ? "VP: √ᾱ · x₀ + √(1−ᾱ) · ε" : "Input (cropped square)"}
       </text>
       <text
         x={rightX}
@@ -509,7 +1024,9 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
         fontSize={16}
         fontWeight={700}
       >
-        Forward → Denoise (same ε)
+        {parameterization === "vp"
+          ? "Forward → Denoise (same ε)"
+          : "VE: x₀ + σ · ε (clipped to [0, 1])"}
       </text>
 
       {/* Canvases */}
@@ -526,6 +1043,32 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
         />
       </foreignObject>
 
+      {qualityRows && (
+        <QualityStrip
+          x={leftX}
+          y={topY + sq + gap}
+          w={rightX + sq - leftX}
+          h={stripH}
+          rows={qualityRows}
+          tPos={tPos}
+          P={P}
+        />
+      )}
+
+      {snrPanel && (
+        <SnrPanel
+          x={panelX}
+          y={topY - 24}
+          w={panelW}
+          curves={curves}
+          selected={scheduler}
+          tPos={tPos}
+          steps={steps}
+          highNoiseSnr={highNoiseSnr}
+          P={P}
+        />
+      )}
+
       {/* Bottom note */}
       <text
         x={width / 2}
@@ -535,7 +1078,9 @@ export const ImageForwardComposition: React.FC<ImageForwardProps> = ({
         opacity={0.85}
         textAnchor="middle"
       >
-        xₜ = √ᾱₜ · x₀ + √(1−ᾱₜ) · ε — scheduler controls how fast ᾱₜ decays.
+        {parameterization === "vp"
+          ? "xₜ = √ᾱₜ · x₀ + √(1−ᾱₜ) · ε — scheduler controls how fast ᾱₜ decays."
+          : "VE xₜ = VP xₜ / √ᾱₜ with σₜ² = (1−ᾱₜ)/ᾱₜ — same SNR, different scale."}
       </text>
     </svg>
   );
@@ -1,7 +1,28 @@
-import { useCurrentFrame } from "remotion";
+import { useCurrentFrame, CalculateMetadataFunction } from "remotion";
 import { Latex } from "../../Latex";
 
-export const MyCompositionDot: React.FC<{ matrixA: number[][]; matrixB: number[][] }> = ({
+export type DotProductProps = { matrixA: number[][]; matrixB: number[][] };
+
+// Frames for each computation step
+const framesPerComputation = 90;
+const pauseBetweenSteps = 40;
+const finalPauseFrames = 300; // 5 seconds hold
+
+// Total frames needed for animation
+export const getDotProductDuration = ({ matrixA }: DotProductProps) =>
+  matrixA.length * matrixA.length * (framesPerComputation + pauseBetweenSteps) + finalPauseFrames;
+
+export const calculateDotProductMetadata: CalculateMetadataFunction<DotProductProps> = ({ props, compositionId }) => {
+  const n = Array.isArray(props.matrixA) ? props.matrixA.length : 0;
+  const isSquare = (m: number[][]) =>
+    Array.isArray(m) && m.length === n && m.every((row) => Array.isArray(row) && row.length === n);
+  if (n < 1 || !isSquare(props.matrixA) || !isSquare(props.matrixB)) {
+    throw new Error(`${compositionId}: "matrixA" and "matrixB" must be square matrices of the same size`);
+  }
+  return { durationInFrames: getDotProductDuration(props) };
+};
+
+export const MyCompositionDot: React.FC<DotProductProps> = ({
   matrixA,
   matrixB,
 }) => {
@@ -15,14 +36,6 @@ export const MyCompositionDot: React.FC<{ matrixA: number[][]; matrixB: number[]
   const equationMarginTop = 15; // Space between Matrix C and "C = A ⋅ B"
   const matrixGap = 60; // Controls the horizontal space between matrices
 
-  // Frames for each computation step
-  const framesPerComputation = 90;
-  const pauseBetweenSteps = 40;
-  const finalPauseFrames = 300; // 5 seconds hold
-
-  // Total frames needed for animation
-  const totalFrames = matrixSize * matrixSize * (framesPerComputation + pauseBetweenSteps) + finalPauseFrames;
-
   // Determine which computation step is currently happening
   let computationIndex = Math.floor(frame / (framesPerComputation + pauseBetweenSteps));
   let currentRow = Math.floor(computationIndex / matrixSize);
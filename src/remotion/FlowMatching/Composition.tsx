@@ -0,0 +1,296 @@
+import React, { useMemo } from "react";
+import { useCurrentFrame, useVideoConfig, interpolate, CalculateMetadataFunction } from "remotion";
+import { checkDist2D, checkNumber, checkOneOf, checkStepTimeline } from "../propChecks";
+import { dataPoints2D, Dist2DSource, makeRng, mulberry32, randn } from "../../seededMath";
+import { makeKernelMixture } from "../../mixtureScore";
+import {
+  FlowSolver, pathCoefs, PROBABILITY_PATHS, ProbabilityPath, sampleFlow, trajectoryStraightness,
+} from "../../flowMatching";
+import { meanNearestDistance } from "../../sampleMetrics";
+import { ParticleTrails, Trail, trailIndices } from "../ParticleTrails";
+
+export type FlowMatchingProps = {
+  dist2d: Dist2DSource;
+  custom2D?: { xs: Float32Array; ys: Float32Array } | null;
+  n: number;
+  /** ODE steps of the main run (and forward-path frames) */
+  steps: number;
+  /** steps of the coarse comparison run, default 1 */
+  coarseSteps?: number;
+  solver?: FlowSolver;          // default "euler"
+  /** σ₀ of the kernel mixture whose exact velocity drives the ODE */
+  kernelStd?: number;           // default 0.1
+  /** play the conditional paths x₀ → ε before sampling back */
+  showForward?: boolean;        // default true
+  trailCount?: number;          // default 40
+  showTarget?: boolean;
+  mode?: "light" | "dark";
+  framesPerStep?: number;       // default 6
+  tailHoldFrames?: number;      // default 120
+};
+
+const PATH_TITLE: Record<ProbabilityPath, string> = {
+  linear: "Flow matching  x_t = (1−t) x₀ + t ε",
+  vp: "VP (DDPM)  x_t = √ᾱ(t) x₀ + √(1−ᾱ(t)) ε",
+};
+
+const PATH_SHORT: Record<ProbabilityPath, string> = { linear: "linear", vp: "VP" };
+
+// Velocity evaluations per path (each against up to 400 kernel centers) the
+// scene may run when its props change; the page's largest setting (n 1500,
+// 200 + 20 Heun steps) stays under it.
+const FLOW_MAX_EVALUATIONS = 700_000;
+
+/* n particles through the main and the coarse run, two evaluations per Heun step */
+const flowEvaluations = ({ n, steps, coarseSteps = 1, solver = "euler" }: FlowMatchingProps) =>
+  n * (steps + coarseSteps) * (solver === "heun" ? 2 : 1);
+
+/* timeline length: (forward +) sampling phases of steps * framesPerStep, then the end hold */
+export const getFlowMatchingDuration = ({
+  steps,
+  showForward = true,
+  framesPerStep = 6,
+  tailHoldFrames = 120,
+}: FlowMatchingProps) =>
+  Math.max(1, (showForward ? 2 : 1) * steps * framesPerStep + Math.max(0, tailHoldFrames));
+
+export const calculateFlowMatchingMetadata: CalculateMetadataFunction<FlowMatchingProps> = ({
+  props,
+  compositionId,
+}) => {
+  checkDist2D(compositionId, props);
+  checkNumber(compositionId, props, "n", { min: 1, max: 5000, integer: true });
+  checkStepTimeline(compositionId, props);
+  checkNumber(compositionId, props, "coarseSteps", { min: 1, max: props.steps, integer: true, optional: true });
+  checkOneOf(compositionId, props, "solver", ["euler", "heun"], true);
+  checkNumber(compositionId, props, "kernelStd", { min: 0.001, max: 2, optional: true });
+  checkNumber(compositionId, props, "trailCount", { min: 0, max: 200, integer: true, optional: true });
+  const evaluations = flowEvaluations(props);
+  if (evaluations > FLOW_MAX_EVALUATIONS) {
+    throw new Error(
+      `${compositionId}: "n" × ("steps" + "coarseSteps")${props.solver === "heun" ? " × 2 (heun)" : ""} is ${evaluations}, ` +
+        `over the ${FLOW_MAX_EVALUATIONS} velocity evaluations the scene runs per path; lower "n" or "steps"`
+    );
+  }
+  return { durationInFrames: getFlowMatchingDuration(props) };
+};
+
+// linear blend between snapshot floor(pos) and the next one
+const snapshotAt = (states: Float32Array[], pos: number) => {
+  const k = Math.max(0, Math.min(states.length - 2, Math.floor(pos)));
+  const fr = Math.max(0, Math.min(1, pos - k));
+  const a = states[k], b = states[k + 1];
+  const out = new Float32Array(a.length);
+  for (let i = 0; i < a.length; i++) out[i] = a[i] + (b[i] - a[i]) * fr;
+  return { cur: out, k };
+};
+
+export const FlowMatchingComposition: React.FC<FlowMatchingProps> = ({
+  dist2d,
+  custom2D = null,
+  n,
+  steps,
+  coarseSteps = 1,
+  solver = "euler",
+  kernelStd = 0.1,
+  showForward = true,
+  trailCount = 40,
+  showTarget = true,
+  mode = "dark",
+  framesPerStep = 6,
+  tailHoldFrames = 120,
+}) => {
+  const frame = useCurrentFrame();
+  const { width, height } = useVideoConfig();
+
+  const P =
+    mode === "light"
+      ? { bg:"#fff", frame:"#e8ecf2", grid:"#d9e1ec", label:"#0b1324", axes:"#1f2937", ghost:"#94a3b8",
+          dots:"#f59e0b", target:"#111", trail:"#7c3aed", pin:"#e11d48" }
+      : { bg:"#000", frame:"#243145", grid:"#2b3a51", label:"#dfe9f5", axes:"#aac0d4", ghost:"#6b7d97",
+          dots:"#ffd166", target:"#fff", trail:"#c4b5fd", pin:"#fb7185" };
+
+  // x₀: the dataset, which is also the kernel mixture's centers
+  const baseSeed = 7071 + n * 7 + (dist2d === "ring" ? 200 : 0);
+  const base = useMemo(
+    () => dataPoints2D(dist2d, n, mulberry32(baseSeed >>> 0), custom2D),
+    [dist2d, custom2D, n, baseSeed]
+  );
+  const len = base.xs.length;
+  const mix = useMemo(() => makeKernelMixture([base.xs, base.ys], kernelStd), [base, kernelStd]);
+
+  // one ε per particle: the forward paths end there and the ODE starts there
+  const eps = useMemo(() => {
+    const rng = makeRng(baseSeed).fork(0xf10);
+    const e = new Float32Array(len * 2);
+    for (let i = 0; i < e.length; i++) e[i] = randn(rng);
+    return e;
+  }, [baseSeed, len]);
+
+  const S = Math.max(1, steps);
+  const runs = useMemo(
+    () =>
+      PROBABILITY_PATHS.map((path) => {
+        const forward: Float32Array[] = [];
+        for (let k = 0; k <= S; k++) {
+          const { a, s } = pathCoefs(path, k / S);
+          const x = new Float32Array(len * 2);
+          for (let i = 0; i < len; i++) {
+            x[2 * i] = a * base.xs[i] + s * eps[2 * i];
+            x[2 * i + 1] = a * base.ys[i] + s * eps[2 * i + 1];
+          }
+          forward.push(x);
+        }
+        const ode = sampleFlow(mix, path, eps, S, solver);
+        const coarse = sampleFlow(mix, path, eps, coarseSteps, solver);
+        return {
+          path,
+          forward,
+          ode,
+          coarse: coarse[coarse.length - 1],
+          straightForward: trajectoryStraightness(forward, 2),
+          straightOde: trajectoryStraightness(ode, 2),
+          nnFine: meanNearestDistance(ode[S], mix.centers, 2),
+          nnCoarse: meanNearestDistance(coarse[coarse.length - 1], mix.centers, 2),
+        };
+      }),
+    [base, eps, mix, len, S, coarseSteps, solver]
+  );
+
+  // timeline: forward t = 0 → 1, then the ODE t = 1 → 0
+  const phaseFrames = S * framesPerStep;
+  const activeFrames = Math.max(1, (showForward ? 2 : 1) * phaseFrames);
+  const f = Math.min(frame, activeFrames - 1);
+  const inForward = showForward && f < phaseFrames;
+  const phaseF = showForward && !inForward ? f - phaseFrames : f;
+  const pos = interpolate(phaseF, [0, Math.max(1, phaseFrames - 1)], [0, S], {
+    extrapolateLeft: "clamp",
+    extrapolateRight: "clamp",
+  });
+  const t = inForward ? pos / S : 1 - pos / S;
+
+  /* Layout: two path panels on the left, 2 × 2 final samples on the right */
+  const mTop = 110, mSide = 48, gap = 36;
+  const panel = 400;
+  const right0 = mSide + 2 * panel + gap + 48;
+  const cellGap = 24;
+  const cell = (width - right0 - 24 - cellGap) / 2;
+
+  const lim = 4;
+  const toPx = (x0: number, y0: number, w: number) => (x: number, y: number): [number, number] => [
+    x0 + ((x + lim) / (2 * lim)) * w,
+    y0 + w - ((y + lim) / (2 * lim)) * w,
+  ];
+  const inView = (x: number, y: number) => Math.abs(x) <= lim && Math.abs(y) <= lim;
+
+  const dots = (
+    xy: ArrayLike<number>,
+    count: number,
+    px: (x: number, y: number) => [number, number],
+    r: number,
+    fill: string,
+    op: number,
+    key: string
+  ) => {
+    const els: JSX.Element[] = [];
+    for (let i = 0; i < count; i++) {
+      if (!inView(xy[2 * i], xy[2 * i + 1])) continue;
+      const [cx, cy] = px(xy[2 * i], xy[2 * i + 1]);
+      els.push(<circle key={`${key}${i}`} cx={cx} cy={cy} r={r} fill={fill} fillOpacity={op} />);
+    }
+    return els;
+  };
+
+  const dataXY = useMemo(() => {
+    const xy = new Float32Array(len * 2);
+    for (let i = 0; i < len; i++) {
+      xy[2 * i] = base.xs[i];
+      xy[2 * i + 1] = base.ys[i];
+    }
+    return xy;
+  }, [base, len]);
+
+  const tracked = trailIndices(len, trailCount);
+
+  const sub = inForward
+    ? `forward: conditional paths x₀ → ε • t = ${t.toFixed(2)}`
+    : `sampling: dx/dt = u_t(x), exact velocity • ${solver === "heun" ? "Heun" : "Euler"}, ${S} steps • t = ${t.toFixed(2)}`;
+
+  return (
+    <svg width={width} height={height} style={{ background: P.bg }}>
+      <text x={width / 2} y={38} fill={P.label} fontSize={30} fontWeight={800} textAnchor="middle">
+        Flow matching vs the DDPM path (exact velocity)
+      </text>
+      <text x={width / 2} y={66} fill={P.label} fontSize={18} opacity={0.9} textAnchor="middle">
+        {sub}
+      </text>
+
+      {runs.map((run, p) => {
+        const x0 = mSide + p * (panel + gap);
+        const px = toPx(x0, mTop, panel);
+        const states = inForward ? run.forward : run.ode;
+        const { cur, k } = snapshotAt(states, pos);
+        const trails: Trail[] = tracked.map((i) => {
+          const pts: [number, number][] = [];
+          for (let s = 0; s <= k; s++) pts.push(px(states[s][2 * i], states[s][2 * i + 1]));
+          pts.push(px(cur[2 * i], cur[2 * i + 1]));
+          return { index: i, pts, pinned: false };
+        });
+        const [ox, oy] = px(0, 0);
+        return (
+          <g key={run.path}>
+            <text x={x0} y={mTop - 14} fill={P.label} fontSize={17} fontWeight={700}>
+              {PATH_TITLE[run.path]}
+            </text>
+            <rect x={x0 - 1} y={mTop - 1} width={panel + 2} height={panel + 2} fill={P.bg} stroke={P.frame} />
+            <line x1={x0} y1={oy} x2={x0 + panel} y2={oy} stroke={P.grid} />
+            <line x1={ox} y1={mTop} x2={ox} y2={mTop + panel} stroke={P.grid} />
+            {showTarget && dots(dataXY, len, px, 1.4, P.target, 0.25, `d${p}-`)}
+            <ParticleTrails trails={trails} color={P.trail} pinColor={P.pin} labelColor={P.label} />
+            {dots(cur, len, px, 2.2, P.dots, 0.95, `p${p}-`)}
+            <text x={x0} y={mTop + panel + 26} fill={P.label} fontSize={15}>
+              {`chord / arc:  conditional paths ${run.straightForward.toFixed(2)}  •  ODE ${run.straightOde.toFixed(2)}`}
+            </text>
+            <text x={x0} y={mTop + panel + 48} fill={P.label} fontSize={15} opacity={0.85}>
+              {run.path === "linear" ? "conditional v = ε − x₀, constant per pair" : "conditional v = a′x₀ + s′ε, turns with t"}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* Final samples: coarse vs fine, same x₁ */}
+      {[coarseSteps, S].map((st, c) => (
+        <text key={c} x={right0 + c * (cell + cellGap) + cell / 2} y={mTop - 14} fill={P.label} fontSize={17} fontWeight={700} textAnchor="middle">
+          {`${st} step${st === 1 ? "" : "s"}`}
+        </text>
+      ))}
+      {runs.map((run, r) =>
+        [
+          { x: run.coarse, nn: run.nnCoarse },
+          { x: run.ode[S], nn: run.nnFine },
+        ].map(({ x, nn }, c) => {
+          const cx0 = right0 + c * (cell + cellGap);
+          const cy0 = mTop + r * (cell + 40 + cellGap);
+          const px = toPx(cx0, cy0, cell);
+          return (
+            <g key={`${r}-${c}`}>
+              <rect x={cx0 - 1} y={cy0 - 1} width={cell + 2} height={cell + 2} fill="none" stroke={P.frame} />
+              {showTarget && dots(dataXY, len, px, 0.9, P.target, 0.2, `cd${r}${c}-`)}
+              {dots(x, len, px, 1.3, P.dots, 0.9, `c${r}${c}-`)}
+              <text x={cx0} y={cy0 + cell + 18} fill={P.label} fontSize={14} fontWeight={700}>
+                {PATH_SHORT[run.path]}
+              </text>
+              <text x={cx0 + cell} y={cy0 + cell + 18} fill={P.label} fontSize={13} textAnchor="end" opacity={0.85}>
+                {`NN dist ${nn.toFixed(3)}`}
+              </text>
+            </g>
+          );
+        })
+      )}
+
+      <text x={mSide} y={height - 16} fill={P.label} fontSize={14} opacity={0.85}>
+        Straight x₀ ↔ ε pairs do not make the marginal flow straight: one linear Euler step from t = 1 lands every sample on E[x₀], the data mean.
+      </text>
+    </svg>
+  );
+};
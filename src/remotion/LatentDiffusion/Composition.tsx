@@ -0,0 +1,260 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import { useCurrentFrame, useVideoConfig, interpolate, CalculateMetadataFunction } from "remotion";
+import { checkNumber, checkStepTimeline } from "../propChecks";
+import { makeAlphaBar, mulberry32, randn } from "../../seededMath";
+import { psnr } from "../../imageMetrics";
+import { decodePatches, encodePatches, explainedVariance, fitPatchPca, PatchPca } from "../../patchPca";
+import { BUNDLED_IMAGES, fixedNoise, loadImage, pixelsFromImage, resolveImageUrl } from "../imagePixels";
+import { useDelayedLoad } from "../useDelayedLoad";
+
+export type LatentDiffusionProps = {
+  imageUrl?: string;
+  steps: number;
+  mode?: "light" | "dark";
+  framesPerStep?: number;
+  tailHoldFrames?: number;
+  /** working resolution, a multiple of the 8 px patch */
+  internalSize?: number;
+  /** PCA components kept per 8 × 8 RGB patch (of 192) */
+  latentDims?: number;
+};
+
+const PATCH = 8;
+const PATCH_DIM = PATCH * PATCH * 3;
+// the PCA is fitted on the bundled images at this side, every PCA_STRIDE px
+const PCA_TRAIN_SIDE = 128;
+const PCA_STRIDE = 4;
+
+// one fit per page; a failed fit is retried on the next mount
+let bundledPca: Promise<PatchPca> | null = null;
+const fitBundledPca = () => {
+  if (!bundledPca) {
+    bundledPca = Promise.all(BUNDLED_IMAGES.map((g) => loadImage(g.src))).then((imgs) => {
+      const images = imgs.map((img) => {
+        const px = pixelsFromImage(img, PCA_TRAIN_SIDE);
+        if (!px) throw new Error("no 2D canvas context");
+        return { px, side: PCA_TRAIN_SIDE };
+      });
+      return fitPatchPca(images, PATCH, PCA_STRIDE);
+    });
+    bundledPca.catch(() => {
+      bundledPca = null;
+    });
+  }
+  return bundledPca;
+};
+
+// latent ε, independent of the pixel ε
+const latentNoise = (len: number) => {
+  const rng = mulberry32(0x1a7e27);
+  const e = new Float32Array(len);
+  for (let i = 0; i < e.length; i++) e[i] = randn(rng);
+  return e;
+};
+
+// s × s RGB in [0, 1] (clipped) → canvas shown at sq × sq
+const paintPixels = (c: HTMLCanvasElement | null, px: Float32Array, s: number, sq: number) => {
+  const ctx = c?.getContext("2d");
+  if (!c || !ctx) return;
+  const off = document.createElement("canvas");
+  off.width = s; off.height = s;
+  const octx = off.getContext("2d");
+  if (!octx) return;
+  const imgData = octx.createImageData(s, s);
+  const out = imgData.data;
+  for (let i = 0, j = 0; i < px.length; i += 3, j += 4) {
+    out[j + 0] = Math.max(0, Math.min(255, Math.round(px[i + 0] * 255)));
+    out[j + 1] = Math.max(0, Math.min(255, Math.round(px[i + 1] * 255)));
+    out[j + 2] = Math.max(0, Math.min(255, Math.round(px[i + 2] * 255)));
+    out[j + 3] = 255;
+  }
+  octx.putImageData(imgData, 0, 0);
+
+  const dpr = window.devicePixelRatio || 1;
+  c.width = Math.round(sq * dpr);
+  c.height = Math.round(sq * dpr);
+  c.style.width = `${sq}px`;
+  c.style.height = `${sq}px`;
+  ctx.save();
+  ctx.scale(dpr, dpr);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(off, 0, 0, sq, sq);
+  ctx.restore();
+};
+
+/* timeline length: steps * framesPerStep + end hold */
+export const getLatentDiffusionDuration = ({ steps, framesPerStep = 6, tailHoldFrames = 120 }: LatentDiffusionProps) =>
+  Math.max(1, steps * framesPerStep + Math.max(0, tailHoldFrames));
+
+export const calculateLatentDiffusionMetadata: CalculateMetadataFunction<LatentDiffusionProps> = ({
+  props,
+  compositionId,
+}) => {
+  checkStepTimeline(compositionId, props);
+  checkNumber(compositionId, props, "internalSize", { min: 32, max: 1024, integer: true, optional: true });
+  if (props.internalSize !== undefined && props.internalSize % PATCH !== 0) {
+    throw new Error(`${compositionId}: "internalSize" must be a multiple of ${PATCH}, got ${props.internalSize}`);
+  }
+  checkNumber(compositionId, props, "latentDims", { min: 1, max: PATCH_DIM, integer: true, optional: true });
+  return { durationInFrames: getLatentDiffusionDuration(props) };
+};
+
+/**
+ * Forward noising of the same image in pixel space and in the latent space of
+ * a PCA patch autoencoder, each latent step decoded back to pixels.
+ */
+export const LatentDiffusionComposition: React.FC<LatentDiffusionProps> = ({
+  imageUrl,
+  steps,
+  mode = "dark",
+  framesPerStep = 6,
+  tailHoldFrames = 120,
+  internalSize = 256,
+  latentDims = 16,
+}) => {
+  const frame = useCurrentFrame();
+  const { width, height } = useVideoConfig();
+
+  const P =
+    mode === "light"
+      ? { bg:"#fff", frame:"#e8ecf2", grid:"#d9e1ec", label:"#0b1324" }
+      : { bg:"#000", frame:"#243145", grid:"#2b3a51", label:"#dfe9f5" };
+
+  // Layout: four squares in a row, notes underneath
+  const mTop = 110;
+  const mSide = 48;
+  const gap = 24;
+  const mBot = 120;
+  const sq = Math.min((width - 2 * mSide - 3 * gap) / 4, height - mTop - mBot);
+  const xs = [0, 1, 2, 3].map((i) => mSide + i * (sq + gap));
+  const topY = mTop;
+
+  const titleY = 34;
+  const subY = 56;
+
+  const s = internalSize;
+  const k = Math.max(1, Math.min(PATCH_DIM, latentDims));
+
+  // Patch PCA, fitted once on the bundled images (renders wait for it)
+  const { value: pca, error: pcaError } = useDelayedLoad("patch PCA", fitBundledPca, []);
+
+  // Image → pixels (renders wait for it)
+  const { value: imgEl, error: imageError } = useDelayedLoad("image", () => loadImage(resolveImageUrl(imageUrl)), [imageUrl]);
+  const basePx = useMemo(() => (imgEl ? pixelsFromImage(imgEl, s) : null), [imgEl, s]);
+
+  const noise = useMemo(() => fixedNoise(s * s * 3), [s]);
+  const z0 = useMemo(() => (pca && basePx ? encodePatches(pca, k, basePx, s) : null), [pca, basePx, k, s]);
+  const zNoise = useMemo(() => (z0 ? latentNoise(z0.length) : null), [z0]);
+  const recon = useMemo(() => (pca && z0 ? decodePatches(pca, k, z0, s) : null), [pca, z0, k, s]);
+  const reconPsnr = useMemo(
+    () => (basePx && recon ? psnr(basePx, recon.map((v) => Math.max(0, Math.min(1, v)))) : null),
+    [basePx, recon]
+  );
+  const kept = pca ? explainedVariance(pca, k) : null;
+
+  // Schedule + timing (noising only)
+  const alphaBar = useMemo(() => makeAlphaBar(Math.max(2, steps)), [steps]);
+  const activeFrames = Math.max(1, steps * framesPerStep);
+  const progress = activeFrames > 1 ? Math.min(frame, activeFrames - 1) / (activeFrames - 1) : 0;
+  const tPos = interpolate(progress, [0, 1], [0, Math.max(1, steps - 1)], {
+    extrapolateLeft: "clamp",
+    extrapolateRight: "clamp",
+  });
+  const kk = Math.max(0, Math.min(steps - 2, Math.floor(tPos)));
+  const frac = Math.max(0, Math.min(1, tPos - kk));
+  const ab = alphaBar[kk] + (alphaBar[kk + 1] - alphaBar[kk]) * frac;
+  const s1 = Math.sqrt(Math.max(1e-8, ab));
+  const s2 = Math.sqrt(Math.max(0, 1 - ab));
+
+  const inputRef = useRef<HTMLCanvasElement | null>(null);
+  const reconRef = useRef<HTMLCanvasElement | null>(null);
+  const pixelRef = useRef<HTMLCanvasElement | null>(null);
+  const latentRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    if (basePx) paintPixels(inputRef.current, basePx, s, sq);
+  }, [basePx, s, sq]);
+
+  useEffect(() => {
+    if (recon) paintPixels(reconRef.current, recon, s, sq);
+  }, [recon, s, sq]);
+
+  // pixel space: x_t = √ᾱ x₀ + √(1−ᾱ) ε
+  useEffect(() => {
+    if (!basePx) return;
+    const xt = new Float32Array(basePx.length);
+    for (let i = 0; i < xt.length; i++) xt[i] = s1 * basePx[i] + s2 * noise[i];
+    paintPixels(pixelRef.current, xt, s, sq);
+  }, [basePx, noise, s1, s2, s, sq]);
+
+  // latent space: z_t = √ᾱ z₀ + √(1−ᾱ) ε_z, shown as D(z_t)
+  useEffect(() => {
+    if (!pca || !z0 || !zNoise) return;
+    const zt = new Float32Array(z0.length);
+    for (let i = 0; i < zt.length; i++) zt[i] = s1 * z0[i] + s2 * zNoise[i];
+    paintPixels(latentRef.current, decodePatches(pca, k, zt, s), s, sq);
+  }, [pca, z0, zNoise, k, s1, s2, s, sq]);
+
+  const tDisp = Math.round(tPos) + 1;
+  const title = "Latent diffusion: noising pixels vs noising a PCA latent";
+  const sub = `t=${tDisp}/${steps} • ᾱ≈${ab.toFixed(6)} • latent ${k} of ${PATCH_DIM} dims per ${PATCH}×${PATCH} patch`;
+
+  // what an empty panel says: the failure that keeps it empty, else still loading
+  const imageNote = imageError ? "image failed" : "loading…";
+  const latentNote = pcaError ? "PCA failed" : imageNote;
+  const panels: Array<{ label: string; ref: React.MutableRefObject<HTMLCanvasElement | null>; ready: boolean; note: string }> = [
+    { label: "Input x₀", ref: inputRef, ready: !!basePx, note: imageNote },
+    { label: "Autoencoder D(E(x₀))", ref: reconRef, ready: !!recon, note: latentNote },
+    { label: "Pixel space xₜ", ref: pixelRef, ready: !!basePx, note: imageNote },
+    { label: "Latent space D(zₜ)", ref: latentRef, ready: !!recon, note: latentNote },
+  ];
+
+  const stats =
+    kept !== null && reconPsnr !== null
+      ? `${(PATCH_DIM / k).toFixed(1)}× fewer numbers • PCA keeps ${(kept * 100).toFixed(1)}% of patch variance • reconstruction PSNR ${reconPsnr.toFixed(1)} dB`
+      : imageError
+      ? `Image failed: ${imageError}`
+      : pcaError
+      ? `PCA failed: ${pcaError}`
+      : "fitting the patch PCA on the bundled images…";
+
+  return (
+    <svg width={width} height={height} style={{ background: P.bg }}>
+      <text x={width / 2} y={titleY} fill={P.label} fontSize={28} fontWeight={800} textAnchor="middle">
+        {title}
+      </text>
+      <text x={width / 2} y={subY + 10} fill={P.label} fontSize={18} opacity={0.9} textAnchor="middle">
+        {sub}
+      </text>
+
+      {panels.map((p, i) => (
+        <g key={p.label}>
+          <text x={xs[i]} y={topY - 12} fill={P.label} fontSize={16} fontWeight={700}>
+            {p.label}
+          </text>
+          <rect x={xs[i] - 1} y={topY - 1} width={sq + 2} height={sq + 2} fill="none" stroke={P.frame} />
+          {p.ready ? (
+            <foreignObject x={xs[i]} y={topY} width={sq} height={sq}>
+              <canvas ref={p.ref} style={{ display: "block", width: "100%", height: "100%" }} />
+            </foreignObject>
+          ) : (
+            <text x={xs[i] + sq / 2} y={topY + sq / 2} fill={P.label} fontSize={14} opacity={0.7} textAnchor="middle">
+              {p.note}
+            </text>
+          )}
+        </g>
+      ))}
+
+      {/* Notes */}
+      <text x={width / 2} y={topY + sq + 44} fill={P.label} fontSize={16} textAnchor="middle">
+        {stats}
+      </text>
+      <text x={width / 2} y={topY + sq + 72} fill={P.label} fontSize={15} opacity={0.85} textAnchor="middle">
+        Pixel noise is white and independent per pixel; latent noise decodes into patch-shaped structure spanned by the top-k components.
+      </text>
+      <text x={width / 2} y={height - 25} fill={P.label} fontSize={14} opacity={0.85} textAnchor="middle">
+        xₜ = √ᾱₜ · x₀ + √(1−ᾱₜ) · ε in pixels — zₜ = √ᾱₜ · E(x₀) + √(1−ᾱₜ) · ε in the whitened latent, decoded by D.
+      </text>
+    </svg>
+  );
+};
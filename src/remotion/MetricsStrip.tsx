@@ -0,0 +1,146 @@
+import React from "react";
+import { mulberry32, randn } from "../seededMath";
+import { DistributionDistances, distributionDistances, subsamplePoints } from "../sampleMetrics";
+
+// Clouds are compared on at most this many points (the pairwise terms are O(m²)).
+const METRICS_MAX_POINTS = 200;
+
+const NOISE_COLOR = "#ffd166";
+const DATA_COLOR = "#4dabf7";
+
+type Palette = { frame: string; grid: string; label: string };
+
+/** One particle cloud along the scene's timeline. */
+export type MetricsCloud = { t: number; alphaBar: number; x: Float32Array };
+
+export type DistanceRow = {
+  /** position along the scene's timeline, 0 … rows−1 */
+  step: number;
+  t: number;
+  alphaBar: number;
+  noise: DistributionDistances;
+  data: DistributionDistances;
+};
+
+// a fixed N(0, I) sample (same seed everywhere, so strips and CSVs agree)
+const referenceNoise = (m: number, D: number, seed = 0x0d15ea5e) => {
+  const rng = mulberry32(seed);
+  const x = new Float32Array(m * D);
+  for (let i = 0; i < x.length; i++) x[i] = randn(rng);
+  return x;
+};
+
+/**
+ * Distances from every cloud to N(0, I) and to the data (flat N·D), each on
+ * a strided subsample of METRICS_MAX_POINTS points. The data reference sits
+ * half a stride off the cloud's, so a particle is never compared with its own
+ * x₀ (unless the cloud is too small to hold two disjoint subsamples).
+ */
+export const distanceRowsFor = (clouds: MetricsCloud[], data: Float32Array, D: number): DistanceRow[] => {
+  const noise = referenceNoise(METRICS_MAX_POINTS, D);
+  const ref = subsamplePoints(data, D, METRICS_MAX_POINTS, 0);
+  return clouds.map(({ t, alphaBar, x }, step) => {
+    const sub = subsamplePoints(x, D, METRICS_MAX_POINTS);
+    return {
+      step,
+      t,
+      alphaBar,
+      noise: distributionDistances(sub, noise, D),
+      data: distributionDistances(sub, ref, D),
+    };
+  });
+};
+
+/**
+ * The points of one coordinate array that distanceRowsFor keeps of a cloud.
+ * Scenes that build many clouds from the same particles subsample once with
+ * this and build each cloud on the subsample alone.
+ */
+export const metricsSubsample = (v: Float32Array) => subsamplePoints(v, 1, METRICS_MAX_POINTS);
+
+/**
+ * Distances between two independent N(0, I) samples of the strip's size: the
+ * finite-sample floor the "vs N(0, I)" curves settle on.
+ */
+export const distanceFloor = (D: number) =>
+  distributionDistances(referenceNoise(METRICS_MAX_POINTS, D), referenceNoise(METRICS_MAX_POINTS, D, 0xf1007), D);
+
+export const distanceCsv = (rows: DistanceRow[]) =>
+  [
+    "step,t,alpha_bar,mmd_noise,sw_noise,energy_noise,mmd_data,sw_data,energy_data",
+    ...rows.map((r) =>
+      [
+        String(r.step),
+        String(r.t),
+        ...[r.alphaBar, r.noise.mmd, r.noise.sw, r.noise.energy, r.data.mmd, r.data.sw, r.data.energy].map((v) =>
+          v.toPrecision(6)
+        ),
+      ].join(",")
+    ),
+  ].join("\n") + "\n";
+
+const METRICS: Array<{ key: keyof DistributionDistances; title: string }> = [
+  { key: "mmd", title: "MMD (RBF, σ = 1)" },
+  { key: "sw", title: "Sliced W₂" },
+  { key: "energy", title: "Energy distance" },
+];
+
+/**
+ * MMD, sliced Wasserstein and energy distance along the timeline, side by
+ * side: vs N(0, I) (solid) and vs the data (dashed), with the finite-sample
+ * floor dotted and the current position marked.
+ */
+export const MetricsStrip: React.FC<{
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  rows: DistanceRow[];
+  /** fractional row index of the current frame */
+  pos: number;
+  floor: DistributionDistances;
+  /** axis end labels, e.g. ["t=1", "t=T"] */
+  ends: [string, string];
+  P: Palette;
+}> = ({ x, y, w, h, rows, pos, floor, ends, P }) => {
+  const gap = 36;
+  const chartW = (w - 2 * gap) / 3;
+  const top = y + 18;
+  const bot = y + h - 16;
+  const n = rows.length;
+  const cur = rows[Math.max(0, Math.min(n - 1, Math.round(pos)))];
+
+  const chart = (cx: number, key: keyof DistributionDistances, title: string) => {
+    const max = Math.max(1e-6, ...rows.map((r) => Math.max(r.noise[key], r.data[key]))) * 1.05;
+    const px = (i: number) => cx + (i / Math.max(1, n - 1)) * chartW;
+    const py = (v: number) => bot - (Math.max(0, Math.min(max, v)) / max) * (bot - top);
+    const line = (pick: (r: DistanceRow) => number) => rows.map((r, i) => `${px(i)},${py(pick(r))}`).join(" ");
+    const curX = px(pos);
+    return (
+      <g key={key}>
+        <text x={cx} y={y + 10} fill={P.label} fontSize={13} fontWeight={700}>
+          {title}
+        </text>
+        {cur && (
+          <text x={cx + chartW} y={y + 10} fontSize={12} textAnchor="end">
+            <tspan fill={NOISE_COLOR}>{`N(0,I) ${cur.noise[key].toFixed(3)}`}</tspan>
+            <tspan fill={DATA_COLOR} dx={10}>{`data ${cur.data[key].toFixed(3)}`}</tspan>
+          </text>
+        )}
+        <rect x={cx} y={top} width={chartW} height={bot - top} fill="none" stroke={P.frame} />
+        <line x1={cx} x2={cx + chartW} y1={py(floor[key])} y2={py(floor[key])} stroke={P.grid} strokeDasharray="2 3" />
+        <polyline points={line((r) => r.noise[key])} fill="none" stroke={NOISE_COLOR} strokeWidth={2} />
+        <polyline points={line((r) => r.data[key])} fill="none" stroke={DATA_COLOR} strokeWidth={2} strokeDasharray="6 4" />
+        <line x1={curX} x2={curX} y1={top} y2={bot} stroke="#ffffff" strokeDasharray="3 3" opacity={0.9} />
+        <text x={cx} y={bot + 13} fill={P.label} fontSize={10} opacity={0.8}>
+          {ends[0]}
+        </text>
+        <text x={cx + chartW} y={bot + 13} fill={P.label} fontSize={10} textAnchor="end" opacity={0.8}>
+          {ends[1]}
+        </text>
+      </g>
+    );
+  };
+
+  return <g>{METRICS.map(({ key, title }, i) => chart(x + i * (chartW + gap), key, title))}</g>;
+};
@@ -0,0 +1,68 @@
+import React from "react";
+
+// Fading polyline trails for a few tracked particles in the 2D diffusion
+// plots. Older segments fade out; pinned particles are drawn solid, with a
+// start marker and their index.
+
+export type Trail = {
+  index: number;
+  /** pixel positions, oldest first; the last one is the current position */
+  pts: [number, number][];
+  pinned: boolean;
+};
+
+/** `count` evenly strided particle indices plus any pinned ones (deduplicated). */
+export const trailIndices = (len: number, count: number, pinned: number[] = []) => {
+  const out: number[] = [];
+  const n = Math.max(0, Math.min(len, Math.round(count)));
+  for (let j = 0; j < n; j++) out.push(Math.floor(((j + 0.5) * len) / n));
+  for (const p of pinned) {
+    if (Number.isInteger(p) && p >= 0 && p < len && !out.includes(p)) out.push(p);
+  }
+  return out;
+};
+
+type Props = {
+  trails: Trail[];
+  color: string;
+  pinColor: string;
+  labelColor: string;
+};
+
+export const ParticleTrails: React.FC<Props> = ({ trails, color, pinColor, labelColor }) => {
+  const els: JSX.Element[] = [];
+  for (const tr of trails) {
+    const { pts, pinned, index } = tr;
+    const last = pts.length - 1;
+    for (let s = 1; s <= last; s++) {
+      const age = s / Math.max(1, last); // 0 oldest … 1 newest
+      els.push(
+        <line
+          key={`${index}-${s}`}
+          x1={pts[s - 1][0]}
+          y1={pts[s - 1][1]}
+          x2={pts[s][0]}
+          y2={pts[s][1]}
+          stroke={pinned ? pinColor : color}
+          strokeWidth={pinned ? 2.6 : 1.6}
+          strokeOpacity={pinned ? 0.35 + 0.65 * age : 0.05 + 0.75 * age}
+          strokeLinecap="round"
+        />
+      );
+    }
+    if (pinned && pts.length > 0) {
+      const [sx, sy] = pts[0];
+      const [cx, cy] = pts[last];
+      els.push(
+        <g key={`pin-${index}`}>
+          <circle cx={sx} cy={sy} r={4} fill="none" stroke={pinColor} strokeWidth={1.6} />
+          <circle cx={cx} cy={cy} r={5.5} fill={pinColor} stroke={labelColor} strokeWidth={1.2} />
+          <text x={cx + 9} y={cy - 8} fill={labelColor} fontSize={14} fontWeight={700}>
+            #{index}
+          </text>
+        </g>
+      );
+    }
+  }
+  return <g>{els}</g>;
+};
@@ -0,0 +1,111 @@
+import React from "react";
+import { QualityRow, qualityCurves, qualityCsv, subgridPixels } from "../imageMetrics";
+import { fixedNoise, loadImage, pixelsFromImage, resolveImageUrl } from "./imagePixels";
+
+// Metrics run on a sub-grid of the working buffer (one full pass per step).
+// PSNR there estimates the full image's; SSIM is the sub-grid's own, and is
+// labelled so in the strip and the CSV.
+const QUALITY_MAX_SIDE = 64;
+const PSNR_MAX = 60;
+
+const XT_COLOR = "#ffd166";
+const X0_COLOR = "#4dabf7";
+
+type Palette = { frame: string; grid: string; label: string };
+
+/**
+ * Quality rows for every step of `alphaBar`, from the scene's own x₀ and ε.
+ * With `epsError` the oracle predicts ε̂ = ε + epsError instead of ε.
+ */
+export const qualityRowsFor = (
+  basePx: Float32Array,
+  noise: Float32Array,
+  s: number,
+  alphaBar: ArrayLike<number>,
+  epsError?: Float32Array | null
+): QualityRow[] => {
+  const x0 = subgridPixels(basePx, s, QUALITY_MAX_SIDE);
+  const eps = subgridPixels(noise, s, QUALITY_MAX_SIDE);
+  if (!epsError) return qualityCurves(x0.px, eps.px, x0.side, alphaBar);
+  const err = subgridPixels(epsError, s, QUALITY_MAX_SIDE).px;
+  const epsHat = eps.px.map((e, i) => e + err[i]);
+  return qualityCurves(x0.px, eps.px, x0.side, alphaBar, () => epsHat);
+};
+
+/** Loads the image like the scenes do and returns the quality curves as CSV. */
+export const exportQualityCsv = async (
+  imageUrl: string | undefined,
+  internalSize: number,
+  alphaBar: ArrayLike<number>,
+  epsError?: (s: number) => Float32Array | null
+) => {
+  const img = await loadImage(resolveImageUrl(imageUrl));
+  const basePx = pixelsFromImage(img, internalSize);
+  if (!basePx) throw new Error("exportQualityCsv: no 2D canvas context");
+  const noise = fixedNoise(basePx.length);
+  return qualityCsv(qualityRowsFor(basePx, noise, internalSize, alphaBar, epsError?.(internalSize)));
+};
+
+/**
+ * PSNR (dB) and SSIM vs t, side by side: x₀ vs x_t (solid) and x₀ vs the
+ * oracle x̂₀ (dashed), with the current t marked.
+ */
+export const QualityStrip: React.FC<{
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  rows: QualityRow[];
+  tPos: number;
+  P: Palette;
+}> = ({ x, y, w, h, rows, tPos, P }) => {
+  const gap = 36;
+  const chartW = (w - gap) / 2;
+  const top = y + 18;
+  const bot = y + h - 16;
+  const n = rows.length;
+  const cur = rows[Math.max(0, Math.min(n - 1, Math.round(tPos)))];
+
+  const chart = (
+    cx: number,
+    title: string,
+    max: number,
+    pick: (r: QualityRow) => [number, number],
+    fmt: (v: number) => string
+  ) => {
+    const px = (t: number) => cx + (t / Math.max(1, n - 1)) * chartW;
+    const py = (v: number) => bot - (Math.max(0, Math.min(max, v)) / max) * (bot - top);
+    const line = (k: 0 | 1) => rows.map((r, t) => `${px(t)},${py(pick(r)[k])}`).join(" ");
+    const curX = px(tPos);
+    const [vt, v0] = cur ? pick(cur) : [0, 0];
+    return (
+      <g>
+        <text x={cx} y={y + 10} fill={P.label} fontSize={13} fontWeight={700}>
+          {title}
+        </text>
+        <text x={cx + chartW} y={y + 10} fontSize={12} textAnchor="end">
+          <tspan fill={XT_COLOR}>{`xₜ ${fmt(vt)}`}</tspan>
+          <tspan fill={X0_COLOR} dx={10}>{`x̂₀ ${fmt(v0)}`}</tspan>
+        </text>
+        <rect x={cx} y={top} width={chartW} height={bot - top} fill="none" stroke={P.frame} />
+        <line x1={cx} x2={cx + chartW} y1={py(max / 2)} y2={py(max / 2)} stroke={P.grid} strokeDasharray="3 3" />
+        <polyline points={line(0)} fill="none" stroke={XT_COLOR} strokeWidth={2} />
+        <polyline points={line(1)} fill="none" stroke={X0_COLOR} strokeWidth={2} strokeDasharray="6 4" />
+        <line x1={curX} x2={curX} y1={top} y2={bot} stroke="#ffffff" strokeDasharray="3 3" opacity={0.9} />
+        <text x={cx} y={bot + 13} fill={P.label} fontSize={10} opacity={0.8}>
+          t=1
+        </text>
+        <text x={cx + chartW} y={bot + 13} fill={P.label} fontSize={10} textAnchor="end" opacity={0.8}>
+          {`t=${n}`}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <g>
+      {chart(x, "PSNR vs x₀ (dB)", PSNR_MAX, (r) => [r.psnrXt, r.psnrX0], (v) => v.toFixed(1))}
+      {chart(x + chartW + gap, "SSIM vs x₀ (sub-grid)", 1, (r) => [r.ssimXt, r.ssimX0], (v) => v.toFixed(3))}
+    </g>
+  );
+};
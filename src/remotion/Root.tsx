@@ -0,0 +1,378 @@
+import React from "react";
+import { Composition } from "remotion";
+// The html pages load KaTeX CSS from a CDN; bundle it here so renders work offline.
+import "katex/dist/katex.min.css";
+import {
+  DDPMForwardComposition,
+  calculateDDPMForwardMetadata,
+} from "./DiffusionForward/Composition";
+import {
+  DDPMReverseComposition,
+  calculateDDPMReverseMetadata,
+} from "./DiffusionReverse/Composition";
+import {
+  ImageForwardComposition,
+  calculateImageForwardMetadata,
+} from "./DiffusionForwardImage/Composition";
+import {
+  ImageForwardComposition as ImageForwardSchedulersComposition,
+  calculateImageForwardMetadata as calculateImageForwardSchedulersMetadata,
+} from "./DiffusionSchedulers/Composition";
+import {
+  LatentDiffusionComposition,
+  calculateLatentDiffusionMetadata,
+} from "./LatentDiffusion/Composition";
+import {
+  ConditionalDiffusionComposition,
+  calculateConditionalDiffusionMetadata,
+} from "./ConditionalDiffusion/Composition";
+import {
+  FlowMatchingComposition,
+  calculateFlowMatchingMetadata,
+} from "./FlowMatching/Composition";
+import {
+  DenoiserTrainingComposition,
+  calculateDenoiserTrainingMetadata,
+} from "./DenoiserTraining/Composition";
+import { DataSimComposition } from "./DataSim/Composition";
+import { SamplingContinuousComposition } from "./SamplingContinuous/Composition";
+import { HowImageNoiseComposition } from "./HowImageNoise/Composition";
+import { JigsawComposition } from "./JigsawPuzzleInteractive/Composition";
+import {
+  MyCompositionDot,
+  calculateDotProductMetadata,
+} from "./DotProductInteractive/Composition";
+import { MyCompositionTrig } from "./TrigVideoInteractive/Composition";
+
+// Every scene renders on the same 16:9 stage as the embedded players.
+const FPS = 60;
+const W = 1280;
+const H = 720;
+
+export const RemotionRoot: React.FC = () => {
+  return (
+    <>
+      {/* Diffusion (1D/2D points) — duration comes from steps/framesPerStep/tailHoldFrames */}
+      <Composition
+        id="DDPMForwardComposition"
+        component={DDPMForwardComposition}
+        calculateMetadata={calculateDDPMForwardMetadata}
+        durationInFrames={1}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          dist2d: "spiral",
+          dim: "2d",
+          dist1d: "spiky",
+          custom1D: null,
+          view1d: "ridge",
+          steps: 120,
+          n: 400,
+          mode: "dark",
+          custom2D: null,
+          framesPerStep: 6,
+          tailHoldFrames: 150,
+          visibleCount: 400,
+          noiseMode: false,
+          noiseSteps: 0,
+          noiseHistory: [],
+          gaussMeanX: 0,
+          gaussMeanY: 0,
+          gaussVarX: 1,
+          gaussVarY: 1,
+          noiseDisplay: "dots",
+          showNoiseOverlay: true,
+          quiver: "off",
+          quiverDensity: 17,
+          quiverNorm: "log",
+          trailCount: 0,
+          pinnedIndices: [],
+          metricsStrip: false,
+          noiseReplay: false,
+        }}
+      />
+      <Composition
+        id="DDPMReverseComposition"
+        component={DDPMReverseComposition}
+        calculateMetadata={calculateDDPMReverseMetadata}
+        durationInFrames={1}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          dim: "2d",
+          dist1d: "uniform",
+          dist2d: "spiral",
+          steps: 120,
+          n: 900,
+          showTarget: true,
+          showStartNoise: true,
+          custom1D: null,
+          custom2D: null,
+          mode: "dark",
+          sampler: "ancestral",
+          kernelStd: 0.1,
+          samplingSteps: 120,
+          eta: 0,
+          quiver: "off",
+          quiverDensity: 17,
+          quiverNorm: "log",
+          trailCount: 0,
+          pinnedIndices: [],
+          metricsStrip: false,
+          framesPerStep: 6,
+          tailHoldFrames: 150,
+        }}
+      />
+
+      {/* Trains the tiny denoiser in a worker from calculateMetadata when no history is given (~20 s) */}
+      <Composition
+        id="DenoiserTrainingComposition"
+        component={DenoiserTrainingComposition}
+        calculateMetadata={calculateDenoiserTrainingMetadata}
+        durationInFrames={1}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          dist2d: "ring",
+          custom2D: null,
+          n: 2000,
+          iterations: 2000,
+          snapshotEvery: 250,
+          logEvery: 25,
+          sampleCount: 400,
+          hidden: 64,
+          layers: 3,
+          seed: 1234,
+          history: null,
+          mode: "dark",
+          framesPerSnapshot: 90,
+          tailHoldFrames: 150,
+        }}
+      />
+
+      {/* Diffusion (images) */}
+      <Composition
+        id="ImageForwardComposition"
+        component={ImageForwardComposition}
+        calculateMetadata={calculateImageForwardMetadata}
+        durationInFrames={1}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          imageUrl: "",
+          steps: 140,
+          mode: "dark",
+          framesPerStep: 6,
+          tailHoldFrames: 120,
+          internalSize: 512,
+          sidePanel: "histogram",
+          qualityStrip: true,
+          oraclePanel: true,
+          epsError: "gaussian",
+          epsErrorStd: 0.1,
+          epsErrorBlur: 8,
+        }}
+      />
+      <Composition
+        id="ImageForwardSchedulersComposition"
+        component={ImageForwardSchedulersComposition}
+        calculateMetadata={calculateImageForwardSchedulersMetadata}
+        durationInFrames={1}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          imageUrl: "",
+          steps: 140,
+          mode: "dark",
+          framesPerStep: 6,
+          tailHoldFrames: 120,
+          internalSize: 512,
+          scheduler: "linear",
+          schedulerParams: {},
+          customSchedule: null,
+          zeroTerminalSnr: false,
+          graphView: "alphaBar",
+          parameterization: "vp",
+          snrPanel: false,
+          highNoiseSnr: 0.1,
+          layout: "single",
+          gridColumns: 6,
+          qualityStrip: false,
+        }}
+      />
+      <Composition
+        id="LatentDiffusionComposition"
+        component={LatentDiffusionComposition}
+        calculateMetadata={calculateLatentDiffusionMetadata}
+        durationInFrames={1}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          imageUrl: "",
+          steps: 140,
+          mode: "dark",
+          framesPerStep: 6,
+          tailHoldFrames: 120,
+          internalSize: 256,
+          latentDims: 16,
+        }}
+      />
+      <Composition
+        id="ConditionalDiffusionComposition"
+        component={ConditionalDiffusionComposition}
+        calculateMetadata={calculateConditionalDiffusionMetadata}
+        durationInFrames={1}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          dataset: "gaussians8",
+          guidance: 3,
+          steps: 100,
+          n: 600,
+          targetClass: null,
+          sampler: "ddpm",
+          compareScales: [0, 1, 3, 8],
+          showData: true,
+          seed: 2024,
+          mode: "dark",
+          framesPerStep: 6,
+          tailHoldFrames: 120,
+        }}
+      />
+      <Composition
+        id="FlowMatchingComposition"
+        component={FlowMatchingComposition}
+        calculateMetadata={calculateFlowMatchingMetadata}
+        durationInFrames={1}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          dist2d: "ring",
+          custom2D: null,
+          n: 400,
+          steps: 60,
+          coarseSteps: 1,
+          solver: "euler",
+          kernelStd: 0.1,
+          showForward: true,
+          trailCount: 40,
+          showTarget: true,
+          mode: "dark",
+          framesPerStep: 6,
+          tailHoldFrames: 120,
+        }}
+      />
+
+      {/* Sampling / data basics — interactive scenes keep a long headroom timeline */}
+      <Composition
+        id="DataSimComposition"
+        component={DataSimComposition}
+        durationInFrames={60 * 60}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          kind: "discrete",
+          labels: ["H", "T"],
+          prevCounts: [0, 0],
+          counts: [0, 0],
+          total: 0,
+          lastOutcomeIndex: null,
+          animStartFrame: 0,
+          animDuration: 36,
+          mode: "light",
+        }}
+      />
+      <Composition
+        id="SamplingContinuousComposition"
+        component={SamplingContinuousComposition}
+        durationInFrames={60 * 60}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          dim: "2d",
+          mode: "dark",
+          original1d: [],
+          original2d: [],
+          generated1d: [],
+          generated2d: [],
+          lastIndex: -1,
+        }}
+      />
+      <Composition
+        id="HowImageNoiseComposition"
+        component={HowImageNoiseComposition}
+        durationInFrames={120}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          data: [],
+          imgH: 2,
+          imgW: 2,
+          channels: 1,
+          mode: "empty",
+          theme: "dark",
+        }}
+      />
+      <Composition
+        id="JigsawComposition"
+        component={JigsawComposition}
+        durationInFrames={60 * 60}
+        fps={FPS}
+        width={720}
+        height={720}
+        defaultProps={{
+          grid: 3,
+          permFrom: [0, 1, 2, 3, 4, 5, 6, 7, 8],
+          permTo: [0, 1, 2, 3, 4, 5, 6, 7, 8],
+          imageUrl: "",
+          animStartFrame: 0,
+          animDuration: 48,
+          boardPadding: 12,
+        }}
+      />
+
+      {/* Math warm-ups */}
+      <Composition
+        id="MyCompositionDot"
+        component={MyCompositionDot}
+        calculateMetadata={calculateDotProductMetadata}
+        durationInFrames={1}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{
+          matrixA: [
+            [1, 2, 3],
+            [4, 5, 6],
+            [7, 8, 9],
+          ],
+          matrixB: [
+            [1, 0, 0],
+            [0, 1, 0],
+            [0, 0, 1],
+          ],
+        }}
+      />
+      <Composition
+        id="MyCompositionTrig"
+        component={MyCompositionTrig}
+        durationInFrames={500}
+        fps={FPS}
+        width={W}
+        height={H}
+        defaultProps={{ graphType: "cos", mode: "dark" }}
+      />
+    </>
+  );
+};
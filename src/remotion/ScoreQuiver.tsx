@@ -0,0 +1,86 @@
+import React from "react";
+import { KernelMixture, mixtureEps } from "../mixtureScore";
+
+// Quiver overlay for the 2D diffusion plots: the exact score ∇log q_t(x) (or
+// the matching ε̂ = −√(1−ᾱ) ∇log q_t) of the target kernel mixture, sampled
+// on a regular grid at the current ᾱ.
+
+export type QuiverField = "off" | "score" | "eps";
+/** unit: direction only • max: relative to the largest arrow • log: log(1+|v|) */
+export type QuiverNorm = "unit" | "max" | "log";
+
+export const QUIVER_FIELDS: QuiverField[] = ["off", "score", "eps"];
+export const QUIVER_NORMS: QuiverNorm[] = ["unit", "max", "log"];
+
+type Props = {
+  mix: KernelMixture;
+  ab: number;
+  field: Exclude<QuiverField, "off">;
+  /** arrows per side */
+  density: number;
+  norm: QuiverNorm;
+  /** data extent shown by the plot (square) */
+  min: number;
+  max: number;
+  toPx: (x: number, y: number) => [number, number];
+  color: string;
+};
+
+export const ScoreQuiver: React.FC<Props> = ({
+  mix, ab, field, density, norm, min, max, toPx, color,
+}) => {
+  const nSide = Math.max(2, Math.round(density));
+  const cell = (max - min) / nSide;
+  const k = Math.sqrt(Math.max(1e-8, 1 - ab));
+
+  // vectors in data units, one per cell center
+  const pos = new Float32Array(nSide * nSide * 2);
+  const vec = new Float32Array(nSide * nSide * 2);
+  const e = new Float32Array(2);
+  let maxMag = 1e-12;
+  for (let r = 0; r < nSide; r++) {
+    for (let c = 0; c < nSide; c++) {
+      const i = r * nSide + c;
+      pos[2 * i] = min + (c + 0.5) * cell;
+      pos[2 * i + 1] = min + (r + 0.5) * cell;
+      mixtureEps(mix, ab, pos, 2 * i, e, 0);
+      const s = field === "eps" ? 1 : -1 / k;
+      vec[2 * i] = s * e[0];
+      vec[2 * i + 1] = s * e[1];
+      maxMag = Math.max(maxMag, Math.hypot(vec[2 * i], vec[2 * i + 1]));
+    }
+  }
+
+  const maxLen = 0.85 * cell;
+  const logMax = Math.log1p(maxMag);
+  const arrows: JSX.Element[] = [];
+  for (let i = 0; i < nSide * nSide; i++) {
+    const vx = vec[2 * i], vy = vec[2 * i + 1];
+    const mag = Math.hypot(vx, vy);
+    if (mag < 1e-9) continue;
+    const len =
+      norm === "unit" ? maxLen :
+      norm === "max" ? (maxLen * mag) / maxMag :
+      (maxLen * Math.log1p(mag)) / logMax;
+    const x0 = pos[2 * i] - (0.5 * len * vx) / mag;
+    const y0 = pos[2 * i + 1] - (0.5 * len * vy) / mag;
+    const [ax, ay] = toPx(x0, y0);
+    const [bx, by] = toPx(x0 + (len * vx) / mag, y0 + (len * vy) / mag);
+    const pxLen = Math.hypot(bx - ax, by - ay);
+    if (pxLen < 1) continue;
+
+    // arrow head
+    const ux = (bx - ax) / pxLen, uy = (by - ay) / pxLen;
+    const h = Math.min(7, 0.35 * pxLen);
+    const hx1 = bx - h * ux + 0.5 * h * uy, hy1 = by - h * uy - 0.5 * h * ux;
+    const hx2 = bx - h * ux - 0.5 * h * uy, hy2 = by - h * uy + 0.5 * h * ux;
+    arrows.push(
+      <g key={i}>
+        <line x1={ax} y1={ay} x2={bx} y2={by} stroke={color} strokeWidth={1.4} />
+        <path d={`M ${bx} ${by} L ${hx1} ${hy1} L ${hx2} ${hy2} Z`} fill={color} />
+      </g>
+    );
+  }
+
+  return <g opacity={0.7}>{arrows}</g>;
+};
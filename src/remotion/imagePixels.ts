@@ -0,0 +1,165 @@
+// Image → working-buffer helpers shared by the image diffusion scenes and
+// their off-screen exports (grid PNG, metric CSVs).
+//
+// Pixels are flat RGB Float32Arrays of length s·s·3 with values in [0, 1].
+
+import { mulberry32, randn, sampleDensityGrid } from "../seededMath";
+import sampleImage from "../_static/tiger.jpg";
+import nareshUb from "../_static/naresh-ub.png";
+import mnistEight from "../_static/mnist_eight.png";
+import letter from "../_static/letter.png";
+import cvgHorz from "../_static/cvg_horz.png";
+
+export type GalleryImage = { label: string; src: string };
+
+/** The images shipped with the scenes (picker gallery, latent PCA training set). */
+export const BUNDLED_IMAGES: GalleryImage[] = [
+  { label: "Tiger", src: sampleImage },
+  { label: "Portrait", src: nareshUb },
+  { label: "MNIST 8", src: mnistEight },
+  { label: "Letter", src: letter },
+  { label: "CVG banner", src: cvgHorz },
+];
+
+/** The user's URL, or the bundled sample image when it is empty. */
+export const resolveImageUrl = (imageUrl?: string) =>
+  imageUrl && imageUrl.trim().length ? imageUrl : sampleImage;
+
+/** Anything the scenes and the image picker crop into a square. */
+export type CoverSource = HTMLImageElement | ImageBitmap | HTMLCanvasElement;
+
+/** Scale-to-cover and center-crop `img` into a size × size square. */
+export const drawCoverToSquare = (
+  ctx: CanvasRenderingContext2D,
+  img: CoverSource,
+  size: number
+) => {
+  const iw = (img instanceof HTMLImageElement && img.naturalWidth) || img.width;
+  const ih = (img instanceof HTMLImageElement && img.naturalHeight) || img.height;
+  const s = size;
+  const scale = Math.max(s / iw, s / ih);
+  const w = iw * scale;
+  const h = ih * scale;
+  const dx = (s - w) / 2;
+  const dy = (s - h) / 2;
+  ctx.clearRect(0, 0, s, s);
+  ctx.drawImage(img, dx, dy, w, h);
+};
+
+/** Cover-cropped s × s RGB pixels in [0, 1], or null without a 2D context. */
+export const pixelsFromImage = (img: CoverSource, s: number) => {
+  const off = document.createElement("canvas");
+  off.width = s;
+  off.height = s;
+  const ctx = off.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  drawCoverToSquare(ctx, img, s);
+  const data = ctx.getImageData(0, 0, s, s).data;
+  const arr = new Float32Array(s * s * 3);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    arr[j + 0] = data[i + 0] / 255;
+    arr[j + 1] = data[i + 1] / 255;
+    arr[j + 2] = data[i + 2] / 255;
+  }
+  return arr;
+};
+
+/**
+ * Cover-cropped s × s darkness 1 − luma (Rec. 601) in [0, 1], row-major.
+ * Transparent pixels count as white, so logos and digits on clear
+ * backgrounds keep only their ink.
+ */
+export const darknessFromImage = (img: CoverSource, s: number) => {
+  const off = document.createElement("canvas");
+  off.width = s;
+  off.height = s;
+  const ctx = off.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  drawCoverToSquare(ctx, img, s);
+  const data = ctx.getImageData(0, 0, s, s).data;
+  const out = new Float32Array(s * s);
+  for (let i = 0, j = 0; i < data.length; i += 4, j++) {
+    const a = data[i + 3] / 255;
+    const luma = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+    out[j] = 1 - (a * luma + (1 - a));
+  }
+  return out;
+};
+
+/**
+ * The "image density" 2D dataset: n points drawn ∝ pixel darkness of the
+ * image's square crop, on a side × side grid spanning [−3, 3]².
+ */
+export const imageDensityPoints = async (src: string, n: number, seed = 0x1a9e, side = 96) => {
+  const dark = darknessFromImage(await loadImage(src), side);
+  if (!dark) throw new Error("no 2D canvas context");
+  return sampleDensityGrid(dark, side, n, mulberry32(seed));
+};
+
+/** The scenes' fixed ε (same seed everywhere, so every panel shares it). */
+export const fixedNoise = (len: number) => {
+  const rng = mulberry32(0xdecafbad);
+  const e = new Float32Array(len);
+  for (let i = 0; i < e.length; i++) e[i] = randn(rng);
+  return e;
+};
+
+export type EpsErrorMode = "perfect" | "gaussian" | "lowfreq";
+
+// Separable box blur of one channel (stride 3) in place, radius r, clamped edges.
+const boxBlurChannel = (px: Float32Array, s: number, ch: number, r: number) => {
+  const line = new Float32Array(s);
+  for (let pass = 0; pass < 2; pass++) {
+    // pass 0: rows, pass 1: columns
+    for (let a = 0; a < s; a++) {
+      const at = (b: number) => (pass === 0 ? (a * s + b) * 3 + ch : (b * s + a) * 3 + ch);
+      let acc = 0;
+      for (let b = -r; b <= r; b++) acc += px[at(Math.max(0, Math.min(s - 1, b)))];
+      for (let b = 0; b < s; b++) {
+        line[b] = acc / (2 * r + 1);
+        acc += px[at(Math.min(s - 1, b + r + 1))] - px[at(Math.max(0, b - r))];
+      }
+      for (let b = 0; b < s; b++) px[at(b)] = line[b];
+    }
+  }
+};
+
+/**
+ * δ in the oracle's noise prediction ε̂ = ε + δ, independent of the scene's ε:
+ * null for a perfect prediction, white Gaussian with the given std, or the
+ * same noise blurred twice (box radius `blur`) and rescaled to that std, i.e.
+ * an error that lives at low spatial frequencies.
+ */
+export const epsPredictionError = (
+  mode: EpsErrorMode,
+  s: number,
+  std: number,
+  blur: number
+): Float32Array | null => {
+  if (mode === "perfect") return null;
+  const rng = mulberry32(0x0bad5eed);
+  const d = new Float32Array(s * s * 3);
+  for (let i = 0; i < d.length; i++) d[i] = randn(rng);
+  if (mode === "lowfreq") {
+    const r = Math.max(1, Math.round(blur));
+    for (let pass = 0; pass < 2; pass++) {
+      for (let ch = 0; ch < 3; ch++) boxBlurChannel(d, s, ch, r);
+    }
+  }
+  let ss = 0;
+  for (let i = 0; i < d.length; i++) ss += d[i] * d[i];
+  const scale = std / Math.sqrt(Math.max(1e-12, ss / d.length));
+  for (let i = 0; i < d.length; i++) d[i] *= scale;
+  return d;
+};
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`could not load image ${src}`));
+    img.src = src;
+  });
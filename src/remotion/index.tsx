@@ -1,4 +1,4 @@
-export * from "./TrigVideoInteractive/Composition";
-export * from "./DotProductInteractive/Composition";
-export * from "./DiffusionForward/Composition";
+import { registerRoot } from "remotion";
+import { RemotionRoot } from "./Root";
 
+registerRoot(RemotionRoot);
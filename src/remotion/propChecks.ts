@@ -0,0 +1,96 @@
+// Prop checks run from calculateMetadata, so a bad props file fails
+// before the first frame is rendered (Studio, CLI and render.mjs alike).
+
+import { DIST2D_SOURCES } from "../seededMath";
+
+type AnyProps = Record<string, unknown>;
+
+type NumberCheck = {
+  min: number;
+  max: number;
+  integer?: boolean;
+  optional?: boolean;
+};
+
+export const checkNumber = (
+  id: string,
+  props: AnyProps,
+  key: string,
+  { min, max, integer = false, optional = false }: NumberCheck
+) => {
+  const v = props[key];
+  if (v === undefined && optional) return;
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw new Error(`${id}: "${key}" must be a number, got ${JSON.stringify(v)}`);
+  }
+  if (integer && !Number.isInteger(v)) {
+    throw new Error(`${id}: "${key}" must be an integer, got ${v}`);
+  }
+  if (v < min || v > max) {
+    throw new Error(`${id}: "${key}" must be in [${min}, ${max}], got ${v}`);
+  }
+};
+
+export const checkOneOf = (
+  id: string,
+  props: AnyProps,
+  key: string,
+  options: readonly string[],
+  optional = false
+) => {
+  const v = props[key];
+  if (v === undefined && optional) return;
+  if (typeof v !== "string" || !options.includes(v)) {
+    throw new Error(
+      `${id}: "${key}" must be one of ${options.join(" | ")}, got ${JSON.stringify(v)}`
+    );
+  }
+};
+
+export const checkBoolean = (id: string, props: AnyProps, key: string, optional = false) => {
+  const v = props[key];
+  if (v === undefined && optional) return;
+  if (typeof v !== "boolean") {
+    throw new Error(`${id}: "${key}" must be true or false, got ${JSON.stringify(v)}`);
+  }
+};
+
+/** Array of integers, each within [min, max] (e.g. particle indices). */
+export const checkIntList = (
+  id: string,
+  props: AnyProps,
+  key: string,
+  { min, max, optional = false }: Omit<NumberCheck, "integer">
+) => {
+  const v = props[key];
+  if (v === undefined && optional) return;
+  if (!Array.isArray(v)) {
+    throw new Error(`${id}: "${key}" must be an array of integers, got ${JSON.stringify(v)}`);
+  }
+  for (const x of v) {
+    if (typeof x !== "number" || !Number.isInteger(x) || x < min || x > max) {
+      throw new Error(`${id}: "${key}" entries must be integers in [${min}, ${max}], got ${JSON.stringify(x)}`);
+    }
+  }
+};
+
+/** Shared by every steps-driven scene (framesPerStep + tailHoldFrames pacing). */
+export const checkStepTimeline = (id: string, props: AnyProps) => {
+  checkNumber(id, props, "steps", { min: 2, max: 2000, integer: true });
+  checkNumber(id, props, "framesPerStep", { min: 1, max: 120, integer: true, optional: true });
+  checkNumber(id, props, "tailHoldFrames", { min: 0, max: 3600, integer: true, optional: true });
+};
+
+/**
+ * "dist2d" of a 2D scene. The page samples "image" points itself, so a props
+ * file that asks for "image" has to carry them as "custom2D" — the scene
+ * never loads the image. Scenes showing 1D data pass `is2D` false, which
+ * skips that rule for the unused "dist2d".
+ */
+export const checkDist2D = (id: string, props: AnyProps, is2D = true) => {
+  checkOneOf(id, props, "dist2d", DIST2D_SOURCES);
+  const custom = props.custom2D as { xs?: ArrayLike<number> } | null | undefined;
+  if (is2D && props.dist2d === "image" && !custom?.xs?.length) {
+    throw new Error(`${id}: "dist2d" "image" needs the sampled points in "custom2D"; use a registry dataset otherwise`);
+  }
+};
@@ -0,0 +1,52 @@
+import { DependencyList, useEffect, useState } from "react";
+import { cancelRender, continueRender, delayRender, getRemotionEnvironment } from "remotion";
+
+/**
+ * Runs `load` whenever `deps` change and holds a delayRender handle until it
+ * settles, so offline renders never capture a frame before the data is there.
+ * A failure cancels an offline render; in the Player / Studio it is returned
+ * as `error` for the scene to show.
+ */
+export const useDelayedLoad = <T>(label: string, load: () => Promise<T>, deps: DependencyList) => {
+  const [value, setValue] = useState<T | null>(null);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    const handle = delayRender(label);
+    let settled = false;
+    let cancelled = false;
+    const settle = () => {
+      if (settled) return;
+      settled = true;
+      continueRender(handle);
+    };
+    load().then(
+      (v) => {
+        if (!cancelled) {
+          setValue(v);
+          setError("");
+        }
+        settle();
+      },
+      (err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err);
+        if (getRemotionEnvironment().isRendering) {
+          cancelRender(new Error(`${label}: ${message}`));
+          return;
+        }
+        if (!cancelled) {
+          setValue(null);
+          setError(message);
+        }
+        settle();
+      }
+    );
+    return () => {
+      cancelled = true;
+      settle();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+
+  return { value, error };
+};
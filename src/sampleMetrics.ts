@@ -0,0 +1,157 @@
+// Sample-quality metrics between a generated point cloud and a target set.
+// Points are flat arrays (N·D), matching mixtureScore.ts.
+
+import { mulberry32, randn } from "./seededMath";
+
+/**
+ * Mean Euclidean distance from each sample to its nearest target point.
+ * 0 means every sample sits on a data point; it grows as samples miss the
+ * data manifold.
+ */
+export const meanNearestDistance = (
+  samples: ArrayLike<number>,
+  targets: ArrayLike<number>,
+  D: number
+) => {
+  const N = Math.floor(samples.length / D);
+  const M = Math.floor(targets.length / D);
+  if (N === 0 || M === 0) return 0;
+  let total = 0;
+  for (let i = 0; i < N; i++) {
+    let best = Infinity;
+    for (let j = 0; j < M; j++) {
+      let d2 = 0;
+      for (let d = 0; d < D; d++) {
+        const diff = samples[i * D + d] - targets[j * D + d];
+        d2 += diff * diff;
+      }
+      if (d2 < best) best = d2;
+    }
+    total += Math.sqrt(best);
+  }
+  return total / N;
+};
+
+/**
+ * At most m evenly strided points of a flat N·D cloud (the cloud itself if
+ * N ≤ m), taken `offset` of the way into each stride. Offsets 0.5 and 0 pick
+ * disjoint points once N ≥ 2m.
+ */
+export const subsamplePoints = (x: Float32Array, D: number, m: number, offset = 0.5) => {
+  const N = Math.floor(x.length / D);
+  if (N <= m) return x;
+  const out = new Float32Array(m * D);
+  for (let j = 0; j < m; j++) {
+    const i = Math.floor(((j + offset) * N) / m);
+    for (let d = 0; d < D; d++) out[j * D + d] = x[i * D + d];
+  }
+  return out;
+};
+
+// mean RBF kernel value and mean Euclidean distance over all pairs (i, j)
+const pairMeans = (a: ArrayLike<number>, b: ArrayLike<number>, D: number, bandwidth: number) => {
+  const Na = Math.floor(a.length / D);
+  const Nb = Math.floor(b.length / D);
+  const inv = 1 / (2 * bandwidth * bandwidth);
+  let k = 0;
+  let dist = 0;
+  for (let i = 0; i < Na; i++) {
+    for (let j = 0; j < Nb; j++) {
+      let d2 = 0;
+      for (let d = 0; d < D; d++) {
+        const diff = a[i * D + d] - b[j * D + d];
+        d2 += diff * diff;
+      }
+      k += Math.exp(-d2 * inv);
+      dist += Math.sqrt(d2);
+    }
+  }
+  const pairs = Math.max(1, Na * Nb);
+  return { k: k / pairs, dist: dist / pairs };
+};
+
+/**
+ * Sliced 2-Wasserstein distance: the 1D W₂ between the projections of both
+ * clouds onto `projections` directions (evenly spread half-circle angles in
+ * 2D, seeded random directions otherwise), root-mean-squared over directions.
+ * Unequal sizes are compared at min(Na, Nb) matched quantiles.
+ */
+export const slicedWasserstein = (
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  D: number,
+  projections = 64
+) => {
+  const Na = Math.floor(a.length / D);
+  const Nb = Math.floor(b.length / D);
+  const K = Math.min(Na, Nb);
+  if (K === 0) return 0;
+  const rng = mulberry32(0x5115ed);
+  const dir = new Float64Array(D);
+  const pa = new Float64Array(Na);
+  const pb = new Float64Array(Nb);
+  let total = 0;
+  for (let p = 0; p < projections; p++) {
+    if (D === 2) {
+      const th = (Math.PI * p) / projections;
+      dir[0] = Math.cos(th);
+      dir[1] = Math.sin(th);
+    } else {
+      let norm = 0;
+      for (let d = 0; d < D; d++) {
+        dir[d] = randn(rng);
+        norm += dir[d] * dir[d];
+      }
+      for (let d = 0; d < D; d++) dir[d] /= Math.sqrt(Math.max(1e-12, norm));
+    }
+    for (let i = 0; i < Na; i++) {
+      let s = 0;
+      for (let d = 0; d < D; d++) s += dir[d] * a[i * D + d];
+      pa[i] = s;
+    }
+    for (let i = 0; i < Nb; i++) {
+      let s = 0;
+      for (let d = 0; d < D; d++) s += dir[d] * b[i * D + d];
+      pb[i] = s;
+    }
+    pa.sort();
+    pb.sort();
+    let sq = 0;
+    for (let q = 0; q < K; q++) {
+      const diff = pa[Math.floor(((q + 0.5) * Na) / K)] - pb[Math.floor(((q + 0.5) * Nb) / K)];
+      sq += diff * diff;
+    }
+    total += sq / K;
+  }
+  return Math.sqrt(total / projections);
+};
+
+export type DistributionDistances = {
+  /** MMD with an RBF kernel (V-statistic, square-rooted) */
+  mmd: number;
+  /** sliced 2-Wasserstein */
+  sw: number;
+  /** energy distance 2E|X−Y| − E|X−X′| − E|Y−Y′| */
+  energy: number;
+};
+
+/**
+ * MMD, sliced Wasserstein and energy distance between two flat N·D clouds.
+ * All three are 0 for identical clouds. The pairwise terms are O(Na·Nb), so
+ * subsample large clouds first (subsamplePoints).
+ */
+export const distributionDistances = (
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  D: number,
+  bandwidth = 1
+): DistributionDistances => {
+  const aa = pairMeans(a, a, D, bandwidth);
+  const bb = pairMeans(b, b, D, bandwidth);
+  const ab = pairMeans(a, b, D, bandwidth);
+  return {
+    mmd: Math.sqrt(Math.max(0, aa.k + bb.k - 2 * ab.k)),
+    sw: slicedWasserstein(a, b, D),
+    energy: Math.max(0, 2 * ab.dist - aa.dist - bb.dist),
+  };
+};
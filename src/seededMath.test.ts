@@ -0,0 +1,147 @@
+// Pins the numbers every scene is built from. A change here means renders
+// and embedded players no longer show the frames they used to — update the
+// pinned values only when that is intended.
+
+import { describe, expect, it } from "vitest";
+import {
+  kde,
+  makeAlphaBar,
+  makeAlphaBarCosine,
+  makeAlphaBarExponential,
+  makeAlphaBarKarras,
+  makeAlphaBarQuadratic,
+  makeAlphaBarScaledLinear,
+  makeAlphaBarSigmoid,
+  makeBetasLinear,
+  makeBetasQuadratic,
+  makeBetasScaledLinear,
+  makeBetasSigmoid,
+  makeRng,
+  makeSigmasExponential,
+  makeSigmasKarras,
+  mulberry32,
+  randn,
+  randn2,
+  rescaleZeroTerminalSnr,
+  sample2D,
+  silvermanBandwidth,
+} from "./seededMath";
+
+const expectClose = (actual: ArrayLike<number>, expected: number[], digits = 12) => {
+  expect(actual.length).toBe(expected.length);
+  expected.forEach((v, i) => expect(actual[i]).toBeCloseTo(v, digits));
+};
+
+// first, middle and last step of a T = 10 schedule
+const ends = (a: number[]) => [a[0], a[4], a[9]];
+
+describe("RNG streams", () => {
+  it("mulberry32 draws a fixed sequence per seed", () => {
+    const rng = mulberry32(42);
+    expect([rng(), rng(), rng(), rng()]).toEqual([
+      0.6011037519201636, 0.44829055899754167, 0.8524657934904099, 0.6697340414393693,
+    ]);
+    expect(mulberry32(0)()).toBe(0.26642920868471265);
+  });
+
+  it("fork derives a child without advancing the parent", () => {
+    const rng = makeRng(7);
+    const child = rng.fork(1);
+    expect(child.seed).toBe(1478832577);
+    expect([child(), child()]).toEqual([0.47330482909455895, 0.5568474584724754]);
+    expect(rng()).toBe(mulberry32(7)());
+    expect(rng.fork(1).seed).toBe(child.seed);
+  });
+
+  it("split advances the parent once and seeds the child from that draw", () => {
+    const rng = makeRng(7);
+    const child = rng.split();
+    expect(child.seed).toBe(50271532);
+    expect(child()).toBe(0.3792292682919651);
+    expect(rng()).toBe(0.06195825757458806);
+  });
+});
+
+describe("normal samplers", () => {
+  it("randn uses the cosine branch of one Box–Muller pair per draw", () => {
+    const rng = mulberry32(123);
+    expectClose([randn(rng), randn(rng), randn(rng)], [0.30021575750326523, 0.13849808076160622, 0.6996990420076132]);
+  });
+
+  it("randn2 returns both branches of the same pair", () => {
+    const rng = mulberry32(123);
+    expectClose(randn2(rng), [0.30021575750326523, 0.6231253588618505]);
+    expectClose(randn2(rng), [0.13849808076160622, 1.177259069348008]);
+  });
+});
+
+describe("2D datasets", () => {
+  it("ring", () => {
+    const { xs, ys } = sample2D(5, "ring", mulberry32(2024));
+    expectClose(xs, [0.8564067482948303, -1.319770336151123, -2.2337687015533447, -1.340577483177185, -2.190321922302246], 6);
+    expectClose(ys, [-2.094958782196045, -1.8291878700256348, -0.26709964871406555, 1.613359808921814, 0.5595490336418152], 6);
+  });
+
+  it("spiral", () => {
+    const { xs, ys } = sample2D(5, "spiral", mulberry32(2024));
+    expectClose(xs, [0.20668520033359528, 1.421566367149353, 0.9462378621101379, 1.860275149345398, -0.7938265800476074], 6);
+    expectClose(ys, [2.2227745056152344, -1.4090015888214111, -0.016982033848762512, -0.9352914690971375, 1.3621745109558105], 6);
+  });
+});
+
+describe("schedules (T = 10)", () => {
+  const T = 10;
+
+  it("linear", () => {
+    expectClose(ends(makeBetasLinear(T)), [0.0001, 0.08894444444444445, 0.2]);
+    expectClose(ends(makeAlphaBar(T)), [0.9999, 0.7941973873455634, 0.33979938453296316]);
+  });
+
+  it("quadratic", () => {
+    expectClose(ends(makeBetasQuadratic(T)), [0.0001, 0.06921604938271604, 0.35]);
+    expectClose(ends(makeAlphaBarQuadratic(T)), [0.9999, 0.874986176767653, 0.2442476211532777]);
+  });
+
+  it("sigmoid", () => {
+    expectClose(ends(makeBetasSigmoid(T)), [0.005494064367631259, 0.11726566920111615, 0.29460593563236875]);
+    expectClose(ends(makeAlphaBarSigmoid(T)), [0.9945059356323688, 0.7883685041491554, 0.18014729994083686]);
+  });
+
+  it("scaled linear", () => {
+    expectClose(ends(makeBetasScaledLinear(T)), [0.085, 0.4209873523226797, 0.999]);
+    expectClose(ends(makeAlphaBarScaledLinear(T)), [0.915, 0.24235868501654723, 5.5459488167784545e-9]);
+  });
+
+  it("cosine", () => {
+    expectClose(ends(makeAlphaBarCosine(T)), [1, 0.6474782111465038, 0.024091724140085854]);
+  });
+
+  it("Karras", () => {
+    expectClose(ends(makeSigmasKarras(T)), [0.002, 1.501741979068008, 80]);
+    expectClose(ends(makeAlphaBarKarras(T)), [0.9999960000160001, 0.3071980523321741, 0.0001562255897516013]);
+  });
+
+  it("exponential", () => {
+    expectClose(ends(makeSigmasExponential(T)), [0.002, 0.22201892311392446, 80]);
+    expectClose(ends(makeAlphaBarExponential(T)), [0.9999960000160001, 0.9530231972362071, 0.0001562255897516014]);
+  });
+
+  it("zero-terminal-SNR rescaling keeps ᾱ_0 and ends at exactly 0", () => {
+    expectClose(rescaleZeroTerminalSnr(makeAlphaBar(T)), [
+      0.9999, 0.9468293878508828, 0.8458008327185412, 0.7073063200023099, 0.5463199412223434,
+      0.3805341140884345, 0.228224161869264, 0.10606343385549019, 0.027218567533145638, 0,
+    ]);
+  });
+});
+
+describe("kde", () => {
+  it("uses Silverman's bandwidth by default", () => {
+    const data = [-1, 0, 0.5, 2];
+    expect(silvermanBandwidth(data)).toBeCloseTo(1.0041622253131388, 12);
+    expectClose(kde(data, [-2, 0, 1, 3]), [0.07867148454879941, 0.2612220480641422, 0.22239151959470588, 0.06615065842802087]);
+  });
+
+  it("is a normal pdf around a single point", () => {
+    expectClose(kde([0], [0, 1], 0.5), [0.7978845608028654, 0.10798193302637613]);
+  });
+});
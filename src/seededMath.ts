@@ -0,0 +1,547 @@
+// Seeded math shared by every scene: RNG streams, samplers, noise schedules
+// and KDE. Everything here is deterministic for a given seed so renders and
+// embedded players show the same frames.
+
+/* ============================== RNG ============================== */
+
+/** Mulberry32: tiny 32-bit PRNG returning floats in [0, 1). */
+export const mulberry32 = (s: number) => () => {
+  let t = (s += 0x6d2b79f5);
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** Mixes a seed with a key into a new 32-bit seed (murmur3 finalizer). */
+export const hashSeed = (seed: number, key: number) => {
+  let h = (seed ^ Math.imul(key | 0, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+/**
+ * A callable RNG stream. `rng()` draws the next float in [0, 1);
+ * `fork(key)` derives an independent child stream without advancing this
+ * one (same key → same child); `split()` advances this stream once and
+ * seeds a child from the draw.
+ */
+export type Rng = (() => number) & {
+  readonly seed: number;
+  fork: (key: number) => Rng;
+  split: () => Rng;
+};
+
+export const makeRng = (seed: number): Rng => {
+  const s = seed >>> 0;
+  const next = mulberry32(s);
+  return Object.assign(next, {
+    seed: s,
+    fork: (key: number) => makeRng(hashSeed(s, key)),
+    split: () => makeRng(Math.floor(next() * 4294967296)),
+  });
+};
+
+/* ============================ Samplers ============================ */
+
+/** Uniform float in [lo, hi). */
+export const uniform = (rng: () => number, lo = 0, hi = 1) => lo + (hi - lo) * rng();
+
+/** Uniform integer in [lo, hi). */
+export const randInt = (rng: () => number, lo: number, hi: number) =>
+  lo + Math.floor(rng() * (hi - lo));
+
+/** Standard normal via Box–Muller (cosine branch). */
+export const randn = (rng: () => number) => {
+  let u = 0,
+    v = 0;
+  while (u === 0) u = rng();
+  while (v === 0) v = rng();
+  const m = Math.sqrt(-2 * Math.log(u));
+  return m * Math.cos(2 * Math.PI * v);
+};
+
+/** Two independent standard normals from one Box–Muller draw. */
+export const randn2 = (rng: () => number): [number, number] => {
+  let u = 0,
+    v = 0;
+  while (u === 0) u = rng();
+  while (v === 0) v = rng();
+  const m = Math.sqrt(-2 * Math.log(u));
+  return [m * Math.cos(2 * Math.PI * v), m * Math.sin(2 * Math.PI * v)];
+};
+
+/** Index drawn proportionally to non-negative `weights`. */
+export const categorical = (rng: () => number, weights: ArrayLike<number>) => {
+  let total = 0;
+  for (let i = 0; i < weights.length; i++) total += Math.max(0, weights[i]);
+  if (total <= 0) return randInt(rng, 0, weights.length);
+  let r = rng() * total;
+  for (let i = 0; i < weights.length; i++) {
+    r -= Math.max(0, weights[i]);
+    if (r < 0) return i;
+  }
+  return weights.length - 1;
+};
+
+/* ============================ Datasets ============================ */
+
+export type Dist1D = "uniform" | "spiky";
+export type Dist2D =
+  | "ring"
+  | "spiral"
+  | "moons"
+  | "checkerboard"
+  | "swissroll"
+  | "gaussians8"
+  | "gaussians25"
+  | "circles";
+
+/** "spiky" is an equal-weight Gaussian mixture: one spike per integer in [−3, 3]. */
+export const SPIKY_MIXTURE = { centers: [-3, -2, -1, 0, 1, 2, 3], std: 0.15 };
+
+export const sample1D = (n: number, dist: Dist1D, rng: () => number) => {
+  const out = new Float32Array(n);
+  if (dist === "uniform") {
+    for (let i = 0; i < n; i++) out[i] = (rng() * 2 - 1) * 4;
+  } else {
+    const { centers, std } = SPIKY_MIXTURE;
+    for (let i = 0; i < n; i++) {
+      const k = centers[Math.floor(rng() * centers.length)];
+      out[i] = k + std * randn(rng);
+    }
+  }
+  return out;
+};
+
+type Points2D = { xs: Float32Array; ys: Float32Array };
+
+export type Dataset2D = {
+  label: string;
+  sample: (n: number, rng: () => number) => Points2D;
+};
+
+// n points from a per-point generator
+const points2D = (n: number, gen: (i: number) => [number, number]): Points2D => {
+  const xs = new Float32Array(n);
+  const ys = new Float32Array(n);
+  for (let i = 0; i < n; i++) [xs[i], ys[i]] = gen(i);
+  return { xs, ys };
+};
+
+const gaussianGrid = (means: [number, number][], std: number) => (n: number, rng: () => number) =>
+  points2D(n, () => {
+    const [mx, my] = means[randInt(rng, 0, means.length)];
+    const [e0, e1] = randn2(rng);
+    return [mx + std * e0, my + std * e1];
+  });
+
+/**
+ * The 2D toy datasets, all scaled to roughly [−3, 3]². Adding an entry here
+ * makes it available to every 2D diffusion scene.
+ */
+export const DATASETS_2D: Record<Dist2D, Dataset2D> = {
+  ring: {
+    label: "Ring",
+    sample: (n, rng) =>
+      points2D(n, () => {
+        const th = rng() * Math.PI * 2;
+        const r = 2.2 + (rng() - 0.5) * 0.3;
+        return [r * Math.cos(th), r * Math.sin(th)];
+      }),
+  },
+  spiral: {
+    label: "Spiral",
+    sample: (n, rng) =>
+      points2D(n, () => {
+        const a = rng() * 5.5 * Math.PI;
+        const r = 0.2 + 0.15 * a;
+        const [e0, e1] = randn2(rng);
+        return [r * Math.cos(a) + 0.1 * e0, r * Math.sin(a) + 0.1 * e1];
+      }),
+  },
+  moons: {
+    label: "Two moons",
+    // sklearn's make_moons, centered and scaled by 2
+    sample: (n, rng) =>
+      points2D(n, (i) => {
+        const th = rng() * Math.PI;
+        const [e0, e1] = randn2(rng);
+        const [x, y] = i % 2 === 0 ? [Math.cos(th), Math.sin(th)] : [1 - Math.cos(th), 0.5 - Math.sin(th)];
+        return [2 * (x - 0.5) + 0.1 * e0, 2 * (y - 0.25) + 0.1 * e1];
+      }),
+  },
+  checkerboard: {
+    label: "Checkerboard",
+    // uniform on the 8 dark squares of a 4 × 4 board over [−2.5, 2.5]²
+    sample: (n, rng) =>
+      points2D(n, () => {
+        const k = randInt(rng, 0, 8);
+        const row = k >> 1;
+        const col = 2 * (k & 1) + (row & 1);
+        return [1.25 * (col - 2 + rng()), 1.25 * (row - 2 + rng())];
+      }),
+  },
+  swissroll: {
+    label: "Swiss roll",
+    // sklearn's make_swiss_roll (x, z) plane, scaled by 1/5
+    sample: (n, rng) =>
+      points2D(n, () => {
+        const t = 1.5 * Math.PI * (1 + 2 * rng());
+        const [e0, e1] = randn2(rng);
+        return [(t * Math.cos(t)) / 5 + 0.05 * e0, (t * Math.sin(t)) / 5 + 0.05 * e1];
+      }),
+  },
+  gaussians8: {
+    label: "8 Gaussians",
+    sample: gaussianGrid(
+      Array.from({ length: 8 }, (_, k): [number, number] => [
+        2.5 * Math.cos((k * Math.PI) / 4),
+        2.5 * Math.sin((k * Math.PI) / 4),
+      ]),
+      0.15
+    ),
+  },
+  gaussians25: {
+    label: "25 Gaussians",
+    sample: gaussianGrid(
+      [-2, -1, 0, 1, 2].flatMap((y) => [-2, -1, 0, 1, 2].map((x): [number, number] => [1.2 * x, 1.2 * y])),
+      0.08
+    ),
+  },
+  circles: {
+    label: "Concentric circles",
+    // sklearn's make_circles (factor 0.5), radii 2.4 and 1.2
+    sample: (n, rng) =>
+      points2D(n, (i) => {
+        const th = rng() * Math.PI * 2;
+        const r = i % 2 === 0 ? 2.4 : 1.2;
+        const [e0, e1] = randn2(rng);
+        return [r * Math.cos(th) + 0.06 * e0, r * Math.sin(th) + 0.06 * e1];
+      }),
+  },
+};
+
+export const DIST2D_IDS = Object.keys(DATASETS_2D) as Dist2D[];
+
+export const sample2D = (n: number, dist: Dist2D, rng: () => number) => DATASETS_2D[dist].sample(n, rng);
+
+/**
+ * What a 2D scene can show: a registry dataset, or points the page passes in
+ * as `custom2D` (a hand-drawn sketch, or samples of an image's darkness).
+ */
+export type Dist2DSource = Dist2D | "sketch" | "image";
+
+export const DIST2D_SOURCES: Dist2DSource[] = [...DIST2D_IDS, "sketch", "image"];
+
+/**
+ * The scene's data: `custom` for "sketch" / "image" when it has points,
+ * otherwise n samples of the registry dataset (the spiral stands in for
+ * custom sources that are still empty).
+ */
+export const dataPoints2D = (
+  dist: Dist2DSource,
+  n: number,
+  rng: () => number,
+  custom?: Points2D | null
+): Points2D => {
+  if (dist === "sketch" || dist === "image") {
+    return custom && custom.xs.length ? custom : sample2D(n, "spiral", rng);
+  }
+  return sample2D(n, dist, rng);
+};
+
+/**
+ * n points with density ∝ `weights`, a side × side grid (row 0 at the top),
+ * mapped onto [−extent, extent]² with uniform jitter inside each cell.
+ */
+export const sampleDensityGrid = (
+  weights: ArrayLike<number>,
+  side: number,
+  n: number,
+  rng: () => number,
+  extent = 3
+): Points2D => {
+  const cdf = new Float64Array(side * side);
+  let acc = 0;
+  for (let i = 0; i < cdf.length; i++) {
+    acc += Math.max(0, weights[i] ?? 0);
+    cdf[i] = acc;
+  }
+  if (acc <= 0) throw new Error("sampleDensityGrid: all weights are zero");
+  const cell = (2 * extent) / side;
+  return points2D(n, () => {
+    const r = rng() * acc;
+    let lo = 0, hi = cdf.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cdf[mid] > r) hi = mid;
+      else lo = mid + 1;
+    }
+    const row = Math.floor(lo / side);
+    const col = lo % side;
+    return [-extent + (col + rng()) * cell, extent - (row + rng()) * cell];
+  });
+};
+
+export type LabeledDist2D = "gaussians8" | "gaussians8pairs" | "grid9" | "overlap2";
+
+/** Equal-weight 2D Gaussian mixture whose components carry class ids. */
+export type LabeledMixture = {
+  /** [x, y] component means */
+  means: [number, number][];
+  /** class id of every component, 0 … classes−1 */
+  labels: number[];
+  classes: number;
+  std: number;
+};
+
+const ringMeans = (k: number, r: number) =>
+  Array.from({ length: k }, (_, i): [number, number] => [
+    r * Math.cos((2 * Math.PI * i) / k),
+    r * Math.sin((2 * Math.PI * i) / k),
+  ]);
+
+/**
+ * - gaussians8:      8 modes on a circle, one class each
+ * - gaussians8pairs: the same 8 modes, neighbours share a class (4 classes, 2 modes each)
+ * - grid9:           3 × 3 grid, one class per row
+ * - overlap2:        two wide, heavily overlapping classes
+ *
+ * Neighbouring classes overlap on purpose: guidance only changes samples
+ * where q(c | x) is uncertain.
+ */
+export const LABELED_MIXTURES: Record<LabeledDist2D, LabeledMixture> = {
+  gaussians8: { means: ringMeans(8, 3), labels: [0, 1, 2, 3, 4, 5, 6, 7], classes: 8, std: 0.6 },
+  gaussians8pairs: { means: ringMeans(8, 3), labels: [0, 0, 1, 1, 2, 2, 3, 3], classes: 4, std: 0.6 },
+  grid9: {
+    means: [-2, 0, 2].flatMap((y) => [-2, 0, 2].map((x): [number, number] => [x, -y])),
+    labels: [0, 0, 0, 1, 1, 1, 2, 2, 2],
+    classes: 3,
+    std: 0.6,
+  },
+  overlap2: { means: [[-1, 0], [1, 0]], labels: [0, 1], classes: 2, std: 1 },
+};
+
+/** n labeled points: a uniformly chosen component, then its Gaussian. */
+export const sampleLabeled2D = (n: number, dist: LabeledDist2D, rng: () => number) => {
+  const { means, labels, std } = LABELED_MIXTURES[dist];
+  const xs = new Float32Array(n);
+  const ys = new Float32Array(n);
+  const classIds = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    const j = Math.floor(rng() * means.length);
+    const [e0, e1] = randn2(rng);
+    xs[i] = means[j][0] + std * e0;
+    ys[i] = means[j][1] + std * e1;
+    classIds[i] = labels[j];
+  }
+  return { xs, ys, labels: classIds };
+};
+
+/* ============================ Schedules ============================ */
+// β_t arrays and their cumulative products ᾱ_t = Π (1 − β_s), length T.
+
+/** ᾱ_t from a β_t array. */
+export const alphaBarFromBetas = (betas: ArrayLike<number>) => {
+  const out: number[] = [];
+  let p = 1;
+  for (let i = 0; i < betas.length; i++) {
+    p *= 1 - betas[i];
+    out.push(p);
+  }
+  return out;
+};
+
+/** β_t from an ᾱ_t array (inverse of alphaBarFromBetas). */
+export const betasFromAlphaBar = (alphaBar: ArrayLike<number>) => {
+  const out: number[] = [];
+  let prev = 1;
+  for (let i = 0; i < alphaBar.length; i++) {
+    out.push(1 - alphaBar[i] / prev);
+    prev = alphaBar[i];
+  }
+  return out;
+};
+
+// Ramp position of step i in [0, 1].
+const ramp = (i: number, T: number) => i / Math.max(1, T - 1);
+
+export const makeBetasLinear = (T: number, betaStart = 1e-4, betaEnd = 0.2) =>
+  Array.from({ length: T }, (_, i) =>
+    Math.min(0.999, betaStart + ramp(i, T) * (betaEnd - betaStart))
+  );
+
+export const makeBetasQuadratic = (T: number, betaMin = 1e-4, betaMax = 0.35) =>
+  Array.from({ length: T }, (_, i) => {
+    const r = ramp(i, T);
+    return Math.min(0.999, betaMin + r * r * (betaMax - betaMin));
+  });
+
+export const makeBetasSigmoid = (T: number, betaMin = 1e-4, betaMax = 0.3, k = 8) =>
+  Array.from({ length: T }, (_, i) => {
+    const sig = 1 / (1 + Math.exp(-(ramp(i, T) - 0.5) * k));
+    return Math.min(0.999, betaMin + sig * (betaMax - betaMin));
+  });
+
+/**
+ * Stable Diffusion's "scaled linear": √β is linear in t. The endpoints are
+ * the usual T = 1000 values and get scaled by 1000 / T, so short schedules
+ * still end near pure noise.
+ */
+export const makeBetasScaledLinear = (T: number, betaStart = 0.00085, betaEnd = 0.012) => {
+  const k = 1000 / T;
+  const a = Math.sqrt(betaStart);
+  const b = Math.sqrt(betaEnd);
+  return Array.from({ length: T }, (_, i) => {
+    const r = a + ramp(i, T) * (b - a);
+    return Math.min(0.999, k * r * r);
+  });
+};
+
+/** Linear-β ᾱ_t — the default schedule of the 2D and image scenes. */
+export const makeAlphaBar = (T: number, betaStart = 1e-4, betaEnd = 0.2) =>
+  alphaBarFromBetas(makeBetasLinear(T, betaStart, betaEnd));
+
+export const makeAlphaBarLinear = makeAlphaBar;
+
+export const makeAlphaBarQuadratic = (T: number, betaMin = 1e-4, betaMax = 0.35) =>
+  alphaBarFromBetas(makeBetasQuadratic(T, betaMin, betaMax));
+
+export const makeAlphaBarSigmoid = (T: number, betaMin = 1e-4, betaMax = 0.3, k = 8) =>
+  alphaBarFromBetas(makeBetasSigmoid(T, betaMin, betaMax, k));
+
+/** Cosine ᾱ_t (Nichol & Dhariwal), normalised so f(0) = 1. */
+export const makeAlphaBarCosine = (T: number, s = 0.008) => {
+  const f = (t: number) => Math.pow(Math.cos(((t / T + s) / (1 + s)) * (Math.PI / 2)), 2);
+  const f0 = f(0);
+  return Array.from({ length: T }, (_, i) => f(i) / f0);
+};
+
+export const makeAlphaBarScaledLinear = (T: number, betaStart = 0.00085, betaEnd = 0.012) =>
+  alphaBarFromBetas(makeBetasScaledLinear(T, betaStart, betaEnd));
+
+// VP ↔ VE: x_t = √ᾱ (x₀ + σ ε) with σ² = (1 − ᾱ) / ᾱ, so both share the same SNR.
+
+/** VE noise level σ_t with the same signal-to-noise ratio as ᾱ_t. */
+export const sigmaFromAlphaBar = (ab: number) => Math.sqrt((1 - ab) / Math.max(ab, 1e-12));
+
+export const alphaBarFromSigma = (sigma: number) => 1 / (1 + sigma * sigma);
+
+/** Karras et al. (EDM) σ_t, rising from σ_min at t = 0 to σ_max; larger ρ spends more steps at low σ. */
+export const makeSigmasKarras = (T: number, sigmaMin = 0.002, sigmaMax = 80, rho = 7) => {
+  const a = Math.pow(sigmaMin, 1 / rho);
+  const b = Math.pow(sigmaMax, 1 / rho);
+  return Array.from({ length: T }, (_, i) => Math.pow(a + ramp(i, T) * (b - a), rho));
+};
+
+/** Log-linear σ_t: log σ is linear in t between σ_min and σ_max. */
+export const makeSigmasExponential = (T: number, sigmaMin = 0.002, sigmaMax = 80) => {
+  const a = Math.log(sigmaMin);
+  const b = Math.log(sigmaMax);
+  return Array.from({ length: T }, (_, i) => Math.exp(a + ramp(i, T) * (b - a)));
+};
+
+export const makeAlphaBarKarras = (T: number, sigmaMin = 0.002, sigmaMax = 80, rho = 7) =>
+  makeSigmasKarras(T, sigmaMin, sigmaMax, rho).map(alphaBarFromSigma);
+
+export const makeAlphaBarExponential = (T: number, sigmaMin = 0.002, sigmaMax = 80) =>
+  makeSigmasExponential(T, sigmaMin, sigmaMax).map(alphaBarFromSigma);
+
+/**
+ * Zero-terminal-SNR rescaling (Lin et al., "Common Diffusion Noise Schedules
+ * and Sample Steps are Flawed"): shift and scale √ᾱ so the last step has
+ * ᾱ = 0 exactly while ᾱ_0 is unchanged.
+ */
+export const rescaleZeroTerminalSnr = (alphaBar: ArrayLike<number>) => {
+  const n = alphaBar.length;
+  const first = Math.sqrt(alphaBar[0]);
+  const last = Math.sqrt(alphaBar[n - 1]);
+  const scale = first / Math.max(1e-12, first - last);
+  return Array.from({ length: n }, (_, i) => {
+    const r = (Math.sqrt(alphaBar[i]) - last) * scale;
+    return r * r;
+  });
+};
+
+/** ᾱ at a fractional step position, linearly interpolated between neighbours. */
+export const alphaBarAt = (alphaBar: ArrayLike<number>, tPos: number) => {
+  const n = alphaBar.length;
+  const k = Math.max(0, Math.min(n - 2, Math.floor(tPos)));
+  const frac = Math.max(0, Math.min(1, tPos - k));
+  return alphaBar[k] + (alphaBar[k + 1] - alphaBar[k]) * frac;
+};
+
+/** A hand-made schedule: β_t or ᾱ_t at evenly spaced points over t ∈ [0, 1]. */
+export type CustomSchedule = { kind: "beta" | "alphaBar"; values: number[] };
+
+/**
+ * Why `values` is not a usable schedule of the given kind, or null if it is:
+ * β must lie in (0, 1), ᾱ in (0, 1] and non-increasing.
+ */
+export const scheduleProblem = (kind: CustomSchedule["kind"], values: unknown): string | null => {
+  if (!Array.isArray(values) || values.length < 2) {
+    return "must be an array of at least 2 numbers";
+  }
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (typeof v !== "number" || !Number.isFinite(v)) {
+      return `entry ${i} is not a number (${JSON.stringify(v)})`;
+    }
+    if (kind === "beta") {
+      if (!(v > 0 && v < 1)) return `β[${i}] = ${v} is outside (0, 1)`;
+    } else {
+      if (!(v > 0 && v <= 1)) return `ᾱ[${i}] = ${v} is outside (0, 1]`;
+      if (i > 0 && v > values[i - 1]) {
+        return `ᾱ must be non-increasing, but ᾱ[${i}] = ${v} > ᾱ[${i - 1}] = ${values[i - 1]}`;
+      }
+    }
+  }
+  return null;
+};
+
+/** ᾱ_t of length T from a custom schedule, linearly resampled onto the T steps. */
+export const alphaBarFromCustom = (T: number, { kind, values }: CustomSchedule) => {
+  const last = values.length - 1;
+  const resampled = Array.from({ length: T }, (_, i) => alphaBarAt(values, ramp(i, T) * last));
+  return kind === "beta" ? alphaBarFromBetas(resampled) : resampled;
+};
+
+/* =============================== KDE =============================== */
+
+/** Silverman's rule-of-thumb bandwidth. */
+export const silvermanBandwidth = (data: ArrayLike<number>) => {
+  const n = data.length || 1;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += data[i];
+  mean /= n;
+  let v = 0;
+  for (let i = 0; i < n; i++) {
+    const d = data[i] - mean;
+    v += d * d;
+  }
+  v /= Math.max(1, n - 1);
+  const std = Math.sqrt(Math.max(1e-6, v));
+  return 1.06 * std * Math.pow(n, -1 / 5);
+};
+
+/** Gaussian KDE of `data` evaluated on `grid` (bandwidth defaults to Silverman). */
+export const kde = (
+  data: ArrayLike<number>,
+  grid: ArrayLike<number>,
+  h = silvermanBandwidth(data)
+) => {
+  const n = data.length || 1;
+  const inv = 1 / (Math.sqrt(2 * Math.PI) * h * n);
+  const ys: number[] = new Array(grid.length).fill(0);
+  for (let j = 0; j < grid.length; j++) {
+    const x = grid[j];
+    let s = 0;
+    for (let i = 0; i < data.length; i++) {
+      const z = (x - data[i]) / h;
+      s += Math.exp(-0.5 * z * z);
+    }
+    ys[j] = inv * s;
+  }
+  return ys;
+};
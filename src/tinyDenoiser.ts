@@ -0,0 +1,276 @@
+// A tiny ε-prediction MLP for 2D toy data, trained with plain TypeScript on
+// the CPU — the "learned reverse" counterpart of mixtureScore.ts.
+//
+//   input   [x, y, emb(t)]  with emb(t) = sin/cos features of t/T
+//   hidden  `layers` × Dense(hidden) + SiLU
+//   output  ε̂ ∈ ℝ²
+//
+// Loss is the DDPM "simple" objective E‖ε̂(√ᾱ x₀ + √(1−ᾱ) ε, t) − ε‖², optimized
+// with Adam. Everything is seeded, so the same config always trains the same
+// weights (calculateMetadata relies on this for offline renders).
+
+import { alphaBarFromBetas, makeBetasLinear, makeRng, randInt, randn, Rng } from "./seededMath";
+
+export type DenoiserConfig = {
+  /** diffusion steps of the training schedule */
+  T: number;
+  hidden: number;
+  layers: number;
+  /** sin/cos time features (even) */
+  embDim: number;
+  batch: number;
+  lr: number;
+  seed: number;
+};
+
+export const DEFAULT_DENOISER_CONFIG: DenoiserConfig = {
+  T: 100,
+  hidden: 64,
+  layers: 3,
+  embDim: 16,
+  batch: 64,
+  lr: 2e-3,
+  seed: 1234,
+};
+
+type Dense = { nIn: number; nOut: number; W: Float32Array; b: Float32Array };
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+const silu = (z: number) => z * sigmoid(z);
+const siluGrad = (z: number) => {
+  const s = sigmoid(z);
+  return s * (1 + z * (1 - s));
+};
+
+const timeEmbedding = (t: number, T: number, embDim: number, out: Float32Array, off: number) => {
+  const half = embDim >> 1;
+  const u = t / T;
+  for (let k = 0; k < half; k++) {
+    const w = Math.pow(2, k) * Math.PI;
+    out[off + k] = Math.sin(w * u);
+    out[off + half + k] = Math.cos(w * u);
+  }
+};
+
+/**
+ * Model + Adam state + schedule for one training run. `train(n)` runs n
+ * minibatch steps and returns their losses; `sample(n, rng)` draws ancestral
+ * DDPM samples from the current weights.
+ */
+export const makeDenoiserTrainer = (
+  data: { xs: ArrayLike<number>; ys: ArrayLike<number> },
+  config: DenoiserConfig = DEFAULT_DENOISER_CONFIG
+) => {
+  const { T, hidden, layers, embDim, batch, lr } = config;
+  if (data.xs.length === 0) throw new Error("makeDenoiserTrainer: empty data set");
+  const rng = makeRng(config.seed);
+
+  const betas = makeBetasLinear(T, 1e-4, 0.2);
+  const alphaBar = alphaBarFromBetas(betas);
+
+  // He-style init, smaller last layer so ε̂ starts near 0
+  const sizes = [2 + embDim, ...Array.from({ length: layers }, () => hidden), 2];
+  const initRng = rng.fork(1);
+  const net: Dense[] = [];
+  for (let l = 0; l + 1 < sizes.length; l++) {
+    const nIn = sizes[l], nOut = sizes[l + 1];
+    const scale = (l + 2 === sizes.length ? 0.1 : 1) * Math.sqrt(2 / nIn);
+    const W = new Float32Array(nIn * nOut);
+    for (let i = 0; i < W.length; i++) W[i] = scale * randn(initRng);
+    net.push({ nIn, nOut, W, b: new Float32Array(nOut) });
+  }
+
+  // Adam moments, gradients and per-layer scratch
+  const m = net.map((d) => ({ W: new Float32Array(d.W.length), b: new Float32Array(d.b.length) }));
+  const v = net.map((d) => ({ W: new Float32Array(d.W.length), b: new Float32Array(d.b.length) }));
+  const g = net.map((d) => ({ W: new Float32Array(d.W.length), b: new Float32Array(d.b.length) }));
+  const acts = sizes.map((n) => new Float32Array(n)); // a_0 … a_L
+  const pre = sizes.map((n) => new Float32Array(n)); //  z_1 … z_L (index by layer + 1)
+  const delta = sizes.map((n) => new Float32Array(n));
+  let adamStep = 0;
+
+  const forward = (x: number, y: number, t: number) => {
+    const a0 = acts[0];
+    a0[0] = x;
+    a0[1] = y;
+    timeEmbedding(t, T, embDim, a0, 2);
+    for (let l = 0; l < net.length; l++) {
+      const { nIn, nOut, W, b } = net[l];
+      const aIn = acts[l], z = pre[l + 1], aOut = acts[l + 1];
+      const last = l === net.length - 1;
+      for (let o = 0; o < nOut; o++) {
+        let s = b[o];
+        const row = o * nIn;
+        for (let i = 0; i < nIn; i++) s += W[row + i] * aIn[i];
+        z[o] = s;
+        aOut[o] = last ? s : silu(s);
+      }
+    }
+    return acts[net.length];
+  };
+
+  /** ε̂(x_t, t) at a single point. */
+  const predict = (x: number, y: number, t: number): [number, number] => {
+    const out = forward(x, y, t);
+    return [out[0], out[1]];
+  };
+
+  const trainStep = () => {
+    for (const gl of g) {
+      gl.W.fill(0);
+      gl.b.fill(0);
+    }
+    let loss = 0;
+    const L = net.length;
+    for (let s = 0; s < batch; s++) {
+      const j = randInt(rng, 0, data.xs.length);
+      const t = randInt(rng, 0, T);
+      const ab = alphaBar[t];
+      const e0 = randn(rng), e1 = randn(rng);
+      const xt = Math.sqrt(ab) * data.xs[j] + Math.sqrt(1 - ab) * e0;
+      const yt = Math.sqrt(ab) * data.ys[j] + Math.sqrt(1 - ab) * e1;
+      const out = forward(xt, yt, t);
+
+      const r0 = out[0] - e0, r1 = out[1] - e1;
+      loss += (r0 * r0 + r1 * r1) / 2;
+      // ∂loss/∂ε̂ for loss = mean over the batch of ½‖ε̂ − ε‖²
+      delta[L][0] = r0 / batch;
+      delta[L][1] = r1 / batch;
+
+      for (let l = L - 1; l >= 0; l--) {
+        const { nIn, nOut, W } = net[l];
+        const dOut = delta[l + 1], aIn = acts[l], gl = g[l];
+        for (let o = 0; o < nOut; o++) {
+          const d = dOut[o];
+          gl.b[o] += d;
+          const row = o * nIn;
+          for (let i = 0; i < nIn; i++) gl.W[row + i] += d * aIn[i];
+        }
+        if (l === 0) break;
+        const dIn = delta[l], zIn = pre[l];
+        for (let i = 0; i < nIn; i++) {
+          let s = 0;
+          for (let o = 0; o < nOut; o++) s += W[o * nIn + i] * dOut[o];
+          dIn[i] = s * siluGrad(zIn[i]);
+        }
+      }
+    }
+
+    // Adam
+    adamStep++;
+    const b1 = 0.9, b2 = 0.999, epsAdam = 1e-8;
+    const c1 = 1 / (1 - Math.pow(b1, adamStep));
+    const c2 = 1 / (1 - Math.pow(b2, adamStep));
+    const update = (p: Float32Array, gr: Float32Array, mm: Float32Array, vv: Float32Array) => {
+      for (let i = 0; i < p.length; i++) {
+        mm[i] = b1 * mm[i] + (1 - b1) * gr[i];
+        vv[i] = b2 * vv[i] + (1 - b2) * gr[i] * gr[i];
+        p[i] -= (lr * mm[i] * c1) / (Math.sqrt(vv[i] * c2) + epsAdam);
+      }
+    };
+    for (let l = 0; l < L; l++) {
+      update(net[l].W, g[l].W, m[l].W, v[l].W);
+      update(net[l].b, g[l].b, m[l].b, v[l].b);
+    }
+    return loss / batch;
+  };
+
+  const train = (iters: number) => {
+    const losses: number[] = [];
+    for (let i = 0; i < iters; i++) losses.push(trainStep());
+    return losses;
+  };
+
+  /** Ancestral DDPM with the learned ε̂ (full schedule, σ_t² = β̃_t). */
+  const sample = (n: number, sampleRng: Rng) => {
+    const xs = new Float32Array(n);
+    const ys = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      xs[i] = randn(sampleRng);
+      ys[i] = randn(sampleRng);
+    }
+    for (let t = T - 1; t >= 0; t--) {
+      const beta = betas[t];
+      const ab = alphaBar[t];
+      const abPrev = t > 0 ? alphaBar[t - 1] : 1;
+      const coef = beta / Math.sqrt(1 - ab);
+      const sigma = t > 0 ? Math.sqrt(((1 - abPrev) / (1 - ab)) * beta) : 0;
+      for (let i = 0; i < n; i++) {
+        const out = forward(xs[i], ys[i], t);
+        xs[i] = (xs[i] - coef * out[0]) / Math.sqrt(1 - beta) + sigma * randn(sampleRng);
+        ys[i] = (ys[i] - coef * out[1]) / Math.sqrt(1 - beta) + sigma * randn(sampleRng);
+      }
+    }
+    return { xs, ys };
+  };
+
+  return {
+    config,
+    train,
+    sample,
+    predict,
+    get step() {
+      return adamStep;
+    },
+  };
+};
+
+export type DenoiserTrainer = ReturnType<typeof makeDenoiserTrainer>;
+
+/* ========================= recorded training run ========================= */
+
+export type TrainingSnapshot = { iter: number; xs: number[]; ys: number[] };
+
+/** What the training composition animates (plain arrays so it survives JSON). */
+export type TrainingHistory = {
+  /** mean loss per logged chunk of `logEvery` iterations */
+  losses: number[];
+  logEvery: number;
+  /** samples from the model at iteration 0, snapshotEvery, …, iterations */
+  snapshots: TrainingSnapshot[];
+};
+
+export type TrainingRun = {
+  iterations: number;
+  snapshotEvery: number;
+  logEvery: number;
+  sampleCount: number;
+};
+
+/**
+ * Trains until `trainer.step` reaches `run.iterations`, in chunks of
+ * `snapshotEvery`, sampling after each chunk. Pass the previous `history` to
+ * resume (the worker does this chunk by chunk); without it the untrained
+ * model is sampled first. `logEvery` must divide `snapshotEvery`.
+ */
+export const recordTraining = (
+  trainer: DenoiserTrainer,
+  run: TrainingRun,
+  history?: TrainingHistory
+): TrainingHistory => {
+  const { iterations, snapshotEvery, logEvery, sampleCount } = run;
+  if (snapshotEvery % logEvery !== 0) {
+    throw new Error(`recordTraining: logEvery (${logEvery}) must divide snapshotEvery (${snapshotEvery})`);
+  }
+  const sampleRng = makeRng(trainer.config.seed).fork(0x5a);
+  const out: TrainingHistory = history
+    ? { ...history, losses: [...history.losses], snapshots: [...history.snapshots] }
+    : { losses: [], logEvery, snapshots: [] };
+
+  // one independent stream per snapshot, so resumed runs match uninterrupted ones
+  const snap = () => {
+    const s = trainer.sample(sampleCount, sampleRng.fork(trainer.step));
+    out.snapshots.push({ iter: trainer.step, xs: Array.from(s.xs), ys: Array.from(s.ys) });
+  };
+
+  if (!history) snap();
+  while (trainer.step < iterations) {
+    const losses = trainer.train(Math.min(snapshotEvery, iterations - trainer.step));
+    for (let i = 0; i < losses.length; i += logEvery) {
+      const chunk = losses.slice(i, i + logEvery);
+      out.losses.push(chunk.reduce((a, b) => a + b, 0) / chunk.length);
+    }
+    snap();
+  }
+  return out;
+};
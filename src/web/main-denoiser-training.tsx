@@ -0,0 +1,7 @@
+import React from "react";
+import { createRoot } from "react-dom/client";
+import Element_DenoiserTraining from "../components/Element_DenoiserTraining";
+
+const rootEl = document.getElementById("root");
+if (!rootEl) throw new Error("#root not found");
+createRoot(rootEl).render(<Element_DenoiserTraining />);
@@ -0,0 +1,7 @@
+import React from "react";
+import { createRoot } from "react-dom/client";
+import Element_FlowMatching from "../components/Element_FlowMatching";
+
+const rootEl = document.getElementById("root");
+if (!rootEl) throw new Error("#root not found");
+createRoot(rootEl).render(<Element_FlowMatching />);
@@ -23,6 +23,10 @@ export default defineConfig(({ mode }) => ({
         samplingcontinuous: resolve(__dirname, "sampling-continuous.html"), // ← add this
         howimagenoise: resolve(__dirname, "how-image-noise.html"), // ← add this
         forwardschedulers: resolve(__dirname, "diffusion-forward-schedulers.html"), // ← add this
+        denoisertraining: resolve(__dirname, "denoiser-training.html"),
+        latentdiffusion: resolve(__dirname, "latent-diffusion.html"),
+        conditionaldiffusion: resolve(__dirname, "conditional-diffusion.html"),
+        flowmatching: resolve(__dirname, "flow-matching.html"),
       },
     },
   },